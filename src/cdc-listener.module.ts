@@ -0,0 +1,19 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { CdcListenerModuleOptions } from './interfaces/cdc.interface';
+import { CDC_LISTENER_MODULE_OPTIONS, CdcListenerExplorer } from './services/cdc-listener.explorer';
+
+@Module({})
+export class CdcListenerModule {
+  /**
+   * Route change events to methods decorated with @OnInsert, @OnUpdate, @OnDelete or @OnChange
+   */
+  static forRoot(options: CdcListenerModuleOptions = {}): DynamicModule {
+    return {
+      module: CdcListenerModule,
+      imports: [DiscoveryModule],
+      providers: [{ provide: CDC_LISTENER_MODULE_OPTIONS, useValue: options }, CdcListenerExplorer],
+      exports: [CdcListenerExplorer],
+    };
+  }
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+import * as mongoose from 'mongoose';
+import { MigrationResult, MigrationStatus } from '../interfaces/migration.interface';
+import { MigrationRunner } from '../services/migration-runner.service';
+import { loadMigrationsFromDirectory } from '../utils/migration.utils';
+
+const USAGE = `Usage: nestjs-mongodb-migrate <status|up|down> [options]
+
+Options:
+  --uri <uri>           MongoDB connection string (default: $MONGODB_URI)
+  --dir <path>          Directory of compiled migration files, repeatable
+  --to <version>        up: last version to apply; down: version to roll back to
+  --dry-run             Only print the migrations that would run
+  --allow-drift         Apply pending migrations even if applied ones changed
+  --collection <name>   Collection recording applied migrations (default: migrations)`;
+
+/**
+ * Parsed command line of the migration CLI
+ */
+export interface MigrationCliArgs {
+  command: 'status' | 'up' | 'down';
+  uri?: string;
+  directories: string[];
+  to?: string;
+  dryRun: boolean;
+  allowDrift: boolean;
+  collectionName?: string;
+}
+
+/**
+ * Parse the arguments of the migration CLI, throwing on unknown commands and options
+ */
+export function parseMigrationCliArgs(argv: string[]): MigrationCliArgs {
+  const [command, ...rest] = argv;
+  if (command !== 'status' && command !== 'up' && command !== 'down') {
+    throw new Error(`Unknown command "${command ?? ''}"`);
+  }
+
+  const args: MigrationCliArgs = { command, directories: [], dryRun: false, allowDrift: false };
+  for (let i = 0; i < rest.length; i++) {
+    const option = rest[i];
+    const value = () => {
+      if (rest[i + 1] === undefined) {
+        throw new Error(`Option ${option} requires a value`);
+      }
+      return rest[++i];
+    };
+
+    switch (option) {
+      case '--uri':
+        args.uri = value();
+        break;
+      case '--dir':
+        args.directories.push(value());
+        break;
+      case '--to':
+        args.to = value();
+        break;
+      case '--collection':
+        args.collectionName = value();
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--allow-drift':
+        args.allowDrift = true;
+        break;
+      default:
+        throw new Error(`Unknown option "${option}"`);
+    }
+  }
+  return args;
+}
+
+/**
+ * Format migration statuses as one line each
+ */
+export function formatMigrationStatus(statuses: MigrationStatus[]): string {
+  if (!statuses.length) {
+    return 'No migrations found';
+  }
+  return statuses
+    .map((status) => `${status.state.padEnd(8)} ${status.version}  ${status.description}`)
+    .join('\n');
+}
+
+function formatResults(results: MigrationResult[]): string {
+  if (!results.length) {
+    return 'Nothing to do';
+  }
+  return results
+    .map((result) => {
+      const prefix = result.dryRun ? '[dry run] ' : '';
+      const action = result.direction === 'up' ? 'applied' : 'rolled back';
+      return `${prefix}${action} ${result.version}  ${result.description}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Run the migration CLI and return its exit code
+ */
+export async function runMigrationCli(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+  let args: MigrationCliArgs;
+  try {
+    args = parseMigrationCliArgs(argv);
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const uri = args.uri || env.MONGODB_URI;
+  if (!uri) {
+    console.error(`No connection string: pass --uri or set MONGODB_URI\n\n${USAGE}`);
+    return 1;
+  }
+
+  const connection = await mongoose.createConnection(uri).asPromise();
+  try {
+    const migrations = [];
+    for (const directory of args.directories) {
+      migrations.push(...(await loadMigrationsFromDirectory(directory)));
+    }
+    const runner = new MigrationRunner(connection, migrations, {
+      collectionName: args.collectionName,
+    });
+
+    if (args.command === 'status') {
+      console.log(formatMigrationStatus(await runner.status()));
+    } else if (args.command === 'up') {
+      const { to, dryRun, allowDrift } = args;
+      console.log(formatResults(await runner.up({ to, dryRun, allowDrift })));
+    } else {
+      const { to, dryRun } = args;
+      console.log(formatResults(await runner.down({ to, dryRun })));
+    }
+    return 0;
+  } catch (error: any) {
+    console.error(error.message);
+    return 1;
+  } finally {
+    await connection.close();
+  }
+}
+
+if (require.main === module) {
+  runMigrationCli(process.argv.slice(2)).then((code) => process.exit(code));
+}
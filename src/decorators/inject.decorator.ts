@@ -1,5 +1,11 @@
 import { Inject } from '@nestjs/common';
 import { getModelToken } from '@nestjs/mongoose';
+import { getTransactionManagerToken } from '../utils/transaction.utils';
+import { getMongooseOptionsToken } from '../utils/mongoose-options.utils';
+import { getMongoHealthIndicatorToken } from '../utils/health.utils';
+import { getMigrationRunnerToken } from '../utils/migration.utils';
+import { getIndexManagerToken } from '../utils/index-manager.utils';
+import { getSlowQueryDetectorToken } from '../utils/explain.utils';
 
 /**
  * Inject a Mongoose model into a class
@@ -17,3 +23,51 @@ export const InjectModel = (model: string, connectionName?: string) => {
 export const InjectRepository = (repositoryToken: string) => {
   return Inject(repositoryToken);
 };
+
+/**
+ * Inject the TransactionManager of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectTransactionManager = (connectionName?: string) => {
+  return Inject(getTransactionManagerToken(connectionName));
+};
+
+/**
+ * Inject the resolved MongooseModule options of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectMongooseOptions = (connectionName?: string) => {
+  return Inject(getMongooseOptionsToken(connectionName));
+};
+
+/**
+ * Inject the MongoHealthIndicator of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectMongoHealthIndicator = (connectionName?: string) => {
+  return Inject(getMongoHealthIndicatorToken(connectionName));
+};
+
+/**
+ * Inject the MigrationRunner of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectMigrationRunner = (connectionName?: string) => {
+  return Inject(getMigrationRunnerToken(connectionName));
+};
+
+/**
+ * Inject the IndexManager of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectIndexManager = (connectionName?: string) => {
+  return Inject(getIndexManagerToken(connectionName));
+};
+
+/**
+ * Inject the SlowQueryDetector of a connection
+ * @param connectionName - Optional connection name
+ */
+export const InjectSlowQueryDetector = (connectionName?: string) => {
+  return Inject(getSlowQueryDetectorToken(connectionName));
+};
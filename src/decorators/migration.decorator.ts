@@ -0,0 +1,17 @@
+import { MigrationOptions } from '../interfaces/migration.interface';
+
+/**
+ * Metadata key of the migration options on a class
+ */
+export const MIGRATION_METADATA = 'nestjs-mongodb:migration';
+
+/**
+ * Mark a class implementing `MigrationInterface` as a migration.
+ * Register it as a provider or place it in a migrations directory to have it discovered.
+ * @param options - Version, description and transaction behavior
+ */
+export const Migration = (options: MigrationOptions): ClassDecorator => {
+  return (target) => {
+    Reflect.defineMetadata(MIGRATION_METADATA, options, target);
+  };
+};
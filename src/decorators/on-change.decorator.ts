@@ -0,0 +1,66 @@
+import {
+  CdcListenerMetadata,
+  CdcListenerOptions,
+  ChangeOperationType,
+} from '../interfaces/cdc.interface';
+
+/**
+ * Metadata key of change listeners on a method
+ */
+export const CDC_LISTENER_METADATA = 'nestjs-mongodb:cdc-listener';
+
+/**
+ * Receive change events of a model for the given operations.
+ * Requires `CdcListenerModule.forRoot()`, which opens one shared change stream per model.
+ * @param modelName - Name of the model the change stream watches
+ * @param operations - Operation types to receive
+ * @param options - Connection name and update field filter
+ */
+export const OnChange = (
+  modelName: string,
+  operations: ChangeOperationType[],
+  options: CdcListenerOptions = {},
+): MethodDecorator => {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const listeners: CdcListenerMetadata[] =
+      Reflect.getMetadata(CDC_LISTENER_METADATA, descriptor.value) || [];
+    Reflect.defineMetadata(
+      CDC_LISTENER_METADATA,
+      [...listeners, { modelName, operations, ...options }],
+      descriptor.value,
+    );
+    return descriptor;
+  };
+};
+
+/**
+ * Receive insert events of a model
+ * @param modelName - Name of the model
+ * @param options - Connection name
+ */
+export const OnInsert = (modelName: string, options: Omit<CdcListenerOptions, 'fields'> = {}) =>
+  OnChange(modelName, [ChangeOperationType.INSERT], options);
+
+/**
+ * Receive update events of a model, optionally only those touching some fields
+ * @param modelName - Name of the model
+ * @param options - Connection name and fields
+ */
+export const OnUpdate = (modelName: string, options: CdcListenerOptions = {}) =>
+  OnChange(modelName, [ChangeOperationType.UPDATE], options);
+
+/**
+ * Receive replace events of a model
+ * @param modelName - Name of the model
+ * @param options - Connection name
+ */
+export const OnReplace = (modelName: string, options: Omit<CdcListenerOptions, 'fields'> = {}) =>
+  OnChange(modelName, [ChangeOperationType.REPLACE], options);
+
+/**
+ * Receive delete events of a model
+ * @param modelName - Name of the model
+ * @param options - Connection name
+ */
+export const OnDelete = (modelName: string, options: Omit<CdcListenerOptions, 'fields'> = {}) =>
+  OnChange(modelName, [ChangeOperationType.DELETE], options);
@@ -0,0 +1,30 @@
+import { TransactionalOptions } from '../interfaces/transaction.interface';
+import { TransactionManager } from '../services/transaction-manager.service';
+
+/**
+ * Run the decorated method inside a transaction.
+ * Repository calls made by the method join the transaction automatically, and calls
+ * to other @Transactional() methods reuse the outer session.
+ * @param options - Connection name, retry and transaction options
+ */
+export const Transactional = (options: TransactionalOptions = {}): MethodDecorator => {
+  return (_target, _propertyKey, descriptor: PropertyDescriptor) => {
+    const originalMethod = descriptor.value;
+
+    const wrappedMethod = function (this: any, ...args: any[]) {
+      return TransactionManager.forConnection(options.connectionName).run(
+        () => originalMethod.apply(this, args),
+        options,
+      );
+    };
+
+    // Keep metadata set by decorators applied before this one
+    Reflect.getMetadataKeys(originalMethod).forEach((key) => {
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, originalMethod), wrappedMethod);
+    });
+    Object.defineProperty(wrappedMethod, 'name', { value: originalMethod.name });
+
+    descriptor.value = wrappedMethod;
+    return descriptor;
+  };
+};
@@ -0,0 +1,17 @@
+import { MongoHealthIndicatorResult } from '../interfaces/health.interface';
+
+/**
+ * Thrown by `MongoHealthIndicator.isHealthy` when the connection is down.
+ * `@nestjs/terminus` recognizes it by `isHealthCheckError` and reports its `causes`.
+ */
+export class MongoHealthCheckError extends Error {
+  readonly isHealthCheckError = true;
+
+  constructor(
+    message: string,
+    public readonly causes: MongoHealthIndicatorResult,
+  ) {
+    super(message);
+    this.name = 'MongoHealthCheckError';
+  }
+}
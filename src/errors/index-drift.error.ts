@@ -0,0 +1,16 @@
+import { IndexDiff } from '../interfaces/index-manager.interface';
+
+/**
+ * Thrown on application bootstrap when `failOnDrift` is set and the live indexes
+ * differ from the declared ones
+ */
+export class IndexDriftError extends Error {
+  constructor(public readonly diffs: IndexDiff[]) {
+    super(
+      `Index drift detected: ${diffs
+        .map((diff) => `${diff.type} ${diff.collectionName}.${diff.name}`)
+        .join(', ')}`,
+    );
+    this.name = 'IndexDriftError';
+  }
+}
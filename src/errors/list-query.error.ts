@@ -0,0 +1,9 @@
+/**
+ * Thrown when a list query string uses fields, operators or values it may not
+ */
+export class InvalidListQueryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid list query: ${problems.join('; ')}`);
+    this.name = 'InvalidListQueryError';
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Thrown when another instance holds the migration lock, or took it over during a run
+ */
+export class MigrationLockError extends Error {
+  constructor(
+    public readonly lockName: string,
+    message = `Migration lock "${lockName}" is held by another instance`,
+  ) {
+    super(message);
+    this.name = 'MigrationLockError';
+  }
+}
+
+/**
+ * Thrown when applied migrations changed since they ran
+ */
+export class MigrationDriftError extends Error {
+  constructor(public readonly versions: string[]) {
+    super(`Applied migrations have changed since they ran: ${versions.join(', ')}`);
+    this.name = 'MigrationDriftError';
+  }
+}
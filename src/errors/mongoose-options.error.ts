@@ -0,0 +1,14 @@
+/**
+ * Thrown when the options resolved for a connection are missing or invalid
+ */
+export class InvalidMongooseOptionsError extends Error {
+  constructor(
+    public readonly connectionName: string,
+    public readonly problems: string[],
+  ) {
+    super(
+      `Invalid MongooseModule options for connection "${connectionName}": ${problems.join('; ')}`,
+    );
+    this.name = 'InvalidMongooseOptionsError';
+  }
+}
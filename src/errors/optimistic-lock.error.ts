@@ -0,0 +1,15 @@
+/**
+ * Thrown when an update with an expected version finds the document at another version
+ */
+export class OptimisticLockError extends Error {
+  constructor(
+    public readonly documentId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion?: number,
+  ) {
+    super(
+      `Document ${documentId} was modified concurrently: expected version ${expectedVersion}, found ${actualVersion}`,
+    );
+    this.name = 'OptimisticLockError';
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Thrown when a tenant-scoped operation runs without a resolvable tenant
+ */
+export class TenantNotResolvedError extends Error {
+  constructor() {
+    super('No tenant could be resolved for a tenant-scoped operation');
+    this.name = 'TenantNotResolvedError';
+  }
+}
+
+/**
+ * Thrown when an operation targets data of another tenant without bypassing tenancy
+ */
+export class CrossTenantAccessError extends Error {
+  constructor(
+    public readonly tenantId: string,
+    public readonly requestedTenantId: unknown,
+    message = `Tenant ${tenantId} cannot access data of tenant ${String(requestedTenantId)}`,
+  ) {
+    super(message);
+    this.name = 'CrossTenantAccessError';
+  }
+}
@@ -1,27 +1,88 @@
 // Module
 export * from './mongoose.module';
+export * from './cdc-listener.module';
+export * from './migration.module';
 
 // Models
 export * from './models/base.model';
+export * from './models/outbox.model';
 
 // Repositories
 export * from './repositories/base.repository';
+export * from './repositories/outbox.repository';
+
+// Errors
+export * from './errors/optimistic-lock.error';
+export * from './errors/tenancy.error';
+export * from './errors/mongoose-options.error';
+export * from './errors/health-check.error';
+export * from './errors/migration.error';
+export * from './errors/index-drift.error';
+export * from './errors/list-query.error';
 
 // Interfaces
 export * from './interfaces/base.interface';
+export * from './interfaces/bulk.interface';
 export * from './interfaces/mongoose-options.interface';
 export * from './interfaces/cdc.interface';
+export * from './interfaces/transaction.interface';
+export * from './interfaces/tenancy.interface';
+export * from './interfaces/outbox.interface';
+export * from './interfaces/audit.interface';
+export * from './interfaces/health.interface';
+export * from './interfaces/shutdown.interface';
+export * from './interfaces/migration.interface';
+export * from './interfaces/index-manager.interface';
+export * from './interfaces/list-query.interface';
+export * from './interfaces/search.interface';
+export * from './interfaces/aggregate.interface';
+export * from './interfaces/explain.interface';
 
 // Services
 export * from './services/base-cdc.service';
+export * from './services/connection-cdc.service';
+export * from './services/cdc-checkpoint.store';
+export * from './services/cdc-lease.store';
+export * from './services/cdc-dead-letter.store';
+export * from './services/transaction-manager.service';
+export * from './services/tenancy.service';
+export * from './services/outbox-relay.service';
+export * from './services/cdc-listener.explorer';
+export * from './services/audit-log.service';
+export * from './services/mongo-health.indicator';
+export * from './services/shutdown-coordinator.service';
+export * from './services/migration-runner.service';
+export * from './services/migration.explorer';
+export * from './services/index-manager.service';
+export * from './services/slow-query.detector';
 
 // Utils
 export * from './utils/query.utils';
 export * from './utils/connection.utils';
 export * from './utils/aggregate.utils';
+export * from './utils/cursor.utils';
+export * from './utils/bulk.utils';
+export * from './utils/transaction.utils';
+export * from './utils/tenant.utils';
+export * from './utils/retry.utils';
+export * from './utils/change-filter.utils';
+export * from './utils/change-diff.utils';
+export * from './utils/change-stream.utils';
+export * from './utils/audit.utils';
+export * from './utils/mongoose-options.utils';
+export * from './utils/health.utils';
+export * from './utils/shutdown.utils';
+export * from './utils/migration.utils';
+export * from './utils/index-manager.utils';
+export * from './utils/list-query.utils';
+export * from './utils/search.utils';
+export * from './utils/explain.utils';
 
 // Decorators
 export * from './decorators/inject.decorator';
+export * from './decorators/transactional.decorator';
+export * from './decorators/on-change.decorator';
+export * from './decorators/migration.decorator';
 
 // Re-export commonly used Mongoose decorators and types
 export { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
@@ -35,4 +96,6 @@ export type {
   Connection,
   Schema as MongooseSchema,
   PipelineStage,
+  ClientSession,
+  AnyBulkWriteOperation,
 } from 'mongoose';
@@ -0,0 +1,49 @@
+import { PipelineStage } from 'mongoose';
+
+/**
+ * Aggregation pipeline carrying the type of its output documents.
+ * The type only exists at compile time; at runtime this is a plain array of stages.
+ */
+export type AggregatePipeline<R = any> = PipelineStage[] & { readonly __output?: R };
+
+/**
+ * Stages allowed in `$lookup` and `$unionWith` sub-pipelines
+ */
+export type SubPipelineStage = Exclude<PipelineStage, PipelineStage.Merge | PipelineStage.Out>;
+
+/**
+ * Sub-pipeline given as stages or as a builder, e.g. another `AggregateBuilder`
+ */
+export type SubPipeline = SubPipelineStage[] | { build(): PipelineStage[] };
+
+/**
+ * `$lookup` joining on equal fields
+ */
+export interface FieldLookupOptions {
+  from: string;
+  localField: string;
+  foreignField: string;
+  as: string;
+}
+
+/**
+ * `$lookup` running a sub-pipeline on the joined collection.
+ * Variables from `let` are available in the sub-pipeline as `$$name`.
+ * `localField` and `foreignField` can be combined with the sub-pipeline (MongoDB 5.0+).
+ */
+export interface PipelineLookupOptions {
+  from: string;
+  as: string;
+  let?: Record<string, any>;
+  pipeline: SubPipeline;
+  localField?: string;
+  foreignField?: string;
+}
+
+/**
+ * `$unionWith` another collection, optionally through a sub-pipeline
+ */
+export interface UnionWithOptions {
+  coll: string;
+  pipeline?: SubPipeline;
+}
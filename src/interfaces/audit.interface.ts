@@ -0,0 +1,83 @@
+/**
+ * Kind of change recorded in the audit log
+ */
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+/**
+ * Who performs the current operation and for which request
+ */
+export interface AuditContext {
+  actor?: string;
+  correlationId?: string;
+}
+
+/**
+ * Provides the audit context of the current request or job
+ */
+export interface AuditContextProvider {
+  getContext(): AuditContext | undefined;
+}
+
+/**
+ * Audit log entry for one changed document
+ */
+export interface AuditEntry {
+  id?: string;
+  collectionName: string;
+  documentId: string;
+  operation: AuditOperation;
+  actor?: string;
+  correlationId?: string;
+  timestamp: Date;
+
+  /**
+   * Filter of the repository call that changed the document
+   */
+  filter?: Record<string, any>;
+
+  /**
+   * Document before the change, null for creates
+   */
+  before: Record<string, any> | null;
+
+  /**
+   * Document after the change, null for hard deletes
+   */
+  after: Record<string, any> | null;
+}
+
+/**
+ * Change reported by a repository; the audit log adds the context and timestamp
+ */
+export type AuditChange = Omit<AuditEntry, 'id' | 'actor' | 'correlationId' | 'timestamp'>;
+
+/**
+ * Destination of repository changes, implemented by AuditLogService
+ */
+export interface AuditRecorder {
+  record(changes: AuditChange[]): Promise<void>;
+}
+
+/**
+ * Audit log configuration
+ */
+export interface AuditLogOptions {
+  /**
+   * Collection holding the audit entries (default: 'audit_logs')
+   */
+  collectionName?: string;
+
+  /**
+   * Audit context provider (default: the AsyncLocalStorage audit context)
+   */
+  contextProvider?: AuditContextProvider;
+}
+
+/**
+ * Options for reading the history of a document
+ */
+export interface AuditHistoryOptions {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
@@ -1,4 +1,17 @@
-import { FilterQuery, UpdateQuery, QueryOptions, PipelineStage } from 'mongoose';
+import type * as mongodb from 'mongodb';
+import {
+  AnyBulkWriteOperation,
+  FilterQuery,
+  Model,
+  UpdateQuery,
+  QueryOptions,
+  PipelineStage,
+} from 'mongoose';
+import { AuditRecorder } from './audit.interface';
+import { AggregatePipeline } from './aggregate.interface';
+import { BulkWriteOptions, BulkWriteReport } from './bulk.interface';
+import { SearchOptions, SearchResult } from './search.interface';
+import { ExplainReport, ExplainVerbosity } from './explain.interface';
 
 export interface BaseEntity {
   _id?: any;
@@ -10,6 +23,7 @@ export interface PaginationOptions {
   page?: number;
   limit?: number;
   sort?: Record<string, 1 | -1>;
+  projection?: Record<string, number>;
 }
 
 export interface PaginationResult<T> {
@@ -20,8 +34,82 @@ export interface PaginationResult<T> {
   totalPages: number;
 }
 
+export interface CursorPaginationOptions {
+  limit?: number;
+  sort?: Record<string, 1 | -1>;
+  after?: string;
+  before?: string;
+}
+
+export interface CursorPaginationResult<T> {
+  data: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+export interface RepositoryUpdateOptions {
+  /**
+   * Only update when the document is at this version (optimistic locking)
+   */
+  expectedVersion?: number;
+}
+
+export interface SoftDeleteOptions {
+  /**
+   * Field holding the deletion timestamp (default: 'deletedAt')
+   */
+  deletedAtField?: string;
+
+  /**
+   * Field holding who deleted the document (default: 'deletedBy')
+   */
+  deletedByField?: string;
+}
+
+export interface BaseRepositoryOptions {
+  /**
+   * Mark documents as deleted instead of removing them
+   */
+  softDelete?: boolean | SoftDeleteOptions;
+
+  /**
+   * Scope operations to the current tenant when the connection has tenancy enabled
+   * (default: true). Disable for collections shared by all tenants.
+   */
+  tenancy?: boolean;
+
+  /**
+   * Record creates, updates and deletes in this audit log.
+   * Bulk writes (`createMany`, `upsertMany`, `bulkWrite`) are not audited.
+   */
+  audit?: AuditRecorder;
+
+  /**
+   * Model of the same collection on another connection (e.g. a secondary or analytics
+   * connection) serving the read methods. Writes and reads in a transaction use the main model.
+   */
+  readModel?: Model<any>;
+
+  /**
+   * Read preference of the read methods, e.g. 'secondaryPreferred'
+   */
+  readPreference?: mongodb.ReadPreferenceMode;
+}
+
 export interface BaseRepositoryInterface<T> {
   create(data: Partial<T>): Promise<T>;
+  createMany(data: Partial<T>[], options?: BulkWriteOptions): Promise<BulkWriteReport>;
+  upsertMany(
+    data: Partial<T>[],
+    keyFields: string[],
+    options?: BulkWriteOptions,
+  ): Promise<BulkWriteReport>;
+  bulkWrite(
+    operations: AnyBulkWriteOperation<T>[],
+    options?: BulkWriteOptions,
+  ): Promise<BulkWriteReport>;
   findById(id: string): Promise<T | null>;
   findOne(filter: FilterQuery<T>): Promise<T | null>;
   findAll(filter?: FilterQuery<T>, options?: QueryOptions): Promise<T[]>;
@@ -29,11 +117,28 @@ export interface BaseRepositoryInterface<T> {
     filter?: FilterQuery<T>,
     options?: PaginationOptions,
   ): Promise<PaginationResult<T>>;
-  update(id: string, data: UpdateQuery<T>): Promise<T | null>;
+  findWithCursor(
+    filter?: FilterQuery<T>,
+    options?: CursorPaginationOptions,
+  ): Promise<CursorPaginationResult<T>>;
+  update(id: string, data: UpdateQuery<T>, options?: RepositoryUpdateOptions): Promise<T | null>;
   updateMany(filter: FilterQuery<T>, data: UpdateQuery<T>): Promise<number>;
-  delete(id: string): Promise<boolean>;
-  deleteMany(filter: FilterQuery<T>): Promise<number>;
+  delete(id: string, deletedBy?: string): Promise<boolean>;
+  deleteMany(filter: FilterQuery<T>, deletedBy?: string): Promise<number>;
+  hardDelete(id: string): Promise<boolean>;
+  hardDeleteMany(filter: FilterQuery<T>): Promise<number>;
+  restore(id: string): Promise<T | null>;
+  findDeleted(filter?: FilterQuery<T>, options?: QueryOptions): Promise<T[]>;
+  withDeleted(): this;
+  withoutTenant(): this;
   count(filter?: FilterQuery<T>): Promise<number>;
   exists(filter: FilterQuery<T>): Promise<boolean>;
-  aggregate<R = any>(pipeline: PipelineStage[]): Promise<R[]>;
+  aggregate<R = any>(pipeline: AggregatePipeline<R>): Promise<R[]>;
+  search(term: string, options: SearchOptions): Promise<SearchResult<T>[]>;
+  explain(
+    filter?: FilterQuery<T>,
+    options?: QueryOptions,
+    verbosity?: ExplainVerbosity,
+  ): Promise<ExplainReport>;
+  explainAggregate(pipeline: PipelineStage[], verbosity?: ExplainVerbosity): Promise<ExplainReport>;
 }
@@ -0,0 +1,46 @@
+/**
+ * Options for bulk repository operations
+ */
+export interface BulkWriteOptions {
+  /**
+   * Number of operations sent to MongoDB per bulkWrite call (default: 1000)
+   */
+  chunkSize?: number;
+
+  /**
+   * Stop at the first failure instead of continuing with the remaining items (default: false)
+   */
+  ordered?: boolean;
+}
+
+/**
+ * Outcome of a single item of a bulk operation
+ */
+export type BulkItemStatus = 'inserted' | 'upserted' | 'updated' | 'deleted' | 'failed' | 'skipped';
+
+/**
+ * Result of a single item of a bulk operation, by its index in the input
+ */
+export interface BulkItemResult {
+  index: number;
+  status: BulkItemStatus;
+  id?: any;
+  error?: string;
+  validationErrors?: Record<string, string>;
+}
+
+/**
+ * Report of a bulk operation
+ */
+export interface BulkWriteReport {
+  insertedCount: number;
+  upsertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  failedCount: number;
+  insertedIds: any[];
+  upsertedIds: any[];
+  failed: BulkItemResult[];
+  items: BulkItemResult[];
+}
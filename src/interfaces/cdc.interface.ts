@@ -1,3 +1,4 @@
+import type { Connection } from 'mongoose';
 import type * as mongodb from 'mongodb';
 
 /**
@@ -14,6 +15,17 @@ export enum ChangeOperationType {
   INVALIDATE = 'invalidate',
 }
 
+/**
+ * Change of a single field computed from an update or replace event.
+ * `oldValue` is only known when the pre-image is available.
+ */
+export interface CdcFieldChange {
+  path: string;
+  kind: 'set' | 'unset' | 'truncated';
+  oldValue?: any;
+  newValue?: any;
+}
+
 /**
  * Base interface for CDC change events
  */
@@ -21,17 +33,299 @@ export interface CdcChangeEvent<T = any> {
   operationType: ChangeOperationType;
   documentKey?: { _id: any };
   fullDocument?: T;
+  /**
+   * Pre-image of the document, with `fullDocumentBeforeChange` enabled
+   */
+  fullDocumentBeforeChange?: T;
   updateDescription?: {
     updatedFields?: Record<string, any>;
     removedFields?: string[];
+    truncatedArrays?: { field: string; newSize: number }[];
   };
+  /**
+   * Changed paths of update and replace events
+   */
+  diff?: CdcFieldChange[];
   ns?: {
     db: string;
     coll: string;
   };
+  /**
+   * New namespace of a renamed collection
+   */
+  to?: {
+    db: string;
+    coll: string;
+  };
   clusterTime?: any;
 }
 
+/**
+ * Persistent storage for change stream resume tokens
+ */
+export interface CdcCheckpointStore {
+  /**
+   * Load the last stored resume token for a stream, or null
+   */
+  load(key: string): Promise<any | null>;
+
+  /**
+   * Store the resume token of the last fully processed event
+   */
+  save(key: string, resumeToken: any): Promise<void>;
+
+  /**
+   * Remove the stored resume token
+   */
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * What to do when the stored resume token is no longer in the oplog
+ * - `startFromNow`: discard the token and watch from the current time
+ * - `fail`: stop the service and report the error to handlers
+ */
+export type CdcHistoryLostPolicy = 'startFromNow' | 'fail';
+
+/**
+ * Resume token checkpointing options
+ */
+export interface CdcCheckpointOptions {
+  /**
+   * Store for resume tokens
+   */
+  store: CdcCheckpointStore;
+
+  /**
+   * Key identifying the stream in the store (default: the service class name)
+   */
+  key?: string;
+
+  /**
+   * Persist the token after this many processed events (default: 1)
+   */
+  everyEvents?: number;
+
+  /**
+   * Also persist the latest processed token every interval in milliseconds (0 to disable)
+   */
+  intervalMs?: number;
+
+  /**
+   * Policy when the stored token has fallen off the oplog (default: 'startFromNow')
+   */
+  historyLostPolicy?: CdcHistoryLostPolicy;
+}
+
+/**
+ * Storage for leader election leases
+ */
+export interface CdcLeaseStore {
+  /**
+   * Acquire or renew the lease for `holderId`.
+   * Returns false while another holder owns an unexpired lease.
+   */
+  acquire(lockName: string, holderId: string, leaseDurationMs: number): Promise<boolean>;
+
+  /**
+   * Release the lease if `holderId` owns it
+   */
+  release(lockName: string, holderId: string): Promise<void>;
+}
+
+/**
+ * Leader election options
+ */
+export interface CdcLeaderElectionOptions {
+  /**
+   * Store for leases
+   */
+  store: CdcLeaseStore;
+
+  /**
+   * Name of the lease shared by all replicas (default: the service class name)
+   */
+  lockName?: string;
+
+  /**
+   * Identifier of this instance (default: hostname, process id and a random suffix)
+   */
+  instanceId?: string;
+
+  /**
+   * How long a lease stays valid without renewal (default: 15000 ms)
+   */
+  leaseDurationMs?: number;
+
+  /**
+   * How often the leader renews and followers try to acquire the lease
+   * (default: a third of leaseDurationMs). Another instance takes over at most
+   * leaseDurationMs + renewIntervalMs after the leader dies.
+   */
+  renewIntervalMs?: number;
+}
+
+/**
+ * Role of a CDC service instance in leader election
+ * - `disabled`: leader election is not configured
+ * - `stopped`: the instance is not taking part in the election
+ */
+export type CdcLeaseRole = 'disabled' | 'stopped' | 'follower' | 'leader';
+
+/**
+ * Leader election state of a CDC service instance
+ */
+export interface CdcLeaseState {
+  role: CdcLeaseRole;
+  lockName?: string;
+  instanceId?: string;
+  changedAt?: Date;
+  renewedAt?: Date;
+}
+
+/**
+ * Runtime status of a CDC service, reported by the health indicator
+ */
+export interface CdcServiceStatus {
+  /**
+   * Checkpoint key of the service (default: the class name)
+   */
+  name: string;
+  isWatching: boolean;
+  lastEventAt: Date | null;
+  reconnectAttempts: number;
+  leaseRole: CdcLeaseRole;
+}
+
+/**
+ * Retry policy for event handlers.
+ * Retries run before the next event is dispatched, so events keep their order.
+ */
+export interface CdcRetryPolicy {
+  /**
+   * Attempts per event including the first one (default: 1, no retry)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds (default: 100)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Factor applied to the delay after each failed attempt (default: 2)
+   */
+  multiplier?: number;
+
+  /**
+   * Upper bound for the retry delay in milliseconds (default: 30000)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomize each delay by up to this fraction, between 0 and 1 (default: 0.2)
+   */
+  jitter?: number;
+}
+
+/**
+ * Event that a handler failed to process after all retries
+ */
+export interface CdcDeadLetterEntry<T = any> {
+  id: string;
+
+  /**
+   * Service the event came from
+   */
+  source: string;
+
+  /**
+   * Name of the failing handler
+   */
+  handlerName: string;
+
+  event: CdcChangeEvent<T>;
+  error: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+/**
+ * Filter for listing and purging dead-lettered events
+ */
+export interface CdcDeadLetterFilter {
+  source?: string;
+  handlerName?: string;
+  failedBefore?: Date;
+  limit?: number;
+}
+
+/**
+ * Storage for dead-lettered events
+ */
+export interface CdcDeadLetterStore {
+  /**
+   * Store an entry and return its id
+   */
+  add(entry: Omit<CdcDeadLetterEntry, 'id'>): Promise<string>;
+
+  /**
+   * List entries, oldest first
+   */
+  list(filter?: CdcDeadLetterFilter): Promise<CdcDeadLetterEntry[]>;
+
+  /**
+   * Get an entry by id, or null
+   */
+  get(id: string): Promise<CdcDeadLetterEntry | null>;
+
+  /**
+   * Remove an entry
+   */
+  remove(id: string): Promise<void>;
+
+  /**
+   * Remove all matching entries and return how many were removed
+   */
+  purge(filter?: CdcDeadLetterFilter): Promise<number>;
+}
+
+/**
+ * Dead-letter options
+ */
+export interface CdcDeadLetterOptions {
+  /**
+   * Store for events that exhausted their retries
+   */
+  store: CdcDeadLetterStore;
+
+  /**
+   * Source name recorded with each entry (default: the service class name)
+   */
+  source?: string;
+}
+
+/**
+ * Ordered concurrent processing options
+ */
+export interface CdcProcessingOptions {
+  /**
+   * Maximum number of events processed at the same time (default: 1)
+   */
+  concurrency?: number;
+
+  /**
+   * Maximum number of read but unfinished events; reading from the stream pauses when
+   * reached (default: concurrency * 10)
+   */
+  maxPending?: number;
+
+  /**
+   * Key of the events that must be processed in order (default: the document key)
+   */
+  orderingKey?: (change: any) => string;
+}
+
 /**
  * Configuration options for CDC service
  */
@@ -46,6 +340,17 @@ export interface CdcServiceOptions {
    */
   fullDocument?: 'default' | 'updateLookup' | 'whenAvailable' | 'required';
 
+  /**
+   * Include the pre-image of updated, replaced and deleted documents (MongoDB 6.0+).
+   * Requires `changeStreamPreAndPostImages` on the collection.
+   */
+  fullDocumentBeforeChange?: 'off' | 'whenAvailable' | 'required';
+
+  /**
+   * Enable `changeStreamPreAndPostImages` on the watched collection before starting
+   */
+  enablePreAndPostImages?: boolean;
+
   /**
    * Resume token for resuming from a specific point
    */
@@ -85,12 +390,98 @@ export interface CdcServiceOptions {
    * Maximum reconnect attempts (0 for unlimited)
    */
   maxReconnectAttempts?: number;
+
+  /**
+   * Persist resume tokens so a restarted service continues where it stopped
+   */
+  checkpoint?: CdcCheckpointOptions;
+
+  /**
+   * Only run the change stream on the replica holding the lease
+   */
+  leaderElection?: CdcLeaderElectionOptions;
+
+  /**
+   * Default retry policy for event handlers without their own
+   */
+  handlerRetry?: CdcRetryPolicy;
+
+  /**
+   * Store events that handlers failed to process after all retries
+   */
+  deadLetter?: CdcDeadLetterOptions;
+
+  /**
+   * Process events concurrently while keeping events of the same document in order.
+   * The resume token only advances past an event once it and all earlier events are done.
+   */
+  processing?: CdcProcessingOptions;
+}
+
+/**
+ * What a CDC service opens its change stream on: a collection, a database or a cluster.
+ * `BaseCdcService` builds one from a model; see `createModelStreamSource` and
+ * `createConnectionStreamSource`.
+ */
+export interface CdcStreamSource {
+  /**
+   * Open a change stream with the given pipeline and options
+   */
+  watch(pipeline: any[], options: mongodb.ChangeStreamOptions): mongodb.ChangeStream;
+
+  /**
+   * Get the connection the stream is opened on
+   */
+  getConnection(): Connection;
+
+  /**
+   * Get the watched collection, for sources watching a single collection
+   */
+  getCollectionName?(): string;
+}
+
+/**
+ * Scope of a connection-level change stream
+ * - `database`: every collection of the connection's database
+ * - `cluster`: every database of the deployment
+ */
+export type ConnectionCdcScope = 'database' | 'cluster';
+
+/**
+ * Configuration options for connection-level CDC services
+ */
+export interface ConnectionCdcServiceOptions extends CdcServiceOptions {
+  /**
+   * What to watch (default: 'database')
+   */
+  scope?: ConnectionCdcScope;
+
+  /**
+   * Only watch these collections. Renamed collections are followed.
+   */
+  collections?: string[];
+
+  /**
+   * Only watch these databases (cluster scope)
+   */
+  databases?: string[];
 }
 
 /**
  * CDC event handler interface
  */
 export interface CdcEventHandler<T = any> {
+  /**
+   * Name recorded with dead-lettered events and used to replay them
+   * (default: the handler class name)
+   */
+  name?: string;
+
+  /**
+   * Retry policy for this handler (default: the service's `handlerRetry`)
+   */
+  retryPolicy?: CdcRetryPolicy;
+
   /**
    * Handle change event
    */
@@ -105,6 +496,50 @@ export interface CdcEventHandler<T = any> {
    * Handle close event
    */
   onClose?(): Promise<void> | void;
+
+  /**
+   * Handle leader election role change
+   */
+  onLeaseChange?(state: CdcLeaseState): Promise<void> | void;
+}
+
+/**
+ * Options for @OnInsert/@OnUpdate/@OnDelete/@OnChange listeners
+ */
+export interface CdcListenerOptions {
+  /**
+   * Connection of the model (default connection when omitted)
+   */
+  connectionName?: string;
+
+  /**
+   * Only receive updates touching one of these paths, including nested paths
+   */
+  fields?: string[];
+}
+
+/**
+ * Metadata stored by the change listener decorators
+ */
+export interface CdcListenerMetadata extends CdcListenerOptions {
+  modelName: string;
+  operations: ChangeOperationType[];
+}
+
+/**
+ * Options for `CdcListenerModule.forRoot`
+ */
+export interface CdcListenerModuleOptions {
+  /**
+   * Options applied to every shared change stream. Checkpoint keys, lease names and
+   * dead-letter sources are suffixed with the connection and model name.
+   */
+  cdcOptions?: Omit<CdcServiceOptions, 'pipeline'>;
+
+  /**
+   * Start the change streams on application bootstrap (default: true)
+   */
+  autoStart?: boolean;
 }
 
 /**
@@ -140,4 +575,39 @@ export interface CdcServiceInterface<T = any> {
    * Get current resume token
    */
   getResumeToken(): any;
+
+  /**
+   * Persist the resume token of the last processed event, if checkpointing is enabled
+   */
+  flushCheckpoint(): Promise<void>;
+
+  /**
+   * Get the leader election state of this instance
+   */
+  getLeaseState(): CdcLeaseState;
+
+  /**
+   * Get the runtime status of this service
+   */
+  getStatus(): CdcServiceStatus;
+
+  /**
+   * Enable `changeStreamPreAndPostImages` on the watched collection
+   */
+  enablePreAndPostImages(): Promise<void>;
+
+  /**
+   * List events dead-lettered by this service
+   */
+  listDeadLetters(filter?: Omit<CdcDeadLetterFilter, 'source'>): Promise<CdcDeadLetterEntry<T>[]>;
+
+  /**
+   * Run a dead-lettered event through its handler again, removing it on success
+   */
+  replayDeadLetter(id: string): Promise<boolean>;
+
+  /**
+   * Remove dead-lettered events of this service
+   */
+  purgeDeadLetters(filter?: Omit<CdcDeadLetterFilter, 'source'>): Promise<number>;
 }
@@ -0,0 +1,111 @@
+/**
+ * Explain verbosity. `executionStats` runs the winning plan and reports its statistics.
+ */
+export type ExplainVerbosity = 'queryPlanner' | 'executionStats' | 'allPlansExecution';
+
+/**
+ * Stage of a query plan or of an aggregation pipeline
+ */
+export interface ExplainStage {
+  /**
+   * Plan stage (e.g. 'IXSCAN', 'COLLSCAN') or pipeline stage (e.g. '$group')
+   */
+  stage: string;
+  indexName?: string;
+  keyPattern?: Record<string, any>;
+  returned?: number;
+  docsExamined?: number;
+  keysExamined?: number;
+  executionTimeMs?: number;
+}
+
+/**
+ * Index that would avoid a collection scan or an in-memory sort
+ */
+export interface IndexSuggestion {
+  collection?: string;
+  key: Record<string, 1 | -1>;
+  reason: string;
+}
+
+/**
+ * Normalized explain output of a query or an aggregation
+ */
+export interface ExplainReport {
+  namespace?: string;
+
+  /**
+   * Stages of the winning plan from the root, e.g. ['FETCH', 'IXSCAN']
+   */
+  winningPlan: string[];
+
+  /**
+   * Plan and pipeline stages with their statistics, when available
+   */
+  stages: ExplainStage[];
+  indexesUsed: string[];
+  usedIndex: boolean;
+  collectionScan: boolean;
+
+  /**
+   * Whether documents were sorted in memory instead of read in index order
+   */
+  inMemorySort: boolean;
+  docsExamined?: number;
+  keysExamined?: number;
+  returned?: number;
+  executionTimeMs?: number;
+  suggestedIndexes: IndexSuggestion[];
+
+  /**
+   * Explain output as returned by the server
+   */
+  raw: Record<string, any>;
+}
+
+/**
+ * Query slower than the configured threshold
+ */
+export interface SlowQueryReport {
+  connectionName: string;
+  databaseName: string;
+  collection?: string;
+  commandName: string;
+  durationMs: number;
+
+  /**
+   * The command as sent, without session and cluster fields
+   */
+  command: Record<string, any>;
+
+  /**
+   * Explain report of the command, unless explain is disabled or failed
+   */
+  explain?: ExplainReport;
+}
+
+/**
+ * Slow query detection of a connection. Meant for development: every query is timed
+ * through command monitoring and slow ones are explained again.
+ */
+export interface SlowQueryOptions {
+  /**
+   * Enable detection (default: true unless NODE_ENV is 'production')
+   */
+  enabled?: boolean;
+
+  /**
+   * Duration from which a query is slow (default: 100)
+   */
+  thresholdMs?: number;
+
+  /**
+   * Explain slow queries to report their plan and suggest indexes (default: true)
+   */
+  explain?: boolean;
+
+  /**
+   * Called with the report of every slow query, besides logging it
+   */
+  onSlowQuery?: (report: SlowQueryReport) => void;
+}
@@ -0,0 +1,70 @@
+import { CdcServiceStatus } from './cdc.interface';
+
+/**
+ * Role of the server the connection talks to
+ */
+export type MongoServerRole =
+  | 'primary'
+  | 'secondary'
+  | 'arbiter'
+  | 'standalone'
+  | 'mongos'
+  | 'unknown';
+
+/**
+ * Connection pool statistics summed over the servers of the topology
+ */
+export interface MongoPoolStats {
+  totalConnections: number;
+  availableConnections: number;
+  pendingConnections: number;
+  checkedOutConnections: number;
+  waitQueueSize: number;
+  maxPoolSize?: number;
+}
+
+/**
+ * Health details of a connection, compatible with `@nestjs/terminus` indicator results
+ */
+export interface MongoHealthDetails {
+  status: 'up' | 'down';
+  connectionName: string;
+  readyState: string;
+  pingMs?: number;
+  role?: MongoServerRole;
+  setName?: string;
+  pool?: MongoPoolStats;
+  cdc: CdcServiceStatus[];
+  message?: string;
+}
+
+export type MongoHealthIndicatorResult = Record<string, MongoHealthDetails>;
+
+export interface MongoHealthCheckOptions {
+  /**
+   * Time allowed for the ping before the connection is reported down (default: 1000)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Report the connection down when a started CDC service is not watching (default: false)
+   */
+  requireCdcWatching?: boolean;
+}
+
+export type MongoConnectionEventType =
+  | 'connected'
+  | 'disconnected'
+  | 'reconnected'
+  | 'close'
+  | 'error';
+
+/**
+ * Mongoose connection lifecycle event
+ */
+export interface MongoConnectionEvent {
+  type: MongoConnectionEventType;
+  connectionName: string;
+  timestamp: Date;
+  error?: Error;
+}
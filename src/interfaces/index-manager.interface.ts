@@ -0,0 +1,109 @@
+/**
+ * An index as declared in a schema or found on a collection
+ */
+export interface IndexDescription {
+  /**
+   * Index name, the MongoDB default name when not declared
+   */
+  name: string;
+
+  /**
+   * Indexed fields and their type (1, -1, 'text', '2dsphere', ...)
+   */
+  key: Record<string, any>;
+
+  /**
+   * Options that define the index: unique, sparse, partialFilterExpression, expireAfterSeconds, ...
+   */
+  options: Record<string, any>;
+}
+
+/**
+ * Kind of difference between the declared and the live indexes:
+ * - `missing`: declared but not built
+ * - `extra`: built but not declared
+ * - `changed`: declared and built with a different key or options
+ */
+export type IndexDiffType = 'missing' | 'extra' | 'changed';
+
+/**
+ * One difference between the declared and the live indexes of a model
+ */
+export interface IndexDiff {
+  modelName: string;
+  collectionName: string;
+  type: IndexDiffType;
+  name: string;
+  declared?: IndexDescription;
+  live?: IndexDescription;
+
+  /**
+   * Key and option paths that differ, for `changed` indexes
+   */
+  differences?: string[];
+}
+
+/**
+ * Result of comparing the declared indexes of the models with the live ones
+ */
+export interface IndexDriftReport {
+  /**
+   * Names of the checked models
+   */
+  models: string[];
+
+  diffs: IndexDiff[];
+
+  hasDrift: boolean;
+}
+
+/**
+ * Options of `IndexManager.sync`
+ */
+export interface IndexSyncOptions {
+  /**
+   * Only sync these models (default: every model of the connection)
+   */
+  models?: string[];
+
+  /**
+   * Drop indexes that are not declared (default: false)
+   */
+  dropExtra?: boolean;
+
+  /**
+   * Only report the changes that would be applied
+   */
+  dryRun?: boolean;
+
+  /**
+   * Rebuild changed unique indexes (default: false). Rebuilding drops the old index before
+   * building the new one, so duplicates can be written until the build finishes.
+   */
+  rebuildUnique?: boolean;
+}
+
+/**
+ * Index management configuration of a connection
+ */
+export interface IndexManagerOptions {
+  /**
+   * Compare the indexes on application bootstrap and log the drift (default: false)
+   */
+  checkOnBootstrap?: boolean;
+
+  /**
+   * Fail the application bootstrap with `IndexDriftError` on drift, e.g. in CI (default: false)
+   */
+  failOnDrift?: boolean;
+
+  /**
+   * Build missing and changed indexes on application bootstrap (default: false)
+   */
+  syncOnBootstrap?: boolean | IndexSyncOptions;
+
+  /**
+   * Interval of the index build progress logs (default: 5000)
+   */
+  progressIntervalMs?: number;
+}
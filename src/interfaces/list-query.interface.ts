@@ -0,0 +1,61 @@
+import type { FilterQuery, Schema } from 'mongoose';
+
+/**
+ * Filter operators of list query strings, e.g. `age[gte]=18` or `roles[in]=admin,user`.
+ * A bare `field=value` is `eq`.
+ */
+export type ListQueryOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin' | 'exists';
+
+/**
+ * Per-model whitelist and limits of list queries
+ */
+export interface ListQueryOptions {
+  /**
+   * Filterable fields with their allowed operators (`true`: every operator).
+   * Fields that are not listed cannot be filtered on.
+   */
+  filterable?: Record<string, ListQueryOperator[] | true>;
+
+  /**
+   * Sortable fields. Without it, only `defaultSort` applies.
+   */
+  sortable?: string[];
+
+  /**
+   * Fields that can be selected with `fields`. Without it, every field can be selected.
+   */
+  selectable?: string[];
+
+  /**
+   * Schema used to coerce values to numbers, dates, booleans and ObjectIds
+   */
+  schema?: Schema;
+
+  /**
+   * Sort used when the query has none
+   */
+  defaultSort?: Record<string, 1 | -1>;
+
+  /**
+   * Page size used when the query has none (default: 10)
+   */
+  defaultLimit?: number;
+
+  /**
+   * Largest accepted page size (default: 100)
+   */
+  maxLimit?: number;
+}
+
+/**
+ * Validated list query
+ */
+export interface ParsedListQuery<T = any> {
+  filter: FilterQuery<T>;
+  sort?: Record<string, 1 | -1>;
+  projection?: Record<string, number>;
+  pagination: {
+    page: number;
+    limit: number;
+  };
+}
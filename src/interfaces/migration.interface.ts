@@ -0,0 +1,202 @@
+import type { ClientSession, Connection } from 'mongoose';
+import { CdcLeaseStore } from './cdc.interface';
+
+/**
+ * Context passed to the `up` and `down` scripts of a migration
+ */
+export interface MigrationContext {
+  /**
+   * Connection the migration runs on
+   */
+  connection: Connection;
+
+  /**
+   * Session of the transaction the script runs in, if any.
+   * `BaseRepository` calls join it automatically.
+   */
+  session?: ClientSession;
+}
+
+/**
+ * A migration script. Decorate the class with `@Migration()` to give it a version.
+ */
+export interface MigrationInterface {
+  /**
+   * Apply the migration
+   */
+  up(context: MigrationContext): Promise<void>;
+
+  /**
+   * Revert the migration. Migrations without `down` cannot be rolled back.
+   */
+  down?(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * Options of the `@Migration()` decorator
+ */
+export interface MigrationOptions {
+  /**
+   * Unique version. Migrations run in version order, compared numerically
+   * when versions contain digits (e.g. `20240101120000` or `001`).
+   */
+  version: string;
+
+  /**
+   * Human readable description
+   */
+  description?: string;
+
+  /**
+   * Run the scripts inside a transaction when the server supports them (default: true)
+   */
+  transactional?: boolean;
+
+  /**
+   * Connection the migration belongs to (default: the default connection)
+   */
+  connectionName?: string;
+
+  /**
+   * Value recorded when the migration is applied and compared on later runs.
+   * Defaults to a SHA-256 of the version and the source of the `up` and `down` scripts;
+   * set it to keep the checksum stable when the compiled source changes with the build.
+   */
+  checksum?: string;
+}
+
+/**
+ * Migration with its metadata and checksum
+ */
+export interface MigrationDefinition extends Required<Omit<MigrationOptions, 'connectionName'>> {
+  /**
+   * Migration instance
+   */
+  migration: MigrationInterface;
+}
+
+/**
+ * Record of an applied migration in the migrations collection
+ */
+export interface AppliedMigration {
+  version: string;
+  description: string;
+  checksum: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * State of a migration:
+ * - `pending`: not applied yet
+ * - `applied`: applied, unchanged since
+ * - `drifted`: applied, but its checksum changed since
+ * - `missing`: recorded as applied, but not found in the registered migrations
+ */
+export type MigrationState = 'pending' | 'applied' | 'drifted' | 'missing';
+
+/**
+ * Status of one migration
+ */
+export interface MigrationStatus {
+  version: string;
+  description: string;
+  state: MigrationState;
+  appliedAt?: Date;
+  checksum?: string;
+  appliedChecksum?: string;
+}
+
+/**
+ * Options of `MigrationRunner.up`
+ */
+export interface MigrationUpOptions {
+  /**
+   * Apply pending migrations up to and including this version (default: all)
+   */
+  to?: string;
+
+  /**
+   * Only report the migrations that would run
+   */
+  dryRun?: boolean;
+
+  /**
+   * Run even if applied migrations have drifted (default: false)
+   */
+  allowDrift?: boolean;
+}
+
+/**
+ * Options of `MigrationRunner.down`
+ */
+export interface MigrationDownOptions {
+  /**
+   * Roll back every migration applied after this version.
+   * Without it only the last applied migration is rolled back.
+   */
+  to?: string;
+
+  /**
+   * Only report the migrations that would be rolled back
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of one migration script run
+ */
+export interface MigrationResult {
+  version: string;
+  description: string;
+  direction: 'up' | 'down';
+  dryRun: boolean;
+  transactional: boolean;
+  durationMs: number;
+}
+
+/**
+ * Migration runner options
+ */
+export interface MigrationRunnerOptions {
+  /**
+   * Collection recording the applied migrations (default: 'migrations')
+   */
+  collectionName?: string;
+
+  /**
+   * Store for the lock shared by all instances
+   * (default: `MongoCdcLeaseStore` on the 'migration_locks' collection)
+   */
+  lockStore?: CdcLeaseStore;
+
+  /**
+   * Name of the lock (default: the collection name)
+   */
+  lockName?: string;
+
+  /**
+   * Duration of the lock lease, renewed while migrations run (default: 60000)
+   */
+  lockDurationMs?: number;
+}
+
+/**
+ * `MigrationModule` options
+ */
+export interface MigrationModuleOptions extends MigrationRunnerOptions {
+  /**
+   * Connection to migrate (default: the default connection)
+   */
+  connectionName?: string;
+
+  /**
+   * Directories to load migration files from, in addition to the `@Migration()` providers
+   */
+  directories?: string[];
+
+  /**
+   * Apply pending migrations on application bootstrap (default: false)
+   */
+  runOnBootstrap?: boolean;
+}
@@ -1,15 +1,30 @@
 import { ModuleMetadata, Type } from '@nestjs/common';
+import { MongooseModuleOptions as NestMongooseModuleOptions } from '@nestjs/mongoose';
+import { TenancyOptions } from './tenancy.interface';
+import { ShutdownOptions } from './shutdown.interface';
+import { IndexManagerOptions } from './index-manager.interface';
+import { SlowQueryOptions } from './explain.interface';
 
-export interface MongooseModuleOptions {
+/**
+ * Connection options. Every Mongoose connection option (pool size, TLS, readPreference,
+ * authSource, ...) is passed through to the connection.
+ */
+export interface MongooseModuleOptions extends Omit<NestMongooseModuleOptions, 'uri'> {
   uri: string;
-  connectionName?: string;
-  retryAttempts?: number;
-  retryDelay?: number;
-  connectionFactory?: (connection: any) => any;
+  tenancy?: TenancyOptions;
+  shutdown?: ShutdownOptions;
+  indexes?: IndexManagerOptions;
+  slowQueries?: SlowQueryOptions;
 }
 
 export interface MongooseModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
   connectionName?: string;
+
+  /**
+   * Tenancy used when the resolved options do not configure one
+   */
+  tenancy?: TenancyOptions;
+
   useFactory?: (...args: any[]) => Promise<MongooseModuleOptions> | MongooseModuleOptions;
   inject?: any[];
   useClass?: Type<MongooseModuleOptionsFactory>;
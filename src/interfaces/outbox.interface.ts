@@ -0,0 +1,99 @@
+import { CdcServiceOptions } from './cdc.interface';
+
+/**
+ * Delivery state of an outbox record
+ * - `pending`: waiting for (re)delivery
+ * - `publishing`: claimed by a relay until `claimedUntil`
+ * - `published`: delivered to the publisher
+ * - `dead_letter`: gave up after the maximum number of attempts
+ */
+export type OutboxStatus = 'pending' | 'publishing' | 'published' | 'dead_letter';
+
+/**
+ * Domain event to record in the outbox
+ */
+export interface OutboxMessage {
+  eventType: string;
+  payload: any;
+  aggregateType?: string;
+  aggregateId?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Outbox record handed to the publisher
+ */
+export interface OutboxEnvelope extends OutboxMessage {
+  /**
+   * Id of the outbox record, stable across redeliveries (use it for deduplication)
+   */
+  id: string;
+
+  /**
+   * Number of previous delivery attempts
+   */
+  attempts: number;
+
+  createdAt?: Date;
+}
+
+/**
+ * Delivers outbox records to a message broker or any other destination.
+ * Throwing marks the delivery as failed and schedules a retry.
+ */
+export interface OutboxPublisher {
+  publish(envelope: OutboxEnvelope): Promise<void>;
+}
+
+/**
+ * Retry policy for failed deliveries
+ */
+export interface OutboxRetryOptions {
+  /**
+   * Attempts before a record is moved to the dead-letter state (default: 10)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds (default: 1000)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Factor applied to the delay after each failed attempt (default: 2)
+   */
+  multiplier?: number;
+
+  /**
+   * Upper bound for the retry delay in milliseconds (default: 60000)
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for the outbox relay
+ */
+export interface OutboxRelayOptions extends CdcServiceOptions {
+  /**
+   * Retry policy for failed deliveries
+   */
+  retry?: OutboxRetryOptions;
+
+  /**
+   * How often due retries and records missed while stopped are delivered, in milliseconds
+   * (default: 5000)
+   */
+  sweepIntervalMs?: number;
+
+  /**
+   * Maximum number of records delivered per sweep (default: 100)
+   */
+  sweepBatchSize?: number;
+
+  /**
+   * How long a relay holds the claim on a record it is publishing, in milliseconds
+   * (default: 30000). A record whose claim expired, e.g. because its relay crashed,
+   * is delivered again.
+   */
+  claimTimeoutMs?: number;
+}
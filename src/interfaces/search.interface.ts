@@ -0,0 +1,125 @@
+/**
+ * Search strategies:
+ * - `prefix`: escaped, anchored regex on each field; uses a regular index when case-sensitive
+ * - `text`: `$text` query on a text index, sorted by text score
+ * - `atlas`: Atlas Search `$search` stage on a search index
+ */
+export type SearchStrategy = 'prefix' | 'text' | 'atlas';
+
+interface BaseSearchOptions {
+  /**
+   * Additional filter the results must match
+   */
+  filter?: Record<string, any>;
+
+  /**
+   * Number of results to skip
+   */
+  skip?: number;
+
+  /**
+   * Maximum number of results
+   */
+  limit?: number;
+
+  /**
+   * Add the matching fragments of each result as `searchHighlights`
+   */
+  highlight?: boolean;
+}
+
+/**
+ * Prefix search: matches fields starting with the term
+ */
+export interface PrefixSearchOptions extends BaseSearchOptions {
+  strategy: 'prefix';
+
+  /**
+   * Fields to search
+   */
+  fields: string[];
+
+  /**
+   * Match regardless of case. Case-insensitive regexes cannot use indexes efficiently;
+   * prefer searching a lowercased copy of the field.
+   */
+  caseInsensitive?: boolean;
+}
+
+/**
+ * `$text` search on the collection's text index
+ */
+export interface TextSearchOptions extends BaseSearchOptions {
+  strategy: 'text';
+
+  /**
+   * Language of the stemming and stop words (default: the index language)
+   */
+  language?: string;
+
+  caseSensitive?: boolean;
+
+  diacriticSensitive?: boolean;
+
+  /**
+   * Drop results scoring below this text score
+   */
+  minScore?: number;
+
+  /**
+   * Fields to highlight. The text index decides which fields are searched.
+   */
+  fields?: string[];
+}
+
+/**
+ * Atlas Search query on a search index
+ */
+export interface AtlasSearchOptions extends BaseSearchOptions {
+  strategy: 'atlas';
+
+  /**
+   * Search index name (default: 'default')
+   */
+  index?: string;
+
+  /**
+   * Fields to search
+   */
+  fields: string[];
+
+  /**
+   * Match terms within an edit distance
+   */
+  fuzzy?: {
+    maxEdits?: 1 | 2;
+    prefixLength?: number;
+  };
+}
+
+export type SearchOptions = PrefixSearchOptions | TextSearchOptions | AtlasSearchOptions;
+
+/**
+ * Fragment of a highlighted field, in the shape Atlas Search returns
+ */
+export interface SearchHighlightText {
+  value: string;
+  type: 'hit' | 'text';
+}
+
+/**
+ * Highlighted field of a search result
+ */
+export interface SearchHighlight {
+  path: string;
+  texts: SearchHighlightText[];
+  score?: number;
+}
+
+/**
+ * Search result with its relevance score and optional highlights
+ */
+export type SearchResult<T> = T & {
+  searchScore: number;
+  searchHighlights?: SearchHighlight[];
+};
@@ -0,0 +1,19 @@
+/**
+ * Graceful shutdown configuration of a connection
+ */
+export interface ShutdownOptions {
+  /**
+   * Connections this connection depends on. They are closed after this one.
+   */
+  dependsOn?: string[];
+
+  /**
+   * Time allowed for in-flight CDC handlers to finish (default: 10000)
+   */
+  drainTimeoutMs?: number;
+
+  /**
+   * Time allowed for pending repository operations to finish (default: 10000)
+   */
+  operationsTimeoutMs?: number;
+}
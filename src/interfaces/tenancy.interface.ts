@@ -0,0 +1,44 @@
+/**
+ * How tenant data is isolated
+ * - `discriminator`: all tenants share collections, separated by a tenant field
+ * - `database`: every tenant has its own database on the same cluster
+ */
+export type TenancyStrategy = 'discriminator' | 'database';
+
+/**
+ * Resolves the tenant of the current request or job
+ */
+export interface TenantResolver {
+  resolve(): string | undefined;
+}
+
+/**
+ * Multi-tenancy configuration for a connection
+ */
+export interface TenancyOptions {
+  /**
+   * Isolation strategy
+   */
+  strategy: TenancyStrategy;
+
+  /**
+   * Tenant field for the discriminator strategy (default: 'tenantId')
+   */
+  tenantField?: string;
+
+  /**
+   * Database name for a tenant with the database strategy
+   * (default: `<connection database>_<tenantId>`)
+   */
+  databaseName?: (tenantId: string) => string;
+
+  /**
+   * Tenant resolver (default: the AsyncLocalStorage tenant context)
+   */
+  resolver?: TenantResolver;
+
+  /**
+   * Throw when no tenant can be resolved outside a bypassed scope (default: true)
+   */
+  required?: boolean;
+}
@@ -0,0 +1,27 @@
+import type * as mongodb from 'mongodb';
+
+/**
+ * Options for running a function inside a transaction
+ */
+export interface TransactionRunOptions {
+  /**
+   * Maximum number of retries on TransientTransactionError or
+   * UnknownTransactionCommitResult (default: 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Options passed to `session.startTransaction`
+   */
+  transactionOptions?: mongodb.TransactionOptions;
+}
+
+/**
+ * Options for the @Transactional() decorator
+ */
+export interface TransactionalOptions extends TransactionRunOptions {
+  /**
+   * Connection to run the transaction on (default connection when omitted)
+   */
+  connectionName?: string;
+}
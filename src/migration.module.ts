@@ -0,0 +1,41 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { getConnectionToken } from '@nestjs/mongoose';
+import type { Connection } from 'mongoose';
+import { MigrationModuleOptions } from './interfaces/migration.interface';
+import { MIGRATION_MODULE_OPTIONS, MigrationExplorer } from './services/migration.explorer';
+import { MigrationRunner } from './services/migration-runner.service';
+import { getMigrationRunnerToken } from './utils/migration.utils';
+
+@Module({})
+export class MigrationModule {
+  /**
+   * Register a MigrationRunner for a connection with the migrations decorated with
+   * @Migration among the providers and in the given directories
+   */
+  static forRoot(options: MigrationModuleOptions = {}): DynamicModule {
+    const token = getMigrationRunnerToken(options.connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection) => new MigrationRunner(connection, [], options),
+        inject: [getConnectionToken(options.connectionName)],
+      },
+    ];
+
+    if (!options.connectionName) {
+      providers.push({ provide: MigrationRunner, useExisting: token });
+    }
+
+    return {
+      module: MigrationModule,
+      imports: [DiscoveryModule],
+      providers: [
+        { provide: MIGRATION_MODULE_OPTIONS, useValue: options },
+        MigrationExplorer,
+        ...providers,
+      ],
+      exports: providers,
+    };
+  }
+}
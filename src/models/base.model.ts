@@ -7,6 +7,7 @@ import { Document } from 'mongoose';
     virtuals: true,
     transform: function (_doc: any, ret: any) {
       ret.id = ret._id;
+      ret.version = ret.__v;
       delete ret._id;
       delete ret.__v;
       return ret;
@@ -16,6 +17,7 @@ import { Document } from 'mongoose';
     virtuals: true,
     transform: function (_doc: any, ret: any) {
       ret.id = ret._id;
+      ret.version = ret.__v;
       delete ret._id;
       delete ret.__v;
       return ret;
@@ -29,3 +31,15 @@ export class BaseModel extends Document {
   @Prop()
   updatedAt?: Date;
 }
+
+/**
+ * Base model for collections using soft delete.
+ * Pair with `BaseRepository` created with the `softDelete` option.
+ */
+export class SoftDeleteModel extends BaseModel {
+  @Prop({ type: Date, default: null, index: true })
+  deletedAt?: Date | null;
+
+  @Prop({ type: String, default: null })
+  deletedBy?: string | null;
+}
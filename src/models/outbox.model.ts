@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Schema as MongooseSchema } from 'mongoose';
+import { BaseModel } from './base.model';
+import { OutboxStatus } from '../interfaces/outbox.interface';
+
+/**
+ * Outbox record written in the same transaction as the business change.
+ * Register it with `MongooseModule.forFeature([{ name: OutboxRecord.name, schema: OutboxRecordSchema }])`.
+ */
+@Schema({ collection: 'outbox', timestamps: true })
+export class OutboxRecord extends BaseModel {
+  @Prop({ required: true })
+  eventType: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  payload?: any;
+
+  @Prop()
+  aggregateType?: string;
+
+  @Prop()
+  aggregateId?: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  headers?: Record<string, string>;
+
+  @Prop({ type: String, default: 'pending' })
+  status: OutboxStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: Date.now })
+  nextAttemptAt: Date;
+
+  @Prop()
+  claimedUntil?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  publishedAt?: Date;
+}
+
+export const OutboxRecordSchema = SchemaFactory.createForClass(OutboxRecord);
+OutboxRecordSchema.index({ status: 1, nextAttemptAt: 1 });
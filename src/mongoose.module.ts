@@ -1,57 +1,329 @@
-import { DynamicModule, Module } from '@nestjs/common';
-import { MongooseModule as NestMongooseModule } from '@nestjs/mongoose';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import {
+  MongooseModule as NestMongooseModule,
+  MongooseModuleOptions as NestMongooseModuleOptions,
+  getConnectionToken,
+} from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
 import {
   MongooseModuleOptions,
   MongooseModuleAsyncOptions,
+  MongooseModuleOptionsFactory,
 } from './interfaces/mongoose-options.interface';
+import { TenancyOptions } from './interfaces/tenancy.interface';
+import { TransactionManager } from './services/transaction-manager.service';
+import { TenancyService } from './services/tenancy.service';
+import { MongoHealthIndicator } from './services/mongo-health.indicator';
+import { ShutdownCoordinator } from './services/shutdown-coordinator.service';
+import { IndexManager } from './services/index-manager.service';
+import { SlowQueryDetector } from './services/slow-query.detector';
+import { getTransactionManagerToken } from './utils/transaction.utils';
+import { getTenancyServiceToken } from './utils/tenant.utils';
+import { getMongooseOptionsToken, validateMongooseOptions } from './utils/mongoose-options.utils';
+import { getMongoHealthIndicatorToken } from './utils/health.utils';
+import { getShutdownCoordinatorToken } from './utils/shutdown.utils';
+import { getIndexManagerToken } from './utils/index-manager.utils';
+import { getSlowQueryDetectorToken, isSlowQueryDetectionEnabled } from './utils/explain.utils';
+
+/**
+ * Resolves the options of an asynchronously configured connection,
+ * shared by the connection provider and every consumer of the options token
+ */
+@Module({})
+class MongooseOptionsModule {}
 
 @Module({})
 export class MongooseModule {
   /**
-   * Register MongoDB connection with the given options
+   * Register MongoDB connection with the given options.
+   * The options are passed to Mongoose as given; only `forRootAsync` validates them.
    */
   static forRoot(options: MongooseModuleOptions): DynamicModule {
+    const providers = [
+      { provide: getMongooseOptionsToken(options.connectionName), useValue: options },
+      ...this.createTransactionProviders(options.connectionName),
+      ...this.createHealthProviders(options.connectionName),
+      ...this.createShutdownProviders(options.connectionName),
+      ...this.createIndexProviders(options.connectionName),
+      ...this.createSlowQueryProviders(options.connectionName),
+      ...this.createTenancyProviders(options.connectionName, options.tenancy),
+    ];
     return {
       module: MongooseModule,
+      global: true,
       imports: [
         NestMongooseModule.forRoot(options.uri, {
+          ...this.toConnectionOptions(options),
           connectionName: options.connectionName,
-          retryAttempts: options.retryAttempts || 3,
-          retryDelay: options.retryDelay || 1000,
-          connectionFactory: options.connectionFactory,
         }),
       ],
-      exports: [NestMongooseModule],
+      providers,
+      exports: [NestMongooseModule, ...providers],
     };
   }
 
   /**
-   * Register MongoDB connection asynchronously
+   * Register MongoDB connection asynchronously.
+   * Options come from `useFactory`, or from the `createMongooseOptions()` method of a
+   * `useClass` or `useExisting` provider, and are validated before connecting.
    */
   static forRootAsync(options: MongooseModuleAsyncOptions): DynamicModule {
+    const optionsToken = getMongooseOptionsToken(options.connectionName);
+    const optionsModule: DynamicModule = {
+      module: MongooseOptionsModule,
+      imports: options.imports,
+      providers: this.createAsyncOptionsProviders(options),
+      exports: [optionsToken],
+    };
+    const providers = [
+      ...this.createTransactionProviders(options.connectionName),
+      ...this.createHealthProviders(options.connectionName),
+      ...this.createShutdownProviders(options.connectionName),
+      ...this.createIndexProviders(options.connectionName),
+      ...this.createSlowQueryProviders(options.connectionName),
+      ...this.createTenancyProviders(options.connectionName, options.tenancy, true),
+    ];
     return {
       module: MongooseModule,
+      global: true,
       imports: [
+        optionsModule,
         NestMongooseModule.forRootAsync({
           connectionName: options.connectionName,
-          imports: options.imports,
-          useFactory: async (...args: any[]) => {
-            if (options.useFactory) {
-              const config = await options.useFactory(...args);
-              return {
-                uri: config.uri,
-                retryAttempts: config.retryAttempts || 3,
-                retryDelay: config.retryDelay || 1000,
-                connectionFactory: config.connectionFactory,
-              };
-            }
-            return {};
-          },
-          inject: options.inject || [],
+          imports: [optionsModule],
+          useFactory: (config: MongooseModuleOptions) => ({
+            uri: config.uri,
+            ...this.toConnectionOptions(config),
+          }),
+          inject: [optionsToken],
         }),
       ],
-      exports: [NestMongooseModule],
+      providers,
+      exports: [NestMongooseModule, optionsModule, ...providers],
+    };
+  }
+
+  /**
+   * Create the providers resolving and validating the options of `forRootAsync`
+   */
+  private static createAsyncOptionsProviders(options: MongooseModuleAsyncOptions): Provider[] {
+    const token = getMongooseOptionsToken(options.connectionName);
+    const validate = (config: unknown) => validateMongooseOptions(config, options.connectionName);
+
+    if (options.useFactory) {
+      const useFactory = options.useFactory;
+      return [
+        {
+          provide: token,
+          useFactory: async (...args: any[]) => validate(await useFactory(...args)),
+          inject: options.inject || [],
+        },
+      ];
+    }
+
+    const factoryClass = options.useClass || options.useExisting;
+    if (!factoryClass) {
+      throw new Error('MongooseModule.forRootAsync requires useFactory, useClass or useExisting');
+    }
+
+    return [
+      ...(options.useClass ? [{ provide: options.useClass, useClass: options.useClass }] : []),
+      {
+        provide: token,
+        useFactory: async (factory: MongooseModuleOptionsFactory) =>
+          validate(await factory.createMongooseOptions()),
+        inject: [factoryClass],
+      },
+    ];
+  }
+
+  /**
+   * Register several connections at once, e.g. a primary and an analytics connection.
+   * Each entry is registered like `forRoot`; at most one entry may omit `connectionName`.
+   */
+  static forConnections(connections: MongooseModuleOptions[]): DynamicModule {
+    const names = new Set<string>();
+    connections.forEach(({ connectionName }) => {
+      const name = connectionName || 'default';
+      if (names.has(name)) {
+        throw new Error(`Connection "${name}" is registered more than once`);
+      }
+      names.add(name);
+    });
+
+    const modules = connections.map((options) => this.forRoot(options));
+    return {
+      module: MongooseModule,
+      global: true,
+      imports: modules,
+      exports: modules,
+    };
+  }
+
+  /**
+   * Pass every Mongoose connection option through, applying the retry defaults.
+   * Slow query detection turns on driver command monitoring.
+   */
+  private static toConnectionOptions(
+    options: MongooseModuleOptions,
+  ): Omit<NestMongooseModuleOptions, 'uri' | 'connectionName'> {
+    const connectionOptions: Partial<MongooseModuleOptions> = {
+      ...options,
+      retryAttempts: options.retryAttempts || 3,
+      retryDelay: options.retryDelay || 1000,
     };
+    delete connectionOptions.uri;
+    delete connectionOptions.connectionName;
+    delete connectionOptions.tenancy;
+    delete connectionOptions.shutdown;
+    delete connectionOptions.indexes;
+    delete connectionOptions.slowQueries;
+    if (isSlowQueryDetectionEnabled(options.slowQueries)) {
+      connectionOptions.monitorCommands = true;
+    }
+    return connectionOptions;
+  }
+
+  /**
+   * Create the TransactionManager providers for a connection.
+   * The default connection's manager can also be injected by class.
+   */
+  private static createTransactionProviders(connectionName?: string): Provider[] {
+    const token = getTransactionManagerToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection) => new TransactionManager(connection, connectionName),
+        inject: [getConnectionToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: TransactionManager, useExisting: token });
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create the MongoHealthIndicator providers for a connection.
+   * The default connection's indicator can also be injected by class.
+   */
+  private static createHealthProviders(connectionName?: string): Provider[] {
+    const token = getMongoHealthIndicatorToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection) =>
+          new MongoHealthIndicator(connection, connectionName),
+        inject: [getConnectionToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: MongoHealthIndicator, useExisting: token });
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create the ShutdownCoordinator providers for a connection, configured from the
+   * resolved options. The default connection's coordinator can also be injected by class.
+   */
+  private static createShutdownProviders(connectionName?: string): Provider[] {
+    const token = getShutdownCoordinatorToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection, options: MongooseModuleOptions) =>
+          new ShutdownCoordinator(connection, connectionName, options.shutdown),
+        inject: [getConnectionToken(connectionName), getMongooseOptionsToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: ShutdownCoordinator, useExisting: token });
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create the IndexManager providers for a connection, configured from the resolved
+   * options. The default connection's manager can also be injected by class.
+   */
+  private static createIndexProviders(connectionName?: string): Provider[] {
+    const token = getIndexManagerToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection, options: MongooseModuleOptions) =>
+          new IndexManager(connection, connectionName, options.indexes),
+        inject: [getConnectionToken(connectionName), getMongooseOptionsToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: IndexManager, useExisting: token });
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create the SlowQueryDetector providers for a connection, configured from the resolved
+   * options. The default connection's detector can also be injected by class.
+   */
+  private static createSlowQueryProviders(connectionName?: string): Provider[] {
+    const token = getSlowQueryDetectorToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection, options: MongooseModuleOptions) =>
+          new SlowQueryDetector(connection, connectionName, options.slowQueries),
+        inject: [getConnectionToken(connectionName), getMongooseOptionsToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: SlowQueryDetector, useExisting: token });
+    }
+
+    return providers;
+  }
+
+  /**
+   * Create the TenancyService providers for a connection with tenancy enabled.
+   * With `fromResolvedOptions` the `tenancy` of the resolved options takes precedence, and the
+   * service resolves to null when neither the resolved nor the given options enable tenancy.
+   */
+  private static createTenancyProviders(
+    connectionName?: string,
+    tenancy?: TenancyOptions,
+    fromResolvedOptions = false,
+  ): Provider[] {
+    if (!tenancy && !fromResolvedOptions) {
+      return [];
+    }
+
+    const token = getTenancyServiceToken(connectionName);
+    const providers: Provider[] = [
+      {
+        provide: token,
+        useFactory: (connection: Connection, options: MongooseModuleOptions) => {
+          const resolved = fromResolvedOptions ? options.tenancy || tenancy : tenancy;
+          return resolved ? new TenancyService(connection, resolved) : null;
+        },
+        inject: [getConnectionToken(connectionName), getMongooseOptionsToken(connectionName)],
+      },
+    ];
+
+    if (!connectionName) {
+      providers.push({ provide: TenancyService, useExisting: token });
+    }
+
+    return providers;
   }
 
   /**
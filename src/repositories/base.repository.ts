@@ -1,28 +1,653 @@
-import { Model, FilterQuery, UpdateQuery, QueryOptions, PipelineStage } from 'mongoose';
+import {
+  AnyBulkWriteOperation,
+  ClientSession,
+  Model,
+  FilterQuery,
+  UpdateQuery,
+  QueryOptions,
+  PipelineStage,
+} from 'mongoose';
+import type * as mongodb from 'mongodb';
+import { isDeepStrictEqual } from 'util';
 import {
   BaseRepositoryInterface,
+  BaseRepositoryOptions,
+  CursorPaginationOptions,
+  CursorPaginationResult,
   PaginationOptions,
   PaginationResult,
+  RepositoryUpdateOptions,
+  SoftDeleteOptions,
 } from '../interfaces/base.interface';
+import { BulkItemResult, BulkWriteOptions, BulkWriteReport } from '../interfaces/bulk.interface';
+import { OptimisticLockError } from '../errors/optimistic-lock.error';
+import { AuditOperation } from '../interfaces/audit.interface';
+import { AggregatePipeline } from '../interfaces/aggregate.interface';
+import { SearchOptions, SearchResult } from '../interfaces/search.interface';
+import { ExplainReport, ExplainVerbosity } from '../interfaces/explain.interface';
+import { TenancyService } from '../services/tenancy.service';
+import { mergeFilterQueries } from '../utils/query.utils';
+import {
+  buildCursorQuery,
+  CursorPayload,
+  decodeCursor,
+  encodeCursor,
+  invertSort,
+  normalizeCursorSort,
+} from '../utils/cursor.utils';
+import {
+  chunkArray,
+  createBulkWriteReport,
+  extractValidationErrors,
+  pickFields,
+} from '../utils/bulk.utils';
+import { buildSearchHighlights, buildSearchPipeline } from '../utils/search.utils';
+import { normalizeExplain } from '../utils/explain.utils';
+import { getTransactionSession } from '../utils/transaction.utils';
+import { trackOperation } from '../utils/shutdown.utils';
+
+/**
+ * Pipeline stages that must stay at the start of a pipeline
+ */
+const LEADING_PIPELINE_STAGES = ['$geoNear', '$search', '$searchMeta', '$vectorSearch'];
+
+/**
+ * Bulk operation prepared for execution, or the reason it was rejected before sending
+ */
+interface PreparedBulkOperation<T> {
+  index: number;
+  operation?: AnyBulkWriteOperation<T>;
+  error?: string;
+  validationErrors?: Record<string, string>;
+}
 
 export class BaseRepository<T> implements BaseRepositoryInterface<T> {
-  constructor(protected readonly model: Model<T>) {}
+  protected readonly softDelete?: Required<SoftDeleteOptions>;
+  protected includeDeleted = false;
+  protected bypassTenant = false;
+  protected readOverride?: { model?: Model<T>; preference?: mongodb.ReadPreferenceMode };
+
+  constructor(
+    protected readonly baseModel: Model<T>,
+    protected readonly repositoryOptions: BaseRepositoryOptions = {},
+  ) {
+    if (repositoryOptions.softDelete) {
+      this.softDelete = {
+        deletedAtField: 'deletedAt',
+        deletedByField: 'deletedBy',
+        ...(typeof repositoryOptions.softDelete === 'object' ? repositoryOptions.softDelete : {}),
+      };
+    }
+  }
+
+  /**
+   * Model the current operation runs against.
+   * With the database tenancy strategy this is the model of the current tenant's database.
+   */
+  protected get model(): Model<T> {
+    return this.resolveTenantModel(this.baseModel);
+  }
+
+  /**
+   * Model the read methods run against: the read model, unless the caller runs in a transaction.
+   * Transactions always read from the main model so they see their own writes.
+   */
+  protected get readModel(): Model<T> {
+    const readModel = this.readOverride?.model ?? this.repositoryOptions.readModel;
+    if (!readModel || this.getSession()) {
+      return this.model;
+    }
+    return this.resolveTenantModel(readModel);
+  }
+
+  /**
+   * Get the tenant's model of the given model when the database tenancy strategy applies
+   */
+  protected resolveTenantModel(model: Model<T>): Model<T> {
+    const tenancy = this.getTenancy(model.db);
+    if (tenancy?.strategy !== 'database') {
+      return model;
+    }
+    const tenantId = tenancy.getTenantId();
+    return tenantId ? tenancy.getTenantModel(model, tenantId) : model;
+  }
+
+  /**
+   * Apply the configured read preference to a read query or aggregation.
+   * Reads in a transaction keep the transaction's read preference.
+   */
+  protected applyReadPreference<Q extends { read(preference: mongodb.ReadPreferenceMode): Q }>(
+    query: Q,
+  ): Q {
+    const preference = this.readOverride?.preference ?? this.repositoryOptions.readPreference;
+    if (!preference || this.getSession()) {
+      return query;
+    }
+    return query.read(preference);
+  }
+
+  /**
+   * Get the session of the transaction scope the caller runs in, if any
+   */
+  protected getSession(): ClientSession | null {
+    return getTransactionSession(this.baseModel.db) ?? null;
+  }
+
+  /**
+   * Create a view of this repository with some scoping flags overridden
+   */
+  protected withScope(overrides: {
+    includeDeleted?: boolean;
+    bypassTenant?: boolean;
+    readOverride?: { model?: Model<T>; preference?: mongodb.ReadPreferenceMode };
+  }): this {
+    return Object.assign(Object.create(this), overrides);
+  }
+
+  /**
+   * Return a view of this repository whose read methods include soft-deleted documents
+   */
+  withDeleted(): this {
+    return this.withScope({ includeDeleted: true });
+  }
+
+  /**
+   * Return a view of this repository that is not scoped to the current tenant
+   */
+  withoutTenant(): this {
+    return this.withScope({ bypassTenant: true });
+  }
+
+  /**
+   * Return a view of this repository whose read methods use the given read preference
+   */
+  withReadPreference(preference: mongodb.ReadPreferenceMode): this {
+    return this.withScope({ readOverride: { ...this.readOverride, preference } });
+  }
+
+  /**
+   * Return a view of this repository whose read methods run against another model,
+   * e.g. the same collection on an analytics connection
+   */
+  withReadModel(model: Model<T>): this {
+    return this.withScope({ readOverride: { ...this.readOverride, model } });
+  }
+
+  /**
+   * Return a view of this repository whose read methods go to the primary,
+   * e.g. to read a document right after writing it
+   */
+  usePrimary(): this {
+    return this.withScope({ readOverride: { model: this.baseModel, preference: 'primary' } });
+  }
+
+  /**
+   * Apply the soft-delete and tenant scopes to a filter.
+   * Filters that already reference the deletion field keep their own condition.
+   */
+  protected scopeFilter(filter: FilterQuery<T> = {}): FilterQuery<T> {
+    let scoped = filter;
+    if (this.softDelete && !this.includeDeleted) {
+      const field = this.softDelete.deletedAtField;
+      if (!Object.prototype.hasOwnProperty.call(filter, field)) {
+        scoped = mergeFilterQueries<T>(filter, { [field]: null } as FilterQuery<T>);
+      }
+    }
+    return this.tenantFilter(scoped);
+  }
+
+  /**
+   * Get the tenancy configuration of the repository's connection, unless bypassed
+   */
+  protected getTenancy(connection = this.baseModel.db): TenancyService | undefined {
+    if (this.repositoryOptions.tenancy === false || this.bypassTenant) {
+      return undefined;
+    }
+    return TenancyService.forConnection(connection);
+  }
+
+  /**
+   * Get the tenancy service and current tenant when the discriminator strategy applies
+   */
+  protected getTenantScope(): { tenancy: TenancyService; tenantId: string } | undefined {
+    const tenancy = this.getTenancy();
+    if (tenancy?.strategy !== 'discriminator') {
+      return undefined;
+    }
+    const tenantId = tenancy.getTenantId();
+    return tenantId ? { tenancy, tenantId } : undefined;
+  }
+
+  /**
+   * Restrict a filter to the current tenant (discriminator strategy)
+   */
+  protected tenantFilter(filter: FilterQuery<T> = {}): FilterQuery<T> {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return filter;
+    }
+    const field = scope.tenancy.tenantField;
+    if (Object.prototype.hasOwnProperty.call(filter, field)) {
+      scope.tenancy.assertTenant(scope.tenantId, (filter as Record<string, unknown>)[field]);
+      return filter;
+    }
+    return mergeFilterQueries<T>(filter, { [field]: scope.tenantId } as FilterQuery<T>);
+  }
+
+  /**
+   * Stamp a new document with the current tenant (discriminator strategy)
+   */
+  protected tenantDocument<D extends Record<string, any>>(data: D): D {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return data;
+    }
+    const field = scope.tenancy.tenantField;
+    scope.tenancy.assertTenant(scope.tenantId, data[field]);
+    return { ...data, [field]: scope.tenantId };
+  }
+
+  /**
+   * Reject updates moving documents out of the current tenant (discriminator strategy),
+   * under any update operator or in update pipelines
+   */
+  protected tenantUpdate<U extends UpdateQuery<T> | PipelineStage[]>(update: U): U {
+    const scope = this.getTenantScope();
+    if (scope) {
+      scope.tenancy.assertTenantUpdate(scope.tenantId, update as Record<string, any>);
+    }
+    return update;
+  }
+
+  /**
+   * Restrict an aggregation pipeline to the current tenant (discriminator strategy).
+   * The $match is placed after stages that must come first in a pipeline,
+   * including a $match on `$text`.
+   */
+  protected tenantPipeline(pipeline: PipelineStage[]): PipelineStage[] {
+    const scope = this.getTenantScope();
+    if (!scope) {
+      return pipeline;
+    }
+    const match = { $match: { [scope.tenancy.tenantField]: scope.tenantId } } as PipelineStage;
+    const firstStage = pipeline.length ? Object.keys(pipeline[0])[0] : undefined;
+    const textMatch =
+      firstStage === '$match' && '$text' in (pipeline[0] as PipelineStage.Match).$match;
+    const position =
+      textMatch || (firstStage && LEADING_PIPELINE_STAGES.includes(firstStage)) ? 1 : 0;
+    return [...pipeline.slice(0, position), match, ...pipeline.slice(position)];
+  }
+
+  /**
+   * Apply the tenant scope to a bulk write operation (discriminator strategy)
+   */
+  protected tenantBulkOperation(operation: AnyBulkWriteOperation<T>): AnyBulkWriteOperation<T> {
+    if (!this.getTenantScope()) {
+      return operation;
+    }
+    const [type] = Object.keys(operation);
+    const body: Record<string, any> = {
+      ...(operation as Record<string, Record<string, any>>)[type],
+    };
+
+    if (body.document) {
+      body.document = this.tenantDocument(body.document);
+    }
+    if (body.replacement) {
+      body.replacement = this.tenantDocument(body.replacement);
+    }
+    if (body.filter) {
+      body.filter = this.tenantFilter(body.filter);
+    }
+    if (body.update) {
+      body.update = this.tenantUpdate(body.update);
+    }
+
+    return { [type]: body } as AnyBulkWriteOperation<T>;
+  }
+
+  /**
+   * Load plain snapshots of the documents matching the filter, when auditing is enabled
+   */
+  protected async findAuditSnapshots(filter: FilterQuery<T>): Promise<Record<string, any>[]> {
+    if (!this.repositoryOptions.audit) {
+      return [];
+    }
+    return this.model.find(filter).lean().session(this.getSession()).exec() as Promise<
+      Record<string, any>[]
+    >;
+  }
+
+  /**
+   * Convert a document to a plain snapshot stored in the audit log
+   */
+  protected toAuditSnapshot(doc: any): Record<string, any> | null {
+    if (!doc) {
+      return null;
+    }
+    return typeof doc.toObject === 'function'
+      ? doc.toObject({ depopulate: true, virtuals: false, transform: false })
+      : doc;
+  }
+
+  /**
+   * Record changed documents in the audit log, when auditing is enabled
+   */
+  protected async recordAudit(
+    operation: AuditOperation,
+    filter: FilterQuery<T> | undefined,
+    changes: { before: any; after: any }[],
+  ): Promise<void> {
+    const audit = this.repositoryOptions.audit;
+    if (!audit || !changes.length) {
+      return;
+    }
+    await audit.record(
+      changes.map((change) => {
+        const before = this.toAuditSnapshot(change.before);
+        const after = this.toAuditSnapshot(change.after);
+        return {
+          collectionName: this.model.collection.collectionName,
+          documentId: String((after ?? before)?._id),
+          operation,
+          filter: filter as Record<string, any> | undefined,
+          before,
+          after,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Pair before and after snapshots by document ID, keeping only documents that changed
+   */
+  protected pairAuditSnapshots(
+    before: Record<string, any>[],
+    after: Record<string, any>[],
+  ): { before: Record<string, any>; after: Record<string, any> }[] {
+    const afterById = new Map(after.map((doc) => [String(doc._id), doc]));
+    return before
+      .map((doc) => ({ before: doc, after: afterById.get(String(doc._id)) }))
+      .filter(
+        (change): change is { before: Record<string, any>; after: Record<string, any> } =>
+          !!change.after && !isDeepStrictEqual(change.before, change.after),
+      );
+  }
+
+  /**
+   * Track a write until it settles, so a graceful shutdown waits for it
+   */
+  protected track<R>(operation: () => Promise<R>): Promise<R> {
+    return trackOperation(this.baseModel.db, operation());
+  }
+
+  protected requireSoftDelete(): Required<SoftDeleteOptions> {
+    if (!this.softDelete) {
+      throw new Error('Soft delete is not enabled for this repository');
+    }
+    return this.softDelete;
+  }
 
   async create(data: Partial<T>): Promise<T> {
-    const createdEntity = new this.model(data);
-    return createdEntity.save() as unknown as T;
+    return this.track(async () => {
+      const createdEntity = new this.model(this.tenantDocument(data));
+      const created = await createdEntity.save({ session: this.getSession() });
+      await this.recordAudit('create', undefined, [{ before: null, after: created }]);
+      return created as unknown as T;
+    });
+  }
+
+  /**
+   * Insert many documents in chunks.
+   * Invalid documents are reported as failed instead of failing the whole batch.
+   */
+  async createMany(data: Partial<T>[], options: BulkWriteOptions = {}): Promise<BulkWriteReport> {
+    const prepared = data.map((item, index) =>
+      this.prepareBulkOperation(
+        { insertOne: { document: item } } as AnyBulkWriteOperation<T>,
+        index,
+      ),
+    );
+    return this.track(() => this.executeBulkWrite(prepared, options));
+  }
+
+  /**
+   * Insert or update many documents in chunks, matching existing documents on `keyFields`
+   */
+  async upsertMany(
+    data: Partial<T>[],
+    keyFields: string[],
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    if (!keyFields.length) {
+      throw new Error('upsertMany requires at least one key field');
+    }
+
+    const prepared = data.map((item, index): PreparedBulkOperation<T> => {
+      const filter = pickFields(item, keyFields);
+      const missing = keyFields.filter((field) => !(field in filter));
+      if (missing.length) {
+        return { index, error: `Missing upsert key field(s): ${missing.join(', ')}` };
+      }
+
+      const { _id, ...fields } = item as Record<string, any>;
+      const update: Record<string, any> = { $set: fields };
+      if (_id !== undefined) {
+        update.$setOnInsert = { _id };
+      }
+
+      return this.prepareBulkOperation(
+        { updateOne: { filter, update, upsert: true } } as AnyBulkWriteOperation<T>,
+        index,
+      );
+    });
+
+    return this.track(() => this.executeBulkWrite(prepared, options));
+  }
+
+  /**
+   * Execute arbitrary bulk operations in chunks with a per-item result report
+   */
+  async bulkWrite(
+    operations: AnyBulkWriteOperation<T>[],
+    options: BulkWriteOptions = {},
+  ): Promise<BulkWriteReport> {
+    const prepared = operations.map((operation, index) =>
+      this.prepareBulkOperation(operation, index),
+    );
+    return this.track(() => this.executeBulkWrite(prepared, options));
+  }
+
+  /**
+   * Validate the documents of a bulk operation before it is sent
+   */
+  protected prepareBulkOperation(
+    operation: AnyBulkWriteOperation<T>,
+    index: number,
+  ): PreparedBulkOperation<T> {
+    const op = this.tenantBulkOperation(operation);
+    let error: any;
+
+    if ('insertOne' in op) {
+      error = new this.model(op.insertOne.document).validateSync();
+    } else if ('replaceOne' in op) {
+      error = new this.model(op.replaceOne.replacement).validateSync();
+    } else if ('updateOne' in op && op.updateOne.upsert) {
+      const { update } = op.updateOne;
+      const fields = Array.isArray(update) ? undefined : update.$set;
+      if (fields) {
+        error = new this.model(fields).validateSync(Object.keys(fields));
+      }
+    }
+
+    if (error) {
+      return { index, error: error.message, validationErrors: extractValidationErrors(error) };
+    }
+    return { index, operation: op };
+  }
+
+  /**
+   * Send prepared operations to MongoDB in chunks and collect the per-item results
+   */
+  protected async executeBulkWrite(
+    prepared: PreparedBulkOperation<T>[],
+    options: BulkWriteOptions,
+  ): Promise<BulkWriteReport> {
+    const ordered = options.ordered ?? false;
+    const report = createBulkWriteReport();
+
+    for (const chunk of chunkArray(prepared, options.chunkSize || 1000)) {
+      if (ordered && report.failedCount > 0) {
+        chunk.forEach(({ index }) => report.items.push({ index, status: 'skipped' }));
+        continue;
+      }
+
+      // In ordered mode nothing after the first rejected operation may run
+      const firstRejected = chunk.findIndex((entry) => !entry.operation);
+      const runnable = ordered && firstRejected !== -1 ? chunk.slice(0, firstRejected) : chunk;
+      const { items, result } = await this.runBulkChunk(
+        runnable.filter((entry) => entry.operation),
+        ordered,
+      );
+      const itemsByIndex = new Map(items.map((item) => [item.index, item]));
+      const chunkFailed = items.some((item) => item.status === 'failed');
+
+      chunk.forEach((entry, i) => {
+        let item = itemsByIndex.get(entry.index);
+        if (!item) {
+          // Not sent: either rejected during preparation or cut off by ordered mode
+          const reported = !entry.operation && !(ordered && (chunkFailed || i > firstRejected));
+          item = reported
+            ? {
+                index: entry.index,
+                status: 'failed',
+                error: entry.error,
+                validationErrors: entry.validationErrors,
+              }
+            : { index: entry.index, status: 'skipped' };
+        }
+
+        report.items.push(item);
+        if (item.status === 'failed') {
+          report.failed.push(item);
+          report.failedCount++;
+        } else if (item.status === 'inserted') {
+          report.insertedIds.push(item.id);
+        } else if (item.status === 'upserted') {
+          report.upsertedIds.push(item.id);
+        }
+      });
+
+      if (result) {
+        report.insertedCount += result.insertedCount || 0;
+        report.upsertedCount += result.upsertedCount || 0;
+        report.matchedCount += result.matchedCount || 0;
+        report.modifiedCount += result.modifiedCount || 0;
+        report.deletedCount += result.deletedCount || 0;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Run one chunk of operations and map the driver result back to the input items
+   */
+  protected async runBulkChunk(
+    entries: PreparedBulkOperation<T>[],
+    ordered: boolean,
+  ): Promise<{ items: BulkItemResult[]; result?: any }> {
+    if (!entries.length) {
+      return { items: [] };
+    }
+
+    let result: any;
+    let writeErrors: any[] = [];
+    try {
+      result = await this.model.bulkWrite(
+        entries.map((entry) => entry.operation!),
+        { ordered, session: this.getSession() ?? undefined },
+      );
+    } catch (error: any) {
+      if (!error.writeErrors) {
+        throw error;
+      }
+      result = error.result;
+      writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+    }
+
+    const writeErrorsByIndex = new Map(writeErrors.map((err) => [err.index, err]));
+    const validationResults: any[] = result?.mongoose?.results || [];
+    const firstErrorIndex = writeErrors.length ? Math.min(...writeErrorsByIndex.keys()) : -1;
+
+    const items = entries.map((entry, i): BulkItemResult => {
+      const writeError = writeErrorsByIndex.get(i);
+      if (writeError) {
+        return { index: entry.index, status: 'failed', error: writeError.errmsg };
+      }
+      if (validationResults[i] instanceof Error) {
+        return {
+          index: entry.index,
+          status: 'failed',
+          error: validationResults[i].message,
+          validationErrors: extractValidationErrors(validationResults[i]),
+        };
+      }
+      if (ordered && firstErrorIndex !== -1 && i > firstErrorIndex) {
+        return { index: entry.index, status: 'skipped' };
+      }
+
+      const op = entry.operation!;
+      if ('insertOne' in op) {
+        return { index: entry.index, status: 'inserted', id: result?.insertedIds?.[i] };
+      }
+      if (result?.upsertedIds?.[i] !== undefined) {
+        return { index: entry.index, status: 'upserted', id: result.upsertedIds[i] };
+      }
+      if ('deleteOne' in op || 'deleteMany' in op) {
+        return { index: entry.index, status: 'deleted' };
+      }
+      return { index: entry.index, status: 'updated' };
+    });
+
+    return { items, result };
   }
 
   async findById(id: string): Promise<T | null> {
-    return this.model.findById(id).exec();
+    return this.applyReadPreference(
+      this.readModel.findOne(this.scopeFilter({ _id: id } as FilterQuery<T>)),
+    )
+      .session(this.getSession())
+      .exec();
   }
 
   async findOne(filter: FilterQuery<T>): Promise<T | null> {
-    return this.model.findOne(filter).exec();
+    return this.applyReadPreference(this.readModel.findOne(this.scopeFilter(filter)))
+      .session(this.getSession())
+      .exec();
   }
 
   async findAll(filter: FilterQuery<T> = {}, options: QueryOptions = {}): Promise<T[]> {
-    return this.model.find(filter, null, options).exec();
+    return this.applyReadPreference(this.readModel.find(this.scopeFilter(filter), null, options))
+      .session(this.getSession())
+      .exec();
+  }
+
+  /**
+   * Find soft-deleted documents only
+   */
+  async findDeleted(filter: FilterQuery<T> = {}, options: QueryOptions = {}): Promise<T[]> {
+    const { deletedAtField } = this.requireSoftDelete();
+    const deletedFilter = { [deletedAtField]: { $ne: null } } as FilterQuery<T>;
+    return this.applyReadPreference(
+      this.readModel.find(
+        this.tenantFilter(mergeFilterQueries<T>(filter, deletedFilter)),
+        null,
+        options,
+      ),
+    )
+      .session(this.getSession())
+      .exec();
   }
 
   async findWithPagination(
@@ -33,13 +658,24 @@ export class BaseRepository<T> implements BaseRepositoryInterface<T> {
     const limit = options.limit || 10;
     const skip = (page - 1) * limit;
 
-    const query = this.model.find(filter).skip(skip).limit(limit);
+    const scopedFilter = this.scopeFilter(filter);
+    const query = this.applyReadPreference(this.readModel.find(scopedFilter))
+      .skip(skip)
+      .limit(limit);
 
     if (options.sort) {
       query.sort(options.sort);
     }
+    if (options.projection) {
+      query.select(options.projection);
+    }
 
-    const [data, total] = await Promise.all([query.exec(), this.model.countDocuments(filter)]);
+    const [data, total] = await Promise.all([
+      query.session(this.getSession()).exec(),
+      this.applyReadPreference(this.readModel.countDocuments(scopedFilter)).session(
+        this.getSession(),
+      ),
+    ]);
 
     return {
       data,
@@ -50,35 +686,421 @@ export class BaseRepository<T> implements BaseRepositoryInterface<T> {
     };
   }
 
-  async update(id: string, data: UpdateQuery<T>): Promise<T | null> {
-    return this.model.findByIdAndUpdate(id, data, { new: true }).exec();
+  /**
+   * Keyset pagination: pages are positioned by the sort key values of the boundary
+   * document instead of an offset, so no count is needed and concurrent writes do not
+   * shift rows between pages. `_id` is always used as the final tiebreaker.
+   */
+  async findWithCursor(
+    filter: FilterQuery<T> = {},
+    options: CursorPaginationOptions = {},
+  ): Promise<CursorPaginationResult<T>> {
+    if (options.after && options.before) {
+      throw new Error('Only one of "after" or "before" can be provided');
+    }
+
+    const limit = options.limit || 10;
+    const sort = normalizeCursorSort(options.sort);
+    const backward = !!options.before;
+    const cursor = options.after || options.before;
+
+    const querySort = backward ? invertSort(sort) : sort;
+    const payload = cursor ? decodeCursor(cursor, sort) : undefined;
+    const scopedFilter = this.scopeFilter(filter);
+    const cursorFilter = payload ? buildCursorQuery<T>(querySort, payload) : {};
+
+    const [results, behindCursor] = await Promise.all([
+      this.applyReadPreference(
+        this.readModel.find(mergeFilterQueries<T>(scopedFilter, cursorFilter)),
+      )
+        .sort(querySort)
+        .limit(limit + 1)
+        .session(this.getSession())
+        .exec(),
+      payload ? this.existsBehindCursor(scopedFilter, querySort, payload) : false,
+    ]);
+
+    const hasMore = results.length > limit;
+    const data = results.slice(0, limit);
+    if (backward) {
+      data.reverse();
+    }
+
+    const first = data[0];
+    const last = data[data.length - 1];
+    const hasNext = backward ? behindCursor : hasMore;
+    const hasPrevious = backward ? hasMore : behindCursor;
+
+    return {
+      data,
+      nextCursor: last && hasNext ? encodeCursor(last, sort) : null,
+      prevCursor: first && hasPrevious ? encodeCursor(first, sort) : null,
+      hasNext,
+      hasPrevious,
+    };
+  }
+
+  /**
+   * Check whether documents sit at or behind the cursor, opposite to the paging direction
+   */
+  protected async existsBehindCursor(
+    filter: FilterQuery<T>,
+    querySort: Record<string, 1 | -1>,
+    payload: CursorPayload,
+  ): Promise<boolean> {
+    const behind = buildCursorQuery<T>(invertSort(querySort), payload, true);
+    const found = await this.applyReadPreference(
+      this.readModel.findOne(mergeFilterQueries<T>(filter, behind)),
+    )
+      .select('_id')
+      .lean()
+      .session(this.getSession())
+      .exec();
+    return !!found;
+  }
+
+  /**
+   * Update a document by ID.
+   * With `expectedVersion` the update only applies when the document is still at that
+   * version, increments the version atomically and throws `OptimisticLockError` otherwise.
+   * Soft-deleted documents are not updated unless scoped with `withDeleted()`.
+   *
+   * With auditing the update returns the document as it was before, so the audited "before"
+   * snapshot is exactly what the update replaced; the returned document is read right after.
+   */
+  async update(
+    id: string,
+    data: UpdateQuery<T>,
+    options: RepositoryUpdateOptions = {},
+  ): Promise<T | null> {
+    return this.track(async () => {
+      if (!this.repositoryOptions.audit) {
+        return this.applyUpdate(id, data, options);
+      }
+
+      const filter = { _id: id } as FilterQuery<T>;
+      const before = await this.applyUpdate(id, data, options, 'before');
+      if (!before) {
+        return null;
+      }
+      const updated = await this.model
+        .findOne(this.tenantFilter(filter))
+        .session(this.getSession())
+        .exec();
+      if (updated) {
+        await this.recordAudit('update', filter, [{ before, after: updated }]);
+      }
+      return updated;
+    });
+  }
+
+  protected async applyUpdate(
+    id: string,
+    data: UpdateQuery<T>,
+    options: RepositoryUpdateOptions,
+    returnDocument: 'before' | 'after' = 'after',
+  ): Promise<T | null> {
+    if (options.expectedVersion === undefined) {
+      return this.model
+        .findOneAndUpdate(
+          this.scopeFilter({ _id: id } as FilterQuery<T>),
+          this.tenantUpdate(data),
+          {
+            new: returnDocument === 'after',
+          },
+        )
+        .session(this.getSession())
+        .exec();
+    }
+
+    const versionKey = this.getVersionKey();
+    const updated = await this.model
+      .findOneAndUpdate(
+        this.scopeFilter({ _id: id, [versionKey]: options.expectedVersion } as FilterQuery<T>),
+        this.buildVersionedUpdate(this.tenantUpdate(data), versionKey),
+        { new: returnDocument === 'after' },
+      )
+      .session(this.getSession())
+      .exec();
+
+    if (updated) {
+      return updated;
+    }
+
+    const current: any = await this.model
+      .findOne(this.scopeFilter({ _id: id } as FilterQuery<T>))
+      .select(versionKey)
+      .lean()
+      .session(this.getSession())
+      .exec();
+    if (current) {
+      throw new OptimisticLockError(id, options.expectedVersion, current[versionKey]);
+    }
+    return null;
+  }
+
+  /**
+   * Get the schema's version key, required for optimistic locking
+   */
+  protected getVersionKey(): string {
+    const versionKey = this.model.schema.get('versionKey');
+    if (!versionKey) {
+      throw new Error('Optimistic locking requires the schema versionKey to be enabled');
+    }
+    return versionKey as string;
+  }
+
+  /**
+   * Move plain fields into $set and increment the version key
+   */
+  protected buildVersionedUpdate(data: UpdateQuery<T>, versionKey: string): UpdateQuery<T> {
+    const update: Record<string, any> = {};
+    const fields: Record<string, any> = {};
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (key.startsWith('$')) {
+        update[key] = { ...value };
+      } else {
+        fields[key] = value;
+      }
+    });
+
+    if (Object.keys(fields).length) {
+      update.$set = { ...update.$set, ...fields };
+    }
+    if (update.$set) {
+      delete update.$set[versionKey];
+    }
+    update.$inc = { ...update.$inc, [versionKey]: 1 };
+
+    return update as UpdateQuery<T>;
   }
 
+  /**
+   * Update documents matching the filter, skipping soft-deleted ones unless scoped with
+   * `withDeleted()`.
+   * With auditing the snapshots are read before and after the write, so outside a transaction
+   * they are best-effort: concurrent writes in between can show up in them. Run the call in
+   * `TransactionManager.run` for exact snapshots.
+   */
   async updateMany(filter: FilterQuery<T>, data: UpdateQuery<T>): Promise<number> {
-    const result = await this.model.updateMany(filter, data).exec();
-    return result.modifiedCount;
+    return this.track(async () => {
+      const before = await this.findAuditSnapshots(this.scopeFilter(filter));
+      const result = await this.model
+        .updateMany(this.scopeFilter(filter), this.tenantUpdate(data))
+        .session(this.getSession())
+        .exec();
+      await this.recordUpdatedSnapshots('update', filter, before);
+      return result.modifiedCount;
+    });
+  }
+
+  /**
+   * Delete a document by ID.
+   * With soft delete enabled the document is marked as deleted instead of removed.
+   */
+  async delete(id: string, deletedBy?: string): Promise<boolean> {
+    return this.track(async () => {
+      if (!this.softDelete) {
+        return this.hardDelete(id);
+      }
+      const filter = this.scopeFilter({ _id: id } as FilterQuery<T>);
+      const before = await this.findAuditSnapshots(filter);
+      const result = await this.model
+        .updateOne(filter, this.buildSoftDeleteUpdate(deletedBy))
+        .session(this.getSession())
+        .exec();
+      if (result.modifiedCount > 0) {
+        await this.recordUpdatedSnapshots('delete', { _id: id } as FilterQuery<T>, before);
+      }
+      return result.modifiedCount > 0;
+    });
+  }
+
+  /**
+   * Delete documents matching the filter.
+   * With soft delete enabled the documents are marked as deleted instead of removed.
+   */
+  async deleteMany(filter: FilterQuery<T>, deletedBy?: string): Promise<number> {
+    return this.track(async () => {
+      if (!this.softDelete) {
+        return this.hardDeleteMany(filter);
+      }
+      const before = await this.findAuditSnapshots(this.scopeFilter(filter));
+      const result = await this.model
+        .updateMany(this.scopeFilter(filter), this.buildSoftDeleteUpdate(deletedBy))
+        .session(this.getSession())
+        .exec();
+      await this.recordUpdatedSnapshots('delete', filter, before);
+      return result.modifiedCount;
+    });
+  }
+
+  /**
+   * Permanently remove a document by ID, bypassing soft delete
+   */
+  async hardDelete(id: string): Promise<boolean> {
+    return this.track(async () => {
+      const filter = { _id: id } as FilterQuery<T>;
+      const result = await this.model
+        .findOneAndDelete(this.tenantFilter(filter))
+        .session(this.getSession())
+        .exec();
+      if (result) {
+        await this.recordAudit('delete', filter, [{ before: result, after: null }]);
+      }
+      return result !== null;
+    });
+  }
+
+  /**
+   * Permanently remove documents matching the filter, bypassing soft delete
+   */
+  async hardDeleteMany(filter: FilterQuery<T>): Promise<number> {
+    return this.track(async () => {
+      const before = await this.findAuditSnapshots(this.tenantFilter(filter));
+      const result = await this.model
+        .deleteMany(this.tenantFilter(filter))
+        .session(this.getSession())
+        .exec();
+      await this.recordAudit(
+        'delete',
+        filter,
+        before.map((doc) => ({ before: doc, after: null })),
+      );
+      return result.deletedCount;
+    });
+  }
+
+  /**
+   * Restore a soft-deleted document
+   */
+  async restore(id: string): Promise<T | null> {
+    return this.track(async () => {
+      const { deletedAtField, deletedByField } = this.requireSoftDelete();
+      return this.model
+        .findOneAndUpdate(
+          this.tenantFilter({ _id: id, [deletedAtField]: { $ne: null } } as FilterQuery<T>),
+          { $set: { [deletedAtField]: null, [deletedByField]: null } } as UpdateQuery<T>,
+          { new: true },
+        )
+        .session(this.getSession())
+        .exec();
+    });
   }
 
-  async delete(id: string): Promise<boolean> {
-    const result = await this.model.findByIdAndDelete(id).exec();
-    return result !== null;
+  /**
+   * Reload documents captured before a multi-document write and audit the ones that changed
+   */
+  protected async recordUpdatedSnapshots(
+    operation: AuditOperation,
+    filter: FilterQuery<T>,
+    before: Record<string, any>[],
+  ): Promise<void> {
+    if (!before.length) {
+      return;
+    }
+    const after = await this.findAuditSnapshots(
+      this.tenantFilter({ _id: { $in: before.map((doc) => doc._id) } } as FilterQuery<T>),
+    );
+    await this.recordAudit(operation, filter, this.pairAuditSnapshots(before, after));
   }
 
-  async deleteMany(filter: FilterQuery<T>): Promise<number> {
-    const result = await this.model.deleteMany(filter).exec();
-    return result.deletedCount;
+  protected buildSoftDeleteUpdate(deletedBy?: string): UpdateQuery<T> {
+    const { deletedAtField, deletedByField } = this.requireSoftDelete();
+    return {
+      $set: { [deletedAtField]: new Date(), [deletedByField]: deletedBy ?? null },
+    } as UpdateQuery<T>;
   }
 
   async count(filter: FilterQuery<T> = {}): Promise<number> {
-    return this.model.countDocuments(filter).exec();
+    return this.applyReadPreference(this.readModel.countDocuments(this.scopeFilter(filter)))
+      .session(this.getSession())
+      .exec();
   }
 
   async exists(filter: FilterQuery<T>): Promise<boolean> {
-    const count = await this.model.countDocuments(filter).limit(1).exec();
+    const count = await this.applyReadPreference(
+      this.readModel.countDocuments(this.scopeFilter(filter)),
+    )
+      .limit(1)
+      .session(this.getSession())
+      .exec();
     return count > 0;
   }
 
-  async aggregate<R = any>(pipeline: PipelineStage[]): Promise<R[]> {
-    return this.model.aggregate<R>(pipeline).exec();
+  /**
+   * Run an aggregation pipeline.
+   * The result type is inferred from pipelines built with `AggregateBuilder`.
+   * Pipelines writing with `$out` or `$merge` always run against the main model.
+   */
+  async aggregate<R = any>(pipeline: AggregatePipeline<R>): Promise<R[]> {
+    const writes = pipeline.some((stage) => '$out' in stage || '$merge' in stage);
+    const aggregation = (writes ? this.model : this.readModel).aggregate<R>(
+      this.tenantPipeline(pipeline),
+    );
+    return (writes ? aggregation : this.applyReadPreference(aggregation))
+      .session(this.getSession())
+      .exec();
+  }
+
+  /**
+   * Explain the query `findAll` runs for a filter and options
+   */
+  async explain(
+    filter: FilterQuery<T> = {},
+    options: QueryOptions = {},
+    verbosity: ExplainVerbosity = 'executionStats',
+  ): Promise<ExplainReport> {
+    const scopedFilter = this.scopeFilter(filter);
+    const raw = await this.applyReadPreference(this.readModel.find(scopedFilter, null, options))
+      .session(this.getSession())
+      .explain(verbosity)
+      .exec();
+    return normalizeExplain(raw as Record<string, any>, {
+      find: this.readModel.collection.collectionName,
+      filter: scopedFilter,
+      sort: options.sort,
+    });
+  }
+
+  /**
+   * Explain an aggregation pipeline as `aggregate` runs it
+   */
+  async explainAggregate(
+    pipeline: PipelineStage[],
+    verbosity: ExplainVerbosity = 'executionStats',
+  ): Promise<ExplainReport> {
+    const scopedPipeline = this.tenantPipeline(pipeline);
+    const raw = await this.applyReadPreference(this.readModel.aggregate(scopedPipeline))
+      .session(this.getSession())
+      .explain(verbosity);
+    return normalizeExplain(raw, {
+      aggregate: this.readModel.collection.collectionName,
+      pipeline: scopedPipeline,
+    });
+  }
+
+  /**
+   * Search the collection with the given strategy, most relevant results first.
+   * Results carry a `searchScore`, and `searchHighlights` when `highlight` is set.
+   * A blank term returns no results.
+   */
+  async search(term: string, options: SearchOptions): Promise<SearchResult<T>[]> {
+    if (!term.trim()) {
+      return [];
+    }
+    const pipeline = buildSearchPipeline(term, {
+      ...options,
+      filter: this.scopeFilter(options.filter as FilterQuery<T>),
+    });
+    const results = await this.aggregate<SearchResult<T>>(pipeline);
+    if (!options.highlight || options.strategy === 'atlas') {
+      return results;
+    }
+    return results.map((result) => ({
+      ...result,
+      searchHighlights: buildSearchHighlights(result, term, options),
+    }));
   }
 }
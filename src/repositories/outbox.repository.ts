@@ -0,0 +1,187 @@
+import { FilterQuery, Model, QueryOptions } from 'mongoose';
+import { BaseRepository } from './base.repository';
+import { OutboxRecord } from '../models/outbox.model';
+import { BaseRepositoryOptions } from '../interfaces/base.interface';
+import { BulkWriteReport } from '../interfaces/bulk.interface';
+import { OutboxMessage } from '../interfaces/outbox.interface';
+
+/**
+ * Repository for outbox records.
+ * Records added inside `TransactionManager.run` or a `@Transactional()` method are written
+ * in the same session as the business change, so they are committed or rolled back with it.
+ *
+ * @example
+ * ```typescript
+ * @Transactional()
+ * async placeOrder(data: CreateOrderDto) {
+ *   const order = await this.orderRepository.create(data);
+ *   await this.outboxRepository.add({
+ *     eventType: 'order.placed',
+ *     aggregateType: 'order',
+ *     aggregateId: order.id,
+ *     payload: data,
+ *   });
+ *   return order;
+ * }
+ * ```
+ */
+export class OutboxRepository extends BaseRepository<OutboxRecord> {
+  constructor(model: Model<OutboxRecord>, options: BaseRepositoryOptions = {}) {
+    super(model, options);
+  }
+
+  /**
+   * Record a domain event for delivery
+   */
+  async add(message: OutboxMessage): Promise<OutboxRecord> {
+    return this.create(this.toRecord(message));
+  }
+
+  /**
+   * Record several domain events for delivery.
+   * Throws if any record is rejected, so a surrounding transaction is rolled back
+   * instead of committing the business change with part of its events.
+   */
+  async addMany(messages: OutboxMessage[]): Promise<BulkWriteReport> {
+    const report = await this.createMany(
+      messages.map((message) => this.toRecord(message)),
+      { ordered: true },
+    );
+    if (report.failedCount > 0) {
+      const [{ index, error }] = report.failed;
+      throw new Error(`Failed to add outbox record ${index}: ${error}`);
+    }
+    return report;
+  }
+
+  /**
+   * Find pending records whose next attempt is due and records whose claim expired,
+   * oldest first
+   */
+  async findDue(limit = 100): Promise<OutboxRecord[]> {
+    const now = new Date();
+    return this.model
+      .find(
+        this.scopeFilter({
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { status: 'publishing', claimedUntil: { $lt: now } },
+          ],
+        } as FilterQuery<OutboxRecord>),
+      )
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .lean<OutboxRecord[]>()
+      .session(this.getSession())
+      .exec();
+  }
+
+  /**
+   * Find records that exhausted their delivery attempts
+   */
+  async findDeadLetters(
+    filter: FilterQuery<OutboxRecord> = {},
+    options: QueryOptions = {},
+  ): Promise<OutboxRecord[]> {
+    return this.findAll({ ...filter, status: 'dead_letter' }, options);
+  }
+
+  /**
+   * Atomically claim a due record for delivery until `claimedUntil`.
+   * Succeeds for pending records and records whose previous claim expired; returns the
+   * claimed record, or null when it is not due or another relay holds it.
+   */
+  async claim(id: string, claimedUntil: Date): Promise<OutboxRecord | null> {
+    const now = new Date();
+    return this.model
+      .findOneAndUpdate(
+        this.tenantFilter({
+          _id: id,
+          $or: [
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { status: 'publishing', claimedUntil: { $lt: now } },
+          ],
+        } as FilterQuery<OutboxRecord>),
+        { $set: { status: 'publishing', claimedUntil } },
+        { new: true },
+      )
+      .lean<OutboxRecord>()
+      .session(this.getSession())
+      .exec();
+  }
+
+  /**
+   * Mark a record as delivered
+   */
+  async markPublished(id: string): Promise<boolean> {
+    return this.setState(id, {
+      $set: { status: 'published', publishedAt: new Date() },
+      $unset: { lastError: 1, claimedUntil: 1 },
+      $inc: { attempts: 1 },
+    });
+  }
+
+  /**
+   * Record a failed delivery and schedule the next attempt
+   */
+  async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<boolean> {
+    return this.setState(id, {
+      $set: { status: 'pending', lastError: error, nextAttemptAt },
+      $unset: { claimedUntil: 1 },
+      $inc: { attempts: 1 },
+    });
+  }
+
+  /**
+   * Record a failed delivery and stop retrying
+   */
+  async markDeadLetter(id: string, error: string): Promise<boolean> {
+    return this.setState(id, {
+      $set: { status: 'dead_letter', lastError: error },
+      $unset: { claimedUntil: 1 },
+      $inc: { attempts: 1 },
+    });
+  }
+
+  /**
+   * Move a dead-lettered record back to pending for immediate redelivery
+   */
+  async requeue(id: string): Promise<boolean> {
+    const result = await this.model
+      .updateOne(
+        this.tenantFilter({ _id: id, status: 'dead_letter' } as FilterQuery<OutboxRecord>),
+        {
+          $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+        },
+      )
+      .session(this.getSession())
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Apply a delivery state change to a record that is pending or being published
+   */
+  protected async setState(id: string, update: Record<string, any>): Promise<boolean> {
+    const result = await this.model
+      .updateOne(
+        this.tenantFilter({
+          _id: id,
+          status: { $in: ['pending', 'publishing'] },
+        } as FilterQuery<OutboxRecord>),
+        update,
+      )
+      .session(this.getSession())
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  protected toRecord(message: OutboxMessage): Partial<OutboxRecord> {
+    return {
+      ...message,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    } as Partial<OutboxRecord>;
+  }
+}
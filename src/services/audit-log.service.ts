@@ -0,0 +1,108 @@
+import type { Connection } from 'mongoose';
+import {
+  AuditChange,
+  AuditContextProvider,
+  AuditEntry,
+  AuditHistoryOptions,
+  AuditLogOptions,
+  AuditRecorder,
+} from '../interfaces/audit.interface';
+import { AsyncLocalStorageAuditContextProvider } from '../utils/audit.utils';
+import { getTransactionSession } from '../utils/transaction.utils';
+
+type AuditDocument = Omit<AuditEntry, 'id'>;
+
+/**
+ * Audit log stored in a MongoDB collection.
+ * Pass it to repositories with the `audit` option to record every change they make.
+ * Entries are written in the current transaction, if any.
+ */
+export class AuditLogService implements AuditRecorder {
+  private readonly collectionName: string;
+  private readonly contextProvider: AuditContextProvider;
+  private indexCreated = false;
+
+  constructor(
+    private readonly connection: Connection,
+    options: AuditLogOptions = {},
+  ) {
+    this.collectionName = options.collectionName || 'audit_logs';
+    this.contextProvider = options.contextProvider || new AsyncLocalStorageAuditContextProvider();
+  }
+
+  /**
+   * Record changes, adding the actor, correlation id and timestamp
+   */
+  async record(changes: AuditChange[]): Promise<void> {
+    if (!changes.length) {
+      return;
+    }
+    await this.ensureIndex();
+
+    const context = this.contextProvider.getContext() || {};
+    const timestamp = new Date();
+    const entries: AuditDocument[] = changes.map((change) => ({
+      ...change,
+      actor: context.actor,
+      correlationId: context.correlationId,
+      timestamp,
+    }));
+
+    await this.collection.insertMany(entries, {
+      session: getTransactionSession(this.connection),
+    });
+  }
+
+  /**
+   * Get the changes of a document, oldest first
+   */
+  async getHistory(
+    collectionName: string,
+    documentId: string,
+    options: AuditHistoryOptions = {},
+  ): Promise<AuditEntry[]> {
+    const query: Record<string, any> = { collectionName, documentId: String(documentId) };
+    if (options.from || options.to) {
+      query.timestamp = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lte: options.to }),
+      };
+    }
+
+    const cursor = this.collection.find(query).sort({ timestamp: 1, _id: 1 });
+    if (options.limit) {
+      cursor.limit(options.limit);
+    }
+    const documents = await cursor.toArray();
+    return documents.map(({ _id, ...entry }) => ({ id: String(_id), ...entry }));
+  }
+
+  /**
+   * Rebuild a document as it was at the given time.
+   * Returns null when it did not exist yet or was deleted at that time.
+   */
+  async getStateAt(
+    collectionName: string,
+    documentId: string,
+    at: Date,
+  ): Promise<Record<string, any> | null> {
+    const [latest] = await this.collection
+      .find({ collectionName, documentId: String(documentId), timestamp: { $lte: at } })
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(1)
+      .toArray();
+    return latest?.after ?? null;
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (this.indexCreated) {
+      return;
+    }
+    await this.collection.createIndex({ collectionName: 1, documentId: 1, timestamp: 1 });
+    this.indexCreated = true;
+  }
+
+  private get collection() {
+    return this.connection.collection<AuditDocument>(this.collectionName);
+  }
+}
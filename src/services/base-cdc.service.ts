@@ -1,13 +1,27 @@
 import { Logger } from '@nestjs/common';
-import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Connection, Model } from 'mongoose';
 import type * as mongodb from 'mongodb';
 import {
   CdcServiceInterface,
   CdcServiceOptions,
   CdcEventHandler,
   CdcChangeEvent,
+  CdcDeadLetterEntry,
+  CdcDeadLetterFilter,
+  CdcDeadLetterStore,
+  CdcLeaseState,
+  CdcServiceStatus,
+  CdcRetryPolicy,
+  CdcStreamSource,
   ChangeOperationType,
 } from '../interfaces/cdc.interface';
+import { computeBackoffDelay } from '../utils/retry.utils';
+import { computeChangeDiff } from '../utils/change-diff.utils';
+import { setChangeStreamPreAndPostImages } from '../utils/connection.utils';
+import { createModelStreamSource, isCdcStreamSource } from '../utils/change-stream.utils';
+import { isShutdownManaged, raceTimeout } from '../utils/shutdown.utils';
 
 /**
  * Base CDC (Change Data Capture) service for MongoDB
@@ -41,6 +55,7 @@ import {
  * ```
  */
 export class BaseCdcService<T> implements CdcServiceInterface<T> {
+  private static readonly running = new Set<BaseCdcService<any>>();
   protected readonly logger: Logger;
   protected changeStream?: mongodb.ChangeStream;
   protected handlers: CdcEventHandler<T>[] = [];
@@ -48,14 +63,52 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
   protected resumeToken: any = null;
   protected reconnectAttempts = 0;
   protected cdcOptions: CdcServiceOptions;
+  protected lastProcessedToken: any = null;
+  protected checkpointedToken: any = null;
+  protected eventsSinceCheckpoint = 0;
+  protected checkpointTimer?: NodeJS.Timeout;
+  protected leaseState: CdcLeaseState = { role: 'disabled' };
+  protected electionTimer?: NodeJS.Timeout;
+  protected processingWindow: { token: any; done: boolean; failed?: boolean }[] = [];
+  protected orderingTails = new Map<string, Promise<unknown>>();
+  protected runningEvents = 0;
+  protected slotWaiters: (() => void)[] = [];
+  protected capacityWaiters: (() => void)[] = [];
+  protected preAndPostImagesEnabled = false;
+  protected lastEventAt: Date | null = null;
+  protected inFlightChanges = new Set<Promise<void>>();
+  protected intakeStopped = false;
+  protected readonly source: CdcStreamSource;
 
-  constructor(
-    protected readonly model: Model<T>,
-    options: CdcServiceOptions = {},
-  ) {
+  /**
+   * Model the service watches, when constructed with one
+   */
+  protected readonly model?: Model<T>;
+
+  /**
+   * @param source - Model whose collection is watched, or another stream source
+   * @param options - CDC options
+   */
+  constructor(source: Model<T> | CdcStreamSource, options: CdcServiceOptions = {}) {
+    if (isCdcStreamSource(source)) {
+      this.source = source;
+    } else {
+      this.model = source;
+      this.source = createModelStreamSource(source);
+    }
     this.logger = new Logger(this.constructor.name);
     this.cdcOptions = options;
     this.applyDefaultOptions();
+
+    if (this.cdcOptions.leaderElection) {
+      this.leaseState = {
+        role: 'stopped',
+        lockName: this.cdcOptions.leaderElection.lockName || this.constructor.name,
+        instanceId:
+          this.cdcOptions.leaderElection.instanceId ||
+          `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`,
+      };
+    }
   }
 
   /**
@@ -72,20 +125,47 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
   }
 
   /**
-   * Start watching for changes
+   * Start watching for changes.
+   * With leader election enabled this joins the election, and the change stream is only
+   * opened while this instance holds the lease.
    */
   async start(): Promise<void> {
+    BaseCdcService.running.add(this);
+    this.intakeStopped = false;
+    if (this.cdcOptions.leaderElection) {
+      await this.joinElection();
+      return;
+    }
+    await this.startWatching();
+  }
+
+  /**
+   * Open the change stream
+   */
+  protected async startWatching(): Promise<void> {
+    if (this.intakeStopped) {
+      return;
+    }
     if (this.watching) {
       this.logger.warn('CDC service is already watching');
       return;
     }
 
     try {
+      if (this.cdcOptions.enablePreAndPostImages && !this.preAndPostImagesEnabled) {
+        await this.enablePreAndPostImages();
+      }
+      await this.loadCheckpoint();
+
       const changeStreamOptions: any = {
         fullDocument: this.cdcOptions.fullDocument,
         ...this.cdcOptions.changeStreamOptions,
       };
 
+      if (this.cdcOptions.fullDocumentBeforeChange) {
+        changeStreamOptions.fullDocumentBeforeChange = this.cdcOptions.fullDocumentBeforeChange;
+      }
+
       if (this.cdcOptions.resumeAfter) {
         changeStreamOptions.resumeAfter = this.cdcOptions.resumeAfter;
       }
@@ -103,22 +183,34 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
       }
 
       const pipeline = this.cdcOptions.pipeline || [];
-      this.changeStream = this.model.watch(pipeline, changeStreamOptions);
+      const changeStream = this.openChangeStream(pipeline, changeStreamOptions);
+      this.changeStream = changeStream;
 
-      this.changeStream.on('change', (change: any) => {
-        this.handleChange(change);
-      });
+      if (this.cdcOptions.processing) {
+        // Pull events so reading pauses while the processing queue is full
+        this.consumeChangeStream(changeStream);
+      } else {
+        changeStream.on('change', (change: any) => {
+          const handling = this.handleChange(change);
+          this.inFlightChanges.add(handling);
+          handling.finally(() => this.inFlightChanges.delete(handling));
+        });
+      }
 
-      this.changeStream.on('error', (error: Error) => {
+      changeStream.on('error', (error: Error) => {
         this.handleError(error);
       });
 
-      this.changeStream.on('close', () => {
-        this.handleClose();
+      changeStream.on('close', () => {
+        // Streams closed by stop() are no longer current and must not trigger a reconnect
+        if (changeStream === this.changeStream) {
+          this.handleClose();
+        }
       });
 
       this.watching = true;
       this.reconnectAttempts = 0;
+      this.startCheckpointTimer();
       this.logger.log('CDC service started successfully');
     } catch (error) {
       this.logger.error('Failed to start CDC service', error);
@@ -127,20 +219,59 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
   }
 
   /**
-   * Stop watching for changes
+   * Enable `changeStreamPreAndPostImages` on the watched collection (MongoDB 6.0+)
+   */
+  async enablePreAndPostImages(): Promise<void> {
+    const collectionName = this.source.getCollectionName?.();
+    if (!collectionName) {
+      throw new Error('Pre- and post-images can only be enabled for a single collection source');
+    }
+    await setChangeStreamPreAndPostImages(this.getConnection(), collectionName);
+    this.preAndPostImagesEnabled = true;
+    this.logger.log('Change stream pre- and post-images enabled');
+  }
+
+  /**
+   * Open the change stream on the source
+   */
+  protected openChangeStream(
+    pipeline: any[],
+    options: mongodb.ChangeStreamOptions,
+  ): mongodb.ChangeStream {
+    return this.source.watch(pipeline, options);
+  }
+
+  /**
+   * Stop watching for changes, leaving the leader election if enabled
    */
   async stop(): Promise<void> {
+    BaseCdcService.running.delete(this);
+    if (this.electionTimer) {
+      await this.leaveElection();
+      return;
+    }
+    await this.stopWatching();
+  }
+
+  /**
+   * Close the change stream
+   */
+  protected async stopWatching(): Promise<void> {
     if (!this.watching) {
       this.logger.warn('CDC service is not watching');
       return;
     }
 
     try {
+      this.stopCheckpointTimer();
       if (this.changeStream) {
-        await this.changeStream.close();
+        const changeStream = this.changeStream;
         this.changeStream = undefined;
+        await changeStream.close();
       }
       this.watching = false;
+      await this.drainProcessing();
+      await this.flushCheckpoint();
       this.logger.log('CDC service stopped successfully');
     } catch (error) {
       this.logger.error('Failed to stop CDC service', error);
@@ -148,6 +279,27 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
     }
   }
 
+  /**
+   * Stop reading new events while the service stays started.
+   * Events already received keep being processed; call `drain()` to wait for them.
+   */
+  async stopIntake(): Promise<void> {
+    this.intakeStopped = true;
+    this.stopCheckpointTimer();
+    const changeStream = this.changeStream;
+    this.changeStream = undefined;
+    await changeStream?.close();
+  }
+
+  /**
+   * Wait for the events already received to be processed.
+   * Resolves false when some are still running after the timeout.
+   */
+  async drain(timeoutMs?: number): Promise<boolean> {
+    const drained = Promise.all([this.drainProcessing(), ...this.inFlightChanges]).then(() => true);
+    return timeoutMs === undefined ? drained : raceTimeout(drained, timeoutMs, false);
+  }
+
   /**
    * Check if service is watching
    */
@@ -155,6 +307,179 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
     return this.watching;
   }
 
+  /**
+   * Get the runtime status of this service
+   */
+  getStatus(): CdcServiceStatus {
+    return {
+      name: this.getCheckpointKey(),
+      isWatching: this.watching,
+      lastEventAt: this.lastEventAt,
+      reconnectAttempts: this.reconnectAttempts,
+      leaseRole: this.leaseState.role,
+    };
+  }
+
+  /**
+   * Get the started services watching through a connection
+   */
+  static getRunningServices(connection: Connection): BaseCdcService<any>[] {
+    return [...BaseCdcService.running].filter((service) => service.getConnection() === connection);
+  }
+
+  /**
+   * Get the connection the change stream is opened on
+   */
+  protected getConnection(): Connection {
+    return this.source.getConnection();
+  }
+
+  /**
+   * Get the leader election state of this instance
+   */
+  getLeaseState(): CdcLeaseState {
+    return { ...this.leaseState };
+  }
+
+  /**
+   * Take part in the leader election, trying to acquire the lease every renew interval
+   */
+  protected async joinElection(): Promise<void> {
+    if (this.electionTimer) {
+      this.logger.warn('CDC service already takes part in leader election');
+      return;
+    }
+
+    const election = this.cdcOptions.leaderElection!;
+    const leaseDurationMs = election.leaseDurationMs || 15000;
+    const renewIntervalMs = election.renewIntervalMs || Math.floor(leaseDurationMs / 3);
+
+    this.setLeaseRole('follower');
+    this.electionTimer = setInterval(() => {
+      this.renewLease().catch((error) => this.logger.error('Failed to renew CDC lease', error));
+    }, renewIntervalMs);
+    this.electionTimer.unref();
+
+    await this.renewLease();
+  }
+
+  /**
+   * Stop taking part in the leader election, handing the lease over if held
+   */
+  protected async leaveElection(): Promise<void> {
+    clearInterval(this.electionTimer);
+    this.electionTimer = undefined;
+
+    const wasLeader = this.leaseState.role === 'leader';
+    this.setLeaseRole('stopped');
+
+    if (this.watching) {
+      await this.stopWatching();
+    }
+    if (wasLeader) {
+      try {
+        await this.cdcOptions.leaderElection!.store.release(
+          this.leaseState.lockName!,
+          this.leaseState.instanceId!,
+        );
+      } catch (error) {
+        this.logger.error('Failed to release CDC lease', error);
+      }
+    }
+  }
+
+  /**
+   * Acquire or renew the lease, starting or stopping the change stream on role changes
+   */
+  protected async renewLease(): Promise<void> {
+    const election = this.cdcOptions.leaderElection!;
+    const leaseDurationMs = election.leaseDurationMs || 15000;
+    const { lockName, instanceId } = this.leaseState;
+
+    let acquired: boolean;
+    try {
+      acquired = await election.store.acquire(lockName!, instanceId!, leaseDurationMs);
+    } catch (error) {
+      this.logger.error('Failed to renew CDC lease', error);
+      // Keep leading until our own lease would have expired
+      const renewedAt = this.leaseState.renewedAt?.getTime() || 0;
+      acquired = this.leaseState.role === 'leader' && Date.now() - renewedAt < leaseDurationMs;
+    }
+
+    // The election may have been left while the store call was in flight
+    if (!this.electionTimer) {
+      return;
+    }
+
+    if (acquired) {
+      this.leaseState.renewedAt = new Date();
+      if (this.leaseState.role !== 'leader') {
+        this.setLeaseRole('leader');
+        try {
+          await this.startWatching();
+        } catch {
+          await this.handOverLease();
+        }
+      }
+    } else if (this.leaseState.role === 'leader') {
+      this.setLeaseRole('follower');
+      await this.stopWatching();
+      this.resetPositionAfterStepDown();
+    }
+  }
+
+  /**
+   * Step down and release the lease after failing to start watching, so another
+   * instance can take over while this one tries again on a later renewal
+   */
+  protected async handOverLease(): Promise<void> {
+    this.logger.warn('Handing the CDC lease over after failing to start watching');
+    this.setLeaseRole('follower');
+    this.leaseState.renewedAt = undefined;
+    try {
+      await this.cdcOptions.leaderElection!.store.release(
+        this.leaseState.lockName!,
+        this.leaseState.instanceId!,
+      );
+    } catch (error) {
+      this.logger.error('Failed to release CDC lease', error);
+    }
+  }
+
+  /**
+   * Forget the in-memory stream position after losing the lease, so the next term
+   * resumes from the checkpoint written by the other leader
+   */
+  protected resetPositionAfterStepDown(): void {
+    if (!this.cdcOptions.checkpoint) {
+      return;
+    }
+    this.resumeToken = null;
+    this.lastProcessedToken = null;
+    this.checkpointedToken = null;
+    delete this.cdcOptions.resumeAfter;
+  }
+
+  /**
+   * Update the lease role and notify handlers of the transition
+   */
+  protected setLeaseRole(role: CdcLeaseState['role']): void {
+    if (this.leaseState.role === role) {
+      return;
+    }
+    this.leaseState = { ...this.leaseState, role, changedAt: new Date() };
+    this.logger.log(`CDC lease role changed to ${role}`);
+
+    const state = this.getLeaseState();
+    for (const handler of this.handlers) {
+      if (handler.onLeaseChange) {
+        Promise.resolve()
+          .then(() => handler.onLeaseChange!(state))
+          .catch((error) => this.logger.error('Error in lease change handler', error));
+      }
+    }
+  }
+
   /**
    * Register event handler
    */
@@ -184,47 +509,306 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
   }
 
   /**
-   * Handle change event from MongoDB Change Stream
+   * Persist the resume token of the last processed event, if checkpointing is enabled.
+   * Skipped after losing the lease: the checkpoint then belongs to the new leader.
+   */
+  async flushCheckpoint(): Promise<void> {
+    const checkpoint = this.cdcOptions.checkpoint;
+    const token = this.lastProcessedToken;
+    if (!checkpoint || !token || token === this.checkpointedToken) {
+      return;
+    }
+    if (this.leaseState.role === 'follower') {
+      this.logger.warn('Not persisting the CDC checkpoint: the lease was lost');
+      return;
+    }
+
+    try {
+      await checkpoint.store.save(this.getCheckpointKey(), token);
+      this.checkpointedToken = token;
+      this.eventsSinceCheckpoint = 0;
+    } catch (error) {
+      this.logger.error('Failed to persist CDC checkpoint', error);
+    }
+  }
+
+  /**
+   * Get the key identifying this stream in the checkpoint store
+   */
+  protected getCheckpointKey(): string {
+    return this.cdcOptions.checkpoint?.key || this.constructor.name;
+  }
+
+  /**
+   * Resume from the stored checkpoint unless a start position is already known
+   */
+  protected async loadCheckpoint(): Promise<void> {
+    const checkpoint = this.cdcOptions.checkpoint;
+    if (
+      !checkpoint ||
+      this.resumeToken ||
+      this.cdcOptions.resumeAfter ||
+      this.cdcOptions.startAtOperationTime
+    ) {
+      return;
+    }
+
+    const token = await checkpoint.store.load(this.getCheckpointKey());
+    if (token) {
+      this.resumeToken = token;
+      this.lastProcessedToken = token;
+      this.checkpointedToken = token;
+      this.cdcOptions.resumeAfter = token;
+      this.logger.log('Resuming CDC service from stored checkpoint');
+    }
+  }
+
+  /**
+   * Record a fully processed event and persist its token every N events
+   */
+  protected async markProcessed(token: any, count = 1): Promise<void> {
+    const checkpoint = this.cdcOptions.checkpoint;
+    if (!checkpoint || !token) {
+      return;
+    }
+
+    this.lastProcessedToken = token;
+    this.eventsSinceCheckpoint += count;
+    if (this.eventsSinceCheckpoint >= (checkpoint.everyEvents || 1)) {
+      await this.flushCheckpoint();
+    }
+  }
+
+  /**
+   * Persist the latest processed token every `intervalMs`
+   */
+  protected startCheckpointTimer(): void {
+    const intervalMs = this.cdcOptions.checkpoint?.intervalMs;
+    if (!intervalMs || this.checkpointTimer) {
+      return;
+    }
+    this.checkpointTimer = setInterval(() => {
+      this.flushCheckpoint();
+    }, intervalMs);
+    this.checkpointTimer.unref();
+  }
+
+  protected stopCheckpointTimer(): void {
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = undefined;
+    }
+  }
+
+  /**
+   * Handle change event from MongoDB Change Stream.
+   * Events run concurrently, so the checkpoint only moves past an event once every event
+   * received before it has finished.
    */
   protected async handleChange(change: any): Promise<void> {
+    const entry = { token: change._id, done: false, failed: false };
+    this.processingWindow.push(entry);
+
+    // Store resume token
+    if (change._id) {
+      this.resumeToken = change._id;
+    }
+
+    let failure: unknown;
     try {
-      // Store resume token
-      if (change._id) {
-        this.resumeToken = change._id;
-      }
+      await this.dispatchChange(change);
+    } catch (error) {
+      failure = error;
+      entry.failed = true;
+    }
+    // Finished before handling the error, which may stop the stream and wait for this event
+    entry.done = true;
+    await this.advanceProcessedWatermark();
 
-      const event: CdcChangeEvent<T> = {
-        operationType: change.operationType as ChangeOperationType,
-        documentKey: change.documentKey,
-        fullDocument: change.fullDocument,
-        updateDescription: change.updateDescription,
-        ns: change.ns,
-        clusterTime: change.clusterTime,
-      };
+    if (entry.failed) {
+      this.logger.error('Error handling change event', failure);
+      await this.handleError(failure as Error);
+    }
+  }
+
+  /**
+   * Run the operation handler and the registered handlers for a change
+   */
+  protected async dispatchChange(change: any): Promise<void> {
+    this.lastEventAt = new Date();
+    const event: CdcChangeEvent<T> = {
+      operationType: change.operationType as ChangeOperationType,
+      documentKey: change.documentKey,
+      fullDocument: change.fullDocument,
+      fullDocumentBeforeChange: change.fullDocumentBeforeChange,
+      updateDescription: change.updateDescription,
+      ns: change.ns,
+      to: change.to,
+      clusterTime: change.clusterTime,
+    };
+    event.diff = computeChangeDiff(event);
 
-      // Call specific handler based on operation type
-      switch (event.operationType) {
-        case ChangeOperationType.INSERT:
-          await this.handleInsert(event);
-          break;
-        case ChangeOperationType.UPDATE:
-          await this.handleUpdate(event);
-          break;
-        case ChangeOperationType.REPLACE:
-          await this.handleReplace(event);
-          break;
-        case ChangeOperationType.DELETE:
-          await this.handleDelete(event);
-          break;
-        default:
-          await this.handleOther(event);
+    // Call specific handler based on operation type
+    switch (event.operationType) {
+      case ChangeOperationType.INSERT:
+        await this.handleInsert(event);
+        break;
+      case ChangeOperationType.UPDATE:
+        await this.handleUpdate(event);
+        break;
+      case ChangeOperationType.REPLACE:
+        await this.handleReplace(event);
+        break;
+      case ChangeOperationType.DELETE:
+        await this.handleDelete(event);
+        break;
+      default:
+        await this.handleOther(event);
+    }
+
+    // Notify all registered handlers
+    await this.notifyHandlers(event);
+  }
+
+  /**
+   * Read events one at a time, waiting while the processing queue is full
+   */
+  protected async consumeChangeStream(changeStream: mongodb.ChangeStream): Promise<void> {
+    try {
+      while (changeStream === this.changeStream) {
+        await this.waitForCapacity();
+        const change = await changeStream.next();
+        // Streams closed by stop() are no longer current
+        if (changeStream !== this.changeStream) {
+          return;
+        }
+        this.enqueueChange(change);
+      }
+    } catch (error) {
+      if (changeStream === this.changeStream) {
+        await this.handleError(error as Error);
       }
+    }
+  }
+
+  /**
+   * Schedule a change after the previous change with the same ordering key
+   */
+  protected enqueueChange(change: any): void {
+    const entry = { token: change._id, done: false, failed: false };
+    this.processingWindow.push(entry);
+
+    const key = this.getOrderingKey(change);
+    const previous = this.orderingTails.get(key) || Promise.resolve();
+    const current = previous.then(() => this.processOrderedChange(change));
+    this.orderingTails.set(key, current);
+
+    current
+      .then((processed) => {
+        if (this.orderingTails.get(key) === current) {
+          this.orderingTails.delete(key);
+        }
+        entry.done = true;
+        entry.failed = !processed;
+        return this.advanceProcessedWatermark();
+      })
+      .catch((error) => this.logger.error('Failed to checkpoint CDC change', error));
+  }
 
-      // Notify all registered handlers
-      await this.notifyHandlers(event);
+  /**
+   * Process a change once a concurrency slot is free.
+   * Resolves false when the change failed.
+   */
+  protected async processOrderedChange(change: any): Promise<boolean> {
+    await this.acquireProcessingSlot();
+    try {
+      await this.dispatchChange(change);
+      return true;
     } catch (error) {
       this.logger.error('Error handling change event', error);
-      await this.handleError(error as Error);
+      // Not awaited: error handling may restart the stream, which waits for this queue to drain
+      this.handleError(error as Error).catch((handlingError) =>
+        this.logger.error('Error in CDC error handling', handlingError),
+      );
+      return false;
+    } finally {
+      this.releaseProcessingSlot();
+    }
+  }
+
+  /**
+   * Get the key of changes that must be processed in order
+   */
+  protected getOrderingKey(change: any): string {
+    const orderingKey = this.cdcOptions.processing?.orderingKey;
+    if (orderingKey) {
+      return orderingKey(change);
+    }
+    const id = change.documentKey?._id;
+    return id === undefined ? '' : String(id);
+  }
+
+  /**
+   * Move the checkpoint past the leading run of finished changes.
+   * A failed change is not checkpointed itself, only passed by later successful ones.
+   */
+  protected async advanceProcessedWatermark(): Promise<void> {
+    let token: any = null;
+    let count = 0;
+    while (this.processingWindow.length && this.processingWindow[0].done) {
+      const entry = this.processingWindow.shift()!;
+      token = entry.failed ? token : entry.token;
+      count++;
+    }
+    if (!count) {
+      return;
+    }
+
+    this.capacityWaiters.splice(0).forEach((resolve) => resolve());
+    if (token) {
+      // Without a processing window the stream already resumes after the last received change
+      if (this.cdcOptions.processing) {
+        this.resumeToken = token;
+      }
+      await this.markProcessed(token, count);
+    }
+  }
+
+  protected acquireProcessingSlot(): Promise<void> {
+    if (this.runningEvents < (this.cdcOptions.processing?.concurrency || 1)) {
+      this.runningEvents++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.slotWaiters.push(resolve));
+  }
+
+  protected releaseProcessingSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) {
+      // Hand the slot over without releasing it
+      next();
+    } else {
+      this.runningEvents--;
+    }
+  }
+
+  /**
+   * Wait until the number of unfinished changes is below `maxPending`
+   */
+  protected async waitForCapacity(): Promise<void> {
+    const processing = this.cdcOptions.processing;
+    const maxPending = processing?.maxPending || (processing?.concurrency || 1) * 10;
+    while (this.processingWindow.length >= maxPending) {
+      await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Wait for every read change to finish processing
+   */
+  protected async drainProcessing(): Promise<void> {
+    while (this.processingWindow.length) {
+      await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
     }
   }
 
@@ -273,18 +857,167 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
    */
   protected async notifyHandlers(event: CdcChangeEvent<T>): Promise<void> {
     for (const handler of this.handlers) {
+      await this.dispatchToHandler(handler, event);
+    }
+  }
+
+  /**
+   * Run a handler with its retry policy, dead-lettering the event once retries run out
+   */
+  protected async dispatchToHandler(
+    handler: CdcEventHandler<T>,
+    event: CdcChangeEvent<T>,
+  ): Promise<void> {
+    const policy = this.getRetryPolicy(handler);
+
+    for (let attempt = 1; ; attempt++) {
       try {
         await handler.onEvent(event);
+        return;
       } catch (error) {
-        this.logger.error('Error in event handler', error);
+        if (attempt >= policy.maxAttempts) {
+          this.logger.error(`Error in event handler ${this.getHandlerName(handler)}`, error);
+          await this.deadLetter(handler, event, error, attempt);
+          return;
+        }
+
+        const delay = computeBackoffDelay(attempt, policy);
+        this.logger.warn(
+          `Event handler ${this.getHandlerName(handler)} failed, retrying in ${delay}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
   }
 
+  /**
+   * Get the effective retry policy of a handler
+   */
+  protected getRetryPolicy(handler: CdcEventHandler<T>): Required<CdcRetryPolicy> {
+    return {
+      maxAttempts: 1,
+      initialDelayMs: 100,
+      multiplier: 2,
+      maxDelayMs: 30000,
+      jitter: 0.2,
+      ...this.cdcOptions.handlerRetry,
+      ...handler.retryPolicy,
+    };
+  }
+
+  /**
+   * Get the name identifying a handler in dead-letter entries
+   */
+  protected getHandlerName(handler: CdcEventHandler<T>): string {
+    if (handler.name) {
+      return handler.name;
+    }
+    const className = handler.constructor?.name;
+    return className && className !== 'Object' ? className : 'anonymous';
+  }
+
+  /**
+   * Store an event that a handler failed to process, if a dead-letter store is configured
+   */
+  protected async deadLetter(
+    handler: CdcEventHandler<T>,
+    event: CdcChangeEvent<T>,
+    error: unknown,
+    attempts: number,
+  ): Promise<void> {
+    const deadLetter = this.cdcOptions.deadLetter;
+    if (!deadLetter) {
+      return;
+    }
+
+    try {
+      await deadLetter.store.add({
+        source: this.getDeadLetterSource(),
+        handlerName: this.getHandlerName(handler),
+        event,
+        error: error instanceof Error ? error.message : String(error),
+        attempts,
+        failedAt: new Date(),
+      });
+    } catch (storeError) {
+      this.logger.error('Failed to store dead-lettered CDC event', storeError);
+    }
+  }
+
+  /**
+   * Get the source name recorded with dead-lettered events
+   */
+  protected getDeadLetterSource(): string {
+    return this.cdcOptions.deadLetter?.source || this.constructor.name;
+  }
+
+  /**
+   * List events dead-lettered by this service
+   */
+  async listDeadLetters(
+    filter: Omit<CdcDeadLetterFilter, 'source'> = {},
+  ): Promise<CdcDeadLetterEntry<T>[]> {
+    const store = this.requireDeadLetterStore();
+    return store.list({ ...filter, source: this.getDeadLetterSource() });
+  }
+
+  /**
+   * Run a dead-lettered event through its handler again, removing it on success.
+   * Returns false when the handler fails again; the entry is then kept.
+   */
+  async replayDeadLetter(id: string): Promise<boolean> {
+    const store = this.requireDeadLetterStore();
+    const entry = await store.get(id);
+    if (!entry || entry.source !== this.getDeadLetterSource()) {
+      throw new Error(`Dead-lettered event "${id}" not found`);
+    }
+
+    const handler = this.findHandlerByName(entry.handlerName);
+    if (!handler) {
+      throw new Error(`No registered handler named "${entry.handlerName}"`);
+    }
+
+    try {
+      await handler.onEvent(entry.event);
+    } catch (error) {
+      this.logger.error(`Replay of dead-lettered event ${id} failed`, error);
+      return false;
+    }
+    await store.remove(id);
+    return true;
+  }
+
+  /**
+   * Find a registered handler by the name recorded in dead-letter entries
+   */
+  protected findHandlerByName(name: string): CdcEventHandler<T> | undefined {
+    return this.handlers.find((handler) => this.getHandlerName(handler) === name);
+  }
+
+  /**
+   * Remove dead-lettered events of this service
+   */
+  async purgeDeadLetters(filter: Omit<CdcDeadLetterFilter, 'source'> = {}): Promise<number> {
+    const store = this.requireDeadLetterStore();
+    return store.purge({ ...filter, source: this.getDeadLetterSource() });
+  }
+
+  protected requireDeadLetterStore(): CdcDeadLetterStore {
+    if (!this.cdcOptions.deadLetter) {
+      throw new Error('Dead-letter store is not configured for this CDC service');
+    }
+    return this.cdcOptions.deadLetter.store;
+  }
+
   /**
    * Handle error
    */
   protected async handleError(error: Error): Promise<void> {
+    if (this.cdcOptions.checkpoint && this.isHistoryLost(error)) {
+      await this.handleHistoryLost(error);
+      return;
+    }
+
     this.logger.error('CDC service error', error);
 
     // Notify all registered handlers
@@ -304,12 +1037,53 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
     }
   }
 
+  /**
+   * Check if an error reports that the resume point is no longer in the oplog
+   */
+  protected isHistoryLost(error: any): boolean {
+    return error?.code === 286 || error?.codeName === 'ChangeStreamHistoryLost';
+  }
+
+  /**
+   * Apply the configured history-lost policy
+   */
+  protected async handleHistoryLost(error: Error): Promise<void> {
+    const policy = this.cdcOptions.checkpoint?.historyLostPolicy || 'startFromNow';
+    this.logger.warn(`Resume token is no longer in the oplog (policy: ${policy})`);
+
+    if (this.watching) {
+      await this.stopWatching();
+    }
+
+    if (policy === 'fail') {
+      for (const handler of this.handlers) {
+        if (handler.onError) {
+          try {
+            await handler.onError(error);
+          } catch (err) {
+            this.logger.error('Error in error handler', err);
+          }
+        }
+      }
+      return;
+    }
+
+    await this.cdcOptions.checkpoint?.store.clear(this.getCheckpointKey());
+    this.resumeToken = null;
+    this.lastProcessedToken = null;
+    this.checkpointedToken = null;
+    delete this.cdcOptions.resumeAfter;
+    delete this.cdcOptions.startAtOperationTime;
+    await this.startWatching();
+  }
+
   /**
    * Handle close event
    */
   protected async handleClose(): Promise<void> {
     this.logger.log('Change stream closed');
     this.watching = false;
+    this.stopCheckpointTimer();
 
     // Notify all registered handlers
     for (const handler of this.handlers) {
@@ -340,6 +1114,13 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
    * Attempt to reconnect
    */
   protected async reconnect(): Promise<void> {
+    if (this.intakeStopped) {
+      return;
+    }
+    if (this.cdcOptions.leaderElection && this.leaseState.role !== 'leader') {
+      return;
+    }
+
     this.reconnectAttempts++;
     const delay = this.cdcOptions.reconnectDelay || 1000;
 
@@ -355,7 +1136,7 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
         this.cdcOptions.resumeAfter = this.resumeToken;
       }
 
-      await this.start();
+      await this.startWatching();
       this.logger.log('Reconnected successfully');
     } catch (error) {
       this.logger.error('Reconnection failed', error);
@@ -372,6 +1153,10 @@ export class BaseCdcService<T> implements CdcServiceInterface<T> {
    * Cleanup resources
    */
   async onModuleDestroy(): Promise<void> {
+    // Services on connections managed by the ShutdownCoordinator are drained and stopped by it
+    if (isShutdownManaged(this.getConnection())) {
+      return;
+    }
     await this.stop();
   }
 }
@@ -0,0 +1,54 @@
+import type { Connection } from 'mongoose';
+import { CdcCheckpointStore } from '../interfaces/cdc.interface';
+
+/**
+ * Checkpoint store keeping resume tokens in a MongoDB collection, one document per stream
+ */
+export class MongoCdcCheckpointStore implements CdcCheckpointStore {
+  constructor(
+    private readonly connection: Connection,
+    private readonly collectionName = 'cdc_checkpoints',
+  ) {}
+
+  async load(key: string): Promise<any | null> {
+    const checkpoint = await this.collection.findOne({ _id: key });
+    return checkpoint?.resumeToken ?? null;
+  }
+
+  async save(key: string, resumeToken: any): Promise<void> {
+    await this.collection.updateOne(
+      { _id: key },
+      { $set: { resumeToken, updatedAt: new Date() } },
+      { upsert: true },
+    );
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.collection.deleteOne({ _id: key });
+  }
+
+  private get collection() {
+    return this.connection.collection<{ _id: string; resumeToken: any; updatedAt: Date }>(
+      this.collectionName,
+    );
+  }
+}
+
+/**
+ * Checkpoint store keeping resume tokens in process memory, for tests and single-run jobs
+ */
+export class InMemoryCdcCheckpointStore implements CdcCheckpointStore {
+  private readonly tokens = new Map<string, any>();
+
+  async load(key: string): Promise<any | null> {
+    return this.tokens.get(key) ?? null;
+  }
+
+  async save(key: string, resumeToken: any): Promise<void> {
+    this.tokens.set(key, resumeToken);
+  }
+
+  async clear(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { Connection, Types } from 'mongoose';
+import {
+  CdcDeadLetterEntry,
+  CdcDeadLetterFilter,
+  CdcDeadLetterStore,
+} from '../interfaces/cdc.interface';
+
+/**
+ * Dead-letter store keeping failed events in a MongoDB collection, one document per event
+ */
+export class MongoCdcDeadLetterStore implements CdcDeadLetterStore {
+  constructor(
+    private readonly connection: Connection,
+    private readonly collectionName = 'cdc_dead_letters',
+  ) {}
+
+  async add(entry: Omit<CdcDeadLetterEntry, 'id'>): Promise<string> {
+    const result = await this.collection.insertOne({ _id: new Types.ObjectId(), ...entry });
+    return result.insertedId.toString();
+  }
+
+  async list(filter: CdcDeadLetterFilter = {}): Promise<CdcDeadLetterEntry[]> {
+    const cursor = this.collection.find(this.buildQuery(filter)).sort({ failedAt: 1 });
+    if (filter.limit) {
+      cursor.limit(filter.limit);
+    }
+    const documents = await cursor.toArray();
+    return documents.map(({ _id, ...entry }) => ({ id: _id.toString(), ...entry }));
+  }
+
+  async get(id: string): Promise<CdcDeadLetterEntry | null> {
+    if (!Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    const document = await this.collection.findOne({ _id: new Types.ObjectId(id) });
+    if (!document) {
+      return null;
+    }
+    const { _id, ...entry } = document;
+    return { id: _id.toString(), ...entry };
+  }
+
+  async remove(id: string): Promise<void> {
+    if (Types.ObjectId.isValid(id)) {
+      await this.collection.deleteOne({ _id: new Types.ObjectId(id) });
+    }
+  }
+
+  async purge(filter: CdcDeadLetterFilter = {}): Promise<number> {
+    const result = await this.collection.deleteMany(this.buildQuery(filter));
+    return result.deletedCount;
+  }
+
+  private buildQuery(filter: CdcDeadLetterFilter): Record<string, any> {
+    const query: Record<string, any> = {};
+    if (filter.source) {
+      query.source = filter.source;
+    }
+    if (filter.handlerName) {
+      query.handlerName = filter.handlerName;
+    }
+    if (filter.failedBefore) {
+      query.failedAt = { $lt: filter.failedBefore };
+    }
+    return query;
+  }
+
+  private get collection() {
+    return this.connection.collection<Omit<CdcDeadLetterEntry, 'id'> & { _id: Types.ObjectId }>(
+      this.collectionName,
+    );
+  }
+}
+
+/**
+ * Dead-letter store keeping failed events in process memory, for tests
+ */
+export class InMemoryCdcDeadLetterStore implements CdcDeadLetterStore {
+  private readonly entries = new Map<string, CdcDeadLetterEntry>();
+
+  async add(entry: Omit<CdcDeadLetterEntry, 'id'>): Promise<string> {
+    const id = randomUUID();
+    this.entries.set(id, { id, ...entry });
+    return id;
+  }
+
+  async list(filter: CdcDeadLetterFilter = {}): Promise<CdcDeadLetterEntry[]> {
+    const entries = [...this.entries.values()]
+      .filter((entry) => this.matches(entry, filter))
+      .sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  async get(id: string): Promise<CdcDeadLetterEntry | null> {
+    return this.entries.get(id) ?? null;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  async purge(filter: CdcDeadLetterFilter = {}): Promise<number> {
+    const entries = await this.list({ ...filter, limit: undefined });
+    entries.forEach((entry) => this.entries.delete(entry.id));
+    return entries.length;
+  }
+
+  private matches(entry: CdcDeadLetterEntry, filter: CdcDeadLetterFilter): boolean {
+    return (
+      (!filter.source || entry.source === filter.source) &&
+      (!filter.handlerName || entry.handlerName === filter.handlerName) &&
+      (!filter.failedBefore || entry.failedAt < filter.failedBefore)
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import type { Connection } from 'mongoose';
+import { CdcLeaseStore } from '../interfaces/cdc.interface';
+
+/**
+ * Lease store backed by a MongoDB lock collection, one document per lease.
+ * A TTL index removes leases left behind by crashed holders.
+ */
+export class MongoCdcLeaseStore implements CdcLeaseStore {
+  private indexCreated = false;
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly collectionName = 'cdc_leases',
+  ) {}
+
+  async acquire(lockName: string, holderId: string, leaseDurationMs: number): Promise<boolean> {
+    await this.ensureIndex();
+
+    const now = new Date();
+    try {
+      // Matches our own lease or an expired one; otherwise the upsert hits the unique _id
+      await this.collection.updateOne(
+        { _id: lockName, $or: [{ holderId }, { expiresAt: { $lt: now } }] },
+        { $set: { holderId, expiresAt: new Date(now.getTime() + leaseDurationMs) } },
+        { upsert: true },
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(lockName: string, holderId: string): Promise<void> {
+    await this.collection.deleteOne({ _id: lockName, holderId });
+  }
+
+  private async ensureIndex(): Promise<void> {
+    if (this.indexCreated) {
+      return;
+    }
+    await this.collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    this.indexCreated = true;
+  }
+
+  private get collection() {
+    return this.connection.collection<{ _id: string; holderId: string; expiresAt: Date }>(
+      this.collectionName,
+    );
+  }
+}
+
+/**
+ * Lease store keeping leases in process memory, for tests and single-process setups
+ */
+export class InMemoryCdcLeaseStore implements CdcLeaseStore {
+  private readonly leases = new Map<string, { holderId: string; expiresAt: number }>();
+
+  async acquire(lockName: string, holderId: string, leaseDurationMs: number): Promise<boolean> {
+    const lease = this.leases.get(lockName);
+    if (lease && lease.holderId !== holderId && lease.expiresAt > Date.now()) {
+      return false;
+    }
+    this.leases.set(lockName, { holderId, expiresAt: Date.now() + leaseDurationMs });
+    return true;
+  }
+
+  async release(lockName: string, holderId: string): Promise<void> {
+    if (this.leases.get(lockName)?.holderId === holderId) {
+      this.leases.delete(lockName);
+    }
+  }
+}
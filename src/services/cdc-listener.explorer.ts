@@ -0,0 +1,177 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, ModuleRef } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { BaseCdcService } from './base-cdc.service';
+import { CDC_LISTENER_METADATA } from '../decorators/on-change.decorator';
+import {
+  CdcEventHandler,
+  CdcListenerMetadata,
+  CdcListenerModuleOptions,
+  CdcServiceOptions,
+} from '../interfaces/cdc.interface';
+import { buildChangeListenerMatch, matchesChangeListener } from '../utils/change-filter.utils';
+
+/**
+ * Injection token of the `CdcListenerModule` options
+ */
+export const CDC_LISTENER_MODULE_OPTIONS = 'CDC_LISTENER_MODULE_OPTIONS';
+
+/**
+ * Decorated method bound to its provider instance
+ */
+interface CdcListenerBinding {
+  metadata: CdcListenerMetadata;
+  handlerName: string;
+  invoke: (event: any) => Promise<void> | void;
+}
+
+/**
+ * Finds @OnChange listeners on all providers at bootstrap and routes the events of one
+ * shared change stream per model to them
+ */
+@Injectable()
+export class CdcListenerExplorer implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(CdcListenerExplorer.name);
+  private readonly streams = new Map<string, BaseCdcService<any>>();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly moduleRef: ModuleRef,
+    @Inject(CDC_LISTENER_MODULE_OPTIONS) private readonly options: CdcListenerModuleOptions,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const groups = new Map<string, CdcListenerBinding[]>();
+    this.explore().forEach((binding) => {
+      const key = this.getStreamKey(binding.metadata.modelName, binding.metadata.connectionName);
+      groups.set(key, [...(groups.get(key) || []), binding]);
+    });
+
+    for (const [key, bindings] of groups) {
+      const { modelName, connectionName } = bindings[0].metadata;
+      const model = this.moduleRef.get<Model<any>>(getModelToken(modelName, connectionName), {
+        strict: false,
+      });
+      const match = buildChangeListenerMatch(bindings.map((binding) => binding.metadata));
+      const service = new BaseCdcService(model, this.createStreamOptions(key, match));
+
+      bindings.forEach((binding) => service.registerHandler(this.createHandler(binding)));
+      this.streams.set(key, service);
+      this.logger.log(`Routing ${key} changes to ${bindings.length} listener(s)`);
+    }
+
+    if (this.options.autoStart !== false) {
+      await this.startAll();
+    }
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.stopAll();
+  }
+
+  /**
+   * Start every shared change stream
+   */
+  async startAll(): Promise<void> {
+    for (const service of this.streams.values()) {
+      await service.start();
+    }
+  }
+
+  /**
+   * Stop every shared change stream
+   */
+  async stopAll(): Promise<void> {
+    for (const service of this.streams.values()) {
+      // Services already stopped, e.g. by the ShutdownCoordinator, are skipped
+      const { role } = service.getLeaseState();
+      if (service.isWatching() || (role !== 'disabled' && role !== 'stopped')) {
+        await service.stop();
+      }
+    }
+  }
+
+  /**
+   * Get the shared change stream service of a model, e.g. to replay dead-lettered events
+   */
+  getStream(modelName: string, connectionName?: string): BaseCdcService<any> | undefined {
+    return this.streams.get(this.getStreamKey(modelName, connectionName));
+  }
+
+  /**
+   * Collect the decorated methods of all singleton providers
+   */
+  protected explore(): CdcListenerBinding[] {
+    const bindings: CdcListenerBinding[] = [];
+
+    this.discoveryService.getProviders().forEach((wrapper) => {
+      const { instance } = wrapper;
+      if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+        return;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      this.metadataScanner.getAllMethodNames(prototype).forEach((methodName) => {
+        const listeners: CdcListenerMetadata[] | undefined = Reflect.getMetadata(
+          CDC_LISTENER_METADATA,
+          prototype[methodName],
+        );
+        listeners?.forEach((metadata) => {
+          bindings.push({
+            metadata,
+            handlerName: `${instance.constructor.name}.${methodName}`,
+            invoke: (event) => instance[methodName](event),
+          });
+        });
+      });
+    });
+
+    return bindings;
+  }
+
+  protected createHandler(binding: CdcListenerBinding): CdcEventHandler {
+    return {
+      name: binding.handlerName,
+      onEvent: async (event) => {
+        if (matchesChangeListener(binding.metadata, event)) {
+          await binding.invoke(event);
+        }
+      },
+    };
+  }
+
+  /**
+   * Derive the options of one stream, keeping checkpoints, leases and dead letters apart
+   */
+  protected createStreamOptions(key: string, match: Record<string, any>): CdcServiceOptions {
+    const { checkpoint, leaderElection, deadLetter, ...options } = this.options.cdcOptions || {};
+    return {
+      ...options,
+      pipeline: [{ $match: match }],
+      checkpoint: checkpoint && {
+        ...checkpoint,
+        key: `${checkpoint.key || 'cdc-listener'}:${key}`,
+      },
+      leaderElection: leaderElection && {
+        ...leaderElection,
+        lockName: `${leaderElection.lockName || 'cdc-listener'}:${key}`,
+      },
+      deadLetter: deadLetter && {
+        ...deadLetter,
+        source: `${deadLetter.source || 'cdc-listener'}:${key}`,
+      },
+    };
+  }
+
+  protected getStreamKey(modelName: string, connectionName?: string): string {
+    return `${connectionName || 'default'}:${modelName}`;
+  }
+}
@@ -0,0 +1,262 @@
+import type { Connection } from 'mongoose';
+import type * as mongodb from 'mongodb';
+import { BaseCdcService } from './base-cdc.service';
+import {
+  CdcChangeEvent,
+  CdcEventHandler,
+  ChangeOperationType,
+  ConnectionCdcScope,
+  ConnectionCdcServiceOptions,
+} from '../interfaces/cdc.interface';
+import { setChangeStreamPreAndPostImages } from '../utils/connection.utils';
+import { createConnectionStreamSource } from '../utils/change-stream.utils';
+
+/**
+ * CDC service watching a whole database or cluster instead of a single collection
+ *
+ * Events go to handlers registered with `registerHandler` and to per-collection handlers
+ * registered with `registerCollectionHandler`. Renamed collections keep their handlers and
+ * stay watched, and with `autoReconnect` the stream restarts after an `invalidate` event.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class AuditCdcService extends ConnectionCdcService {
+ *   constructor(@InjectConnection() connection: Connection) {
+ *     super(connection, { scope: 'database', collections: ['users', 'orders'] });
+ *     this.registerCollectionHandler('users', { onEvent: (event) => this.auditUser(event) });
+ *   }
+ * }
+ * ```
+ */
+export class ConnectionCdcService extends BaseCdcService<any> {
+  protected readonly scope: ConnectionCdcScope;
+  protected collections?: string[];
+  protected readonly databases?: string[];
+  protected readonly collectionHandlers = new Map<string, CdcEventHandler[]>();
+  protected invalidatedToken: any = null;
+
+  constructor(
+    protected readonly connection: Connection,
+    options: ConnectionCdcServiceOptions = {},
+  ) {
+    super(createConnectionStreamSource(connection, options.scope), options);
+    this.scope = options.scope || 'database';
+    this.collections = options.collections && [...options.collections];
+    this.databases = options.databases;
+  }
+
+  /**
+   * Register a handler for the events of one collection.
+   * Use `db.collection` to target a collection of another database in cluster scope.
+   */
+  registerCollectionHandler(collection: string, handler: CdcEventHandler): void {
+    const handlers = this.collectionHandlers.get(collection) || [];
+    if (!handlers.includes(handler)) {
+      this.collectionHandlers.set(collection, [...handlers, handler]);
+    }
+  }
+
+  /**
+   * Unregister a collection handler
+   */
+  unregisterCollectionHandler(collection: string, handler: CdcEventHandler): void {
+    const handlers = (this.collectionHandlers.get(collection) || []).filter((h) => h !== handler);
+    if (handlers.length) {
+      this.collectionHandlers.set(collection, handlers);
+    } else {
+      this.collectionHandlers.delete(collection);
+    }
+  }
+
+  /**
+   * Get the collections currently watched, following renames
+   */
+  getWatchedCollections(): string[] | undefined {
+    return this.collections && [...this.collections];
+  }
+
+  /**
+   * Enable `changeStreamPreAndPostImages` on the watched collections of the connection's database
+   */
+  async enablePreAndPostImages(): Promise<void> {
+    if (this.scope !== 'database' || !this.collections?.length) {
+      throw new Error(
+        'Pre- and post-images can only be enabled for listed collections of the database',
+      );
+    }
+    for (const collection of this.collections) {
+      await setChangeStreamPreAndPostImages(this.connection, collection);
+    }
+    this.preAndPostImagesEnabled = true;
+    this.logger.log(
+      `Change stream pre- and post-images enabled for ${this.collections.join(', ')}`,
+    );
+  }
+
+  protected openChangeStream(
+    pipeline: any[],
+    options: mongodb.ChangeStreamOptions,
+  ): mongodb.ChangeStream {
+    const streamOptions = { ...options };
+    // An invalidated stream cannot be resumed, only started after the invalidate event
+    if (this.invalidatedToken && this.resumeToken === this.invalidatedToken) {
+      delete streamOptions.resumeAfter;
+      streamOptions.startAfter = this.invalidatedToken;
+    }
+
+    return super.openChangeStream([...this.buildNamespaceFilter(), ...pipeline], streamOptions);
+  }
+
+  /**
+   * Build the server-side filter for the watched collections and databases
+   */
+  protected buildNamespaceFilter(): any[] {
+    if (!this.collections?.length && !this.databases?.length) {
+      return [];
+    }
+
+    const databaseFilter = this.databases?.length ? { 'ns.db': { $in: this.databases } } : {};
+    const collectionFilter = this.collections?.length
+      ? { 'ns.coll': { $in: this.collections } }
+      : {};
+
+    return [
+      {
+        $match: {
+          $or: [
+            { ...databaseFilter, ...collectionFilter },
+            // Database-wide events carry no collection
+            { ...databaseFilter, operationType: ChangeOperationType.DROP_DATABASE },
+            { operationType: ChangeOperationType.INVALIDATE },
+          ],
+        },
+      },
+    ];
+  }
+
+  protected async handleChange(change: any): Promise<void> {
+    this.trackInvalidation(change);
+    await super.handleChange(change);
+  }
+
+  protected enqueueChange(change: any): void {
+    this.trackInvalidation(change);
+    super.enqueueChange(change);
+  }
+
+  protected trackInvalidation(change: any): void {
+    if (change.operationType === ChangeOperationType.INVALIDATE) {
+      this.invalidatedToken = change._id;
+    }
+  }
+
+  protected async handleOther(event: CdcChangeEvent): Promise<void> {
+    const namespace = event.ns ? [event.ns.db, event.ns.coll].filter(Boolean).join('.') : '';
+
+    switch (event.operationType) {
+      case ChangeOperationType.RENAME:
+        this.followRename(event);
+        break;
+      case ChangeOperationType.DROP:
+        this.logger.warn(`Collection ${namespace} dropped`);
+        break;
+      case ChangeOperationType.DROP_DATABASE:
+        this.logger.warn(`Database ${namespace} dropped`);
+        break;
+      case ChangeOperationType.INVALIDATE:
+        this.logger.warn(
+          this.cdcOptions.autoReconnect
+            ? 'Change stream invalidated, restarting after the invalidate event'
+            : 'Change stream invalidated',
+        );
+        break;
+      default:
+        await super.handleOther(event);
+    }
+  }
+
+  /**
+   * Move handlers and the collection filter of a renamed collection to its new name
+   */
+  protected followRename(event: CdcChangeEvent): void {
+    const from = event.ns;
+    const to = event.to;
+    if (!from?.coll || !to?.coll) {
+      return;
+    }
+    this.logger.log(`Collection ${from.db}.${from.coll} renamed to ${to.db}.${to.coll}`);
+
+    this.moveCollectionHandlers(from.coll, to.coll);
+    this.moveCollectionHandlers(`${from.db}.${from.coll}`, `${to.db}.${to.coll}`);
+
+    if (this.collections?.includes(from.coll)) {
+      this.collections = this.collections.map((name) => (name === from.coll ? to.coll : name));
+      // Not awaited: stopping waits for the event being processed
+      this.restartStream();
+    }
+  }
+
+  protected moveCollectionHandlers(from: string, to: string): void {
+    const handlers = this.collectionHandlers.get(from);
+    if (!handlers) {
+      return;
+    }
+    this.collectionHandlers.delete(from);
+    handlers.forEach((handler) => this.registerCollectionHandler(to, handler));
+  }
+
+  /**
+   * Reopen the stream from the current position so the namespace filter is rebuilt
+   */
+  protected async restartStream(): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+    if (!this.watching) {
+      return;
+    }
+
+    try {
+      if (this.resumeToken) {
+        this.cdcOptions.resumeAfter = this.resumeToken;
+      }
+      await this.stopWatching();
+      await this.startWatching();
+    } catch (error) {
+      this.logger.error('Failed to restart change stream', error);
+    }
+  }
+
+  protected async notifyHandlers(event: CdcChangeEvent): Promise<void> {
+    await super.notifyHandlers(event);
+    for (const handler of this.getCollectionHandlers(event)) {
+      await this.dispatchToHandler(handler, event);
+    }
+  }
+
+  /**
+   * Get the collection handlers for an event.
+   * A dropped database notifies the handlers of all its collections.
+   */
+  protected getCollectionHandlers(event: CdcChangeEvent): CdcEventHandler[] {
+    const ns = event.ns;
+    if (!ns) {
+      return [];
+    }
+
+    const handlers = new Set<CdcEventHandler>();
+    this.collectionHandlers.forEach((registered, key) => {
+      const matches = ns.coll
+        ? key === ns.coll || key === `${ns.db}.${ns.coll}`
+        : !key.includes('.') || key.startsWith(`${ns.db}.`);
+      if (matches) {
+        registered.forEach((handler) => handlers.add(handler));
+      }
+    });
+    return [...handlers];
+  }
+
+  protected findHandlerByName(name: string): CdcEventHandler | undefined {
+    const handlers = [...this.handlers, ...[...this.collectionHandlers.values()].flat()];
+    return handlers.find((handler) => this.getHandlerName(handler) === name);
+  }
+}
@@ -0,0 +1,253 @@
+import { Logger, OnApplicationBootstrap } from '@nestjs/common';
+import type { Connection, Model } from 'mongoose';
+import { IndexDriftError } from '../errors/index-drift.error';
+import {
+  IndexDescription,
+  IndexDiff,
+  IndexDriftReport,
+  IndexManagerOptions,
+  IndexSyncOptions,
+} from '../interfaces/index-manager.interface';
+import { diffIndexes, toIndexDescription } from '../utils/index-manager.utils';
+
+const NAMESPACE_NOT_FOUND = 26;
+
+/**
+ * Index options `collMod` changes in place, without rebuilding the index
+ */
+const MODIFIABLE_INDEX_OPTIONS = ['expireAfterSeconds', 'hidden'];
+
+/**
+ * Compares the indexes declared in the schemas of a connection's models with the
+ * indexes built on their collections, and applies the differences on request.
+ *
+ * Registered by `MongooseModule` for every connection. Combine it with `autoIndex: false`
+ * to control when indexes are built in production.
+ *
+ * @example
+ * ```typescript
+ * const report = await indexManager.check();
+ * if (report.hasDrift) {
+ *   await indexManager.sync({ dropExtra: true });
+ * }
+ * ```
+ */
+export class IndexManager implements OnApplicationBootstrap {
+  private readonly logger = new Logger(IndexManager.name);
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly connectionName?: string,
+    private readonly options: IndexManagerOptions = {},
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const { checkOnBootstrap, failOnDrift, syncOnBootstrap } = this.options;
+    if (syncOnBootstrap) {
+      await this.sync(typeof syncOnBootstrap === 'object' ? syncOnBootstrap : {});
+    }
+    if (!checkOnBootstrap && !failOnDrift) {
+      return;
+    }
+
+    const report = await this.check();
+    report.diffs.forEach((diff) => this.logger.warn(this.describe(diff)));
+    if (report.hasDrift && failOnDrift) {
+      throw new IndexDriftError(report.diffs);
+    }
+  }
+
+  /**
+   * Get the indexes declared in the schema of a model
+   */
+  getDeclaredIndexes(model: Model<any>): IndexDescription[] {
+    return model.schema.indexes().map(([key, options]) => toIndexDescription(key, options));
+  }
+
+  /**
+   * Get the indexes built on the collection of a model
+   */
+  async getLiveIndexes(model: Model<any>): Promise<IndexDescription[]> {
+    try {
+      const indexes = await model.collection.listIndexes().toArray();
+      return indexes.map(({ key, ...options }) => toIndexDescription(key, options));
+    } catch (error: any) {
+      if (error?.code === NAMESPACE_NOT_FOUND) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the declared and live indexes of the given models (default: every model)
+   */
+  async check(modelNames?: string[]): Promise<IndexDriftReport> {
+    const models = this.getModels(modelNames);
+    const diffs: IndexDiff[] = [];
+
+    for (const model of models) {
+      diffs.push(
+        ...diffIndexes(
+          model.modelName,
+          model.collection.collectionName,
+          this.getDeclaredIndexes(model),
+          await this.getLiveIndexes(model),
+        ),
+      );
+    }
+
+    return { models: models.map((model) => model.modelName), diffs, hasDrift: diffs.length > 0 };
+  }
+
+  /**
+   * Build missing indexes, update changed ones and, with `dropExtra`, drop undeclared ones.
+   * Returns the applied (or, in a dry run, planned) differences.
+   *
+   * TTL and hidden changes are applied in place with `collMod`. Other changes drop the index
+   * before building the new definition, as MongoDB cannot hold both under one name; if the
+   * build fails the old definition is restored. Changed unique indexes are only rebuilt with
+   * `rebuildUnique`, since uniqueness is not enforced while they are rebuilt.
+   */
+  async sync(options: IndexSyncOptions = {}): Promise<IndexDiff[]> {
+    const { diffs } = await this.check(options.models);
+    const applied = diffs.filter((diff) => {
+      if (diff.type === 'extra') {
+        return !!options.dropExtra;
+      }
+      return !this.requiresUniqueRebuild(diff) || !!options.rebuildUnique;
+    });
+
+    diffs
+      .filter((diff) => !applied.includes(diff))
+      .forEach((diff) =>
+        this.requiresUniqueRebuild(diff)
+          ? this.logger.warn(`Keeping ${this.describe(diff)}: pass rebuildUnique to rebuild it`)
+          : this.logger.log(`Keeping ${this.describe(diff)}`),
+      );
+
+    for (const diff of applied) {
+      if (options.dryRun) {
+        this.logger.log(`[dry run] Would fix ${this.describe(diff)}`);
+        continue;
+      }
+
+      const model = this.connection.model(diff.modelName);
+      if (diff.declared && diff.live) {
+        await this.updateIndex(model, diff);
+      } else if (diff.declared) {
+        await this.buildIndex(model, diff.declared);
+      } else if (diff.live) {
+        this.logger.log(`Dropping index ${diff.collectionName}.${diff.live.name}`);
+        await model.collection.dropIndex(diff.live.name);
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Apply a changed index definition, in place when possible
+   */
+  protected async updateIndex(model: Model<any>, diff: IndexDiff): Promise<void> {
+    const declared = diff.declared!;
+    const live = diff.live!;
+    const { collectionName } = model.collection;
+
+    if (this.canModifyInPlace(diff)) {
+      this.logger.log(`Modifying index ${collectionName}.${live.name}`);
+      const index: Record<string, any> = { name: live.name };
+      diff.differences!.forEach((option) => (index[option] = declared.options[option] ?? false));
+      await this.connection.db!.command({ collMod: collectionName, index });
+      return;
+    }
+
+    this.logger.log(`Dropping index ${collectionName}.${live.name} to rebuild it`);
+    await model.collection.dropIndex(live.name);
+    try {
+      await this.buildIndex(model, declared);
+    } catch (error) {
+      this.logger.error(`Failed to rebuild index ${collectionName}.${declared.name}, restoring it`);
+      await this.buildIndex(model, live).catch((restoreError) =>
+        this.logger.error(
+          `Failed to restore index ${collectionName}.${live.name}: ${restoreError?.message}`,
+        ),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Whether `collMod` can apply a changed index. A TTL can be changed, but not added or removed.
+   */
+  private canModifyInPlace(diff: IndexDiff): boolean {
+    return (
+      !!diff.differences?.every((difference) => MODIFIABLE_INDEX_OPTIONS.includes(difference)) &&
+      (!diff.differences.includes('expireAfterSeconds') ||
+        (diff.declared?.options.expireAfterSeconds !== undefined &&
+          diff.live?.options.expireAfterSeconds !== undefined))
+    );
+  }
+
+  private requiresUniqueRebuild(diff: IndexDiff): boolean {
+    const unique = !!(diff.declared?.options.unique || diff.live?.options.unique);
+    return diff.type === 'changed' && unique && !this.canModifyInPlace(diff);
+  }
+
+  /**
+   * Build an index, logging the build progress meanwhile
+   */
+  protected async buildIndex(model: Model<any>, index: IndexDescription): Promise<void> {
+    const { collectionName } = model.collection;
+    this.logger.log(`Building index ${collectionName}.${index.name}`);
+
+    const startedAt = Date.now();
+    const timer = setInterval(
+      () => this.logBuildProgress(collectionName, index.name),
+      this.options.progressIntervalMs || 5000,
+    );
+    timer.unref?.();
+
+    try {
+      await model.collection.createIndex(index.key, {
+        ...index.options,
+        name: index.name,
+        background: true,
+      });
+    } finally {
+      clearInterval(timer);
+    }
+    this.logger.log(`Built index ${collectionName}.${index.name} in ${Date.now() - startedAt}ms`);
+  }
+
+  /**
+   * Log the progress of the running builds on a collection, read from `currentOp`.
+   * Requires the `inprog` privilege; failures are only logged at debug level.
+   */
+  protected async logBuildProgress(collectionName: string, indexName: string): Promise<void> {
+    try {
+      const { inprog } = await this.connection.db!.admin().command({
+        currentOp: true,
+        'command.createIndexes': collectionName,
+      });
+      inprog.forEach((operation: any) => {
+        const progress = operation.progress
+          ? `${operation.progress.done}/${operation.progress.total}`
+          : operation.msg || 'in progress';
+        this.logger.log(`Building index ${collectionName}.${indexName}: ${progress}`);
+      });
+    } catch (error: any) {
+      this.logger.debug(`Cannot read index build progress: ${error?.message}`);
+    }
+  }
+
+  private getModels(modelNames?: string[]): Model<any>[] {
+    return (modelNames || this.connection.modelNames()).map((name) => this.connection.model(name));
+  }
+
+  private describe(diff: IndexDiff): string {
+    const differences = diff.differences ? ` (${diff.differences.join(', ')})` : '';
+    const connection = this.connectionName ? ` on connection ${this.connectionName}` : '';
+    return `${diff.type} index ${diff.collectionName}.${diff.name}${differences}${connection}`;
+  }
+}
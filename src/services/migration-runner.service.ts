@@ -0,0 +1,337 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import type { ClientSession, Connection } from 'mongoose';
+import { MigrationDriftError, MigrationLockError } from '../errors/migration.error';
+import { CdcLeaseStore } from '../interfaces/cdc.interface';
+import {
+  AppliedMigration,
+  MigrationDefinition,
+  MigrationDownOptions,
+  MigrationInterface,
+  MigrationResult,
+  MigrationRunnerOptions,
+  MigrationState,
+  MigrationStatus,
+  MigrationUpOptions,
+} from '../interfaces/migration.interface';
+import { MongoCdcLeaseStore } from './cdc-lease.store';
+import { getServerRole } from '../utils/health.utils';
+import { compareMigrationVersions, toMigrationDefinition } from '../utils/migration.utils';
+import { runWithSession } from '../utils/transaction.utils';
+
+type AppliedMigrationDocument = Omit<AppliedMigration, 'version'> & { _id: string };
+
+/**
+ * Applies and rolls back migrations, recording applied versions in a collection.
+ *
+ * Each script runs in its own transaction together with its record when the server
+ * supports transactions and the migration is transactional. A lease shared by all
+ * instances ensures only one of them migrates at a time.
+ *
+ * @example
+ * ```typescript
+ * const runner = new MigrationRunner(connection, [new AddUserEmailIndex()]);
+ * await runner.up();
+ * ```
+ */
+export class MigrationRunner {
+  private readonly logger = new Logger(MigrationRunner.name);
+  private readonly definitions = new Map<string, MigrationDefinition>();
+  private readonly collectionName: string;
+  private readonly lockStore: CdcLeaseStore;
+  private readonly lockName: string;
+  private readonly lockDurationMs: number;
+  private readonly holderId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  private transactionsSupported?: boolean;
+  private lockLost?: MigrationLockError;
+
+  constructor(
+    private readonly connection: Connection,
+    migrations: MigrationInterface[] = [],
+    options: MigrationRunnerOptions = {},
+  ) {
+    this.collectionName = options.collectionName || 'migrations';
+    this.lockStore = options.lockStore || new MongoCdcLeaseStore(connection, 'migration_locks');
+    this.lockName = options.lockName || this.collectionName;
+    this.lockDurationMs = options.lockDurationMs || 60000;
+    this.register(...migrations);
+  }
+
+  /**
+   * Register migrations decorated with `@Migration()`.
+   * Registering the same class twice is ignored; two classes with one version are rejected.
+   */
+  register(...migrations: MigrationInterface[]): void {
+    migrations.forEach((migration) => {
+      const definition = toMigrationDefinition(migration);
+      const existing = this.definitions.get(definition.version);
+      if (existing?.migration.constructor === migration.constructor) {
+        return;
+      }
+      if (existing) {
+        throw new Error(`Migration version "${definition.version}" is registered more than once`);
+      }
+      this.definitions.set(definition.version, definition);
+    });
+  }
+
+  /**
+   * Get the registered migrations in version order
+   */
+  getMigrations(): MigrationDefinition[] {
+    return [...this.definitions.values()].sort((a, b) =>
+      compareMigrationVersions(a.version, b.version),
+    );
+  }
+
+  /**
+   * Get the state of every registered or applied migration, in version order
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = new Map((await this.getApplied()).map((record) => [record.version, record]));
+
+    const statuses: MigrationStatus[] = this.getMigrations().map((definition) => {
+      const record = applied.get(definition.version);
+      applied.delete(definition.version);
+      let state: MigrationState = 'pending';
+      if (record) {
+        state = record.checksum === definition.checksum ? 'applied' : 'drifted';
+      }
+      return {
+        version: definition.version,
+        description: definition.description,
+        state,
+        appliedAt: record?.appliedAt,
+        checksum: definition.checksum,
+        appliedChecksum: record?.checksum,
+      };
+    });
+
+    applied.forEach((record) => {
+      statuses.push({
+        version: record.version,
+        description: record.description,
+        state: 'missing',
+        appliedAt: record.appliedAt,
+        appliedChecksum: record.checksum,
+      });
+    });
+
+    return statuses.sort((a, b) => compareMigrationVersions(a.version, b.version));
+  }
+
+  /**
+   * Apply pending migrations in version order.
+   * Throws `MigrationDriftError` when applied migrations changed, unless `allowDrift` is set.
+   */
+  async up(options: MigrationUpOptions = {}): Promise<MigrationResult[]> {
+    const run = async () => {
+      const statuses = await this.status();
+      const drifted = statuses.filter((status) => status.state === 'drifted');
+      if (drifted.length && !options.allowDrift) {
+        throw new MigrationDriftError(drifted.map((status) => status.version));
+      }
+
+      const pending = statuses.filter(
+        (status) =>
+          status.state === 'pending' &&
+          (options.to === undefined || compareMigrationVersions(status.version, options.to) <= 0),
+      );
+
+      const results: MigrationResult[] = [];
+      for (const status of pending) {
+        results.push(await this.execute(this.definitions.get(status.version)!, 'up', options));
+      }
+      if (!results.length) {
+        this.logger.log('No pending migrations');
+      }
+      return results;
+    };
+
+    return options.dryRun ? run() : this.withLock(run);
+  }
+
+  /**
+   * Roll back applied migrations in reverse version order: the last one, or every one
+   * applied after `to`. Every target is checked for a `down` script before any runs.
+   */
+  async down(options: MigrationDownOptions = {}): Promise<MigrationResult[]> {
+    const run = async () => {
+      const applied = (await this.status())
+        .filter((status) => status.state !== 'pending')
+        .reverse();
+      const targets =
+        options.to === undefined
+          ? applied.slice(0, 1)
+          : applied.filter((status) => compareMigrationVersions(status.version, options.to!) > 0);
+
+      const definitions = targets.map((status) => {
+        const definition = this.definitions.get(status.version);
+        if (!definition) {
+          throw new Error(`Migration ${status.version} is applied but not registered`);
+        }
+        if (typeof definition.migration.down !== 'function') {
+          throw new Error(`Migration ${status.version} has no down script`);
+        }
+        return definition;
+      });
+
+      const results: MigrationResult[] = [];
+      for (const definition of definitions) {
+        results.push(await this.execute(definition, 'down', options));
+      }
+      if (!results.length) {
+        this.logger.log('No migrations to roll back');
+      }
+      return results;
+    };
+
+    return options.dryRun ? run() : this.withLock(run);
+  }
+
+  /**
+   * Run one script and record or remove its version, in a transaction when possible
+   */
+  protected async execute(
+    definition: MigrationDefinition,
+    direction: 'up' | 'down',
+    options: { dryRun?: boolean },
+  ): Promise<MigrationResult> {
+    const { version, description } = definition;
+    const transactional = definition.transactional && (await this.supportsTransactions());
+    const result: MigrationResult = {
+      version,
+      description,
+      direction,
+      dryRun: !!options.dryRun,
+      transactional,
+      durationMs: 0,
+    };
+
+    const action = direction === 'up' ? 'Applying' : 'Rolling back';
+    if (options.dryRun) {
+      this.logger.log(`[dry run] ${action} migration ${version}: ${description}`);
+      return result;
+    }
+    this.assertLockHeld();
+    this.logger.log(`${action} migration ${version}: ${description}`);
+
+    const run = async (session?: ClientSession) => {
+      const startedAt = Date.now();
+      await definition.migration[direction]!({ connection: this.connection, session });
+      result.durationMs = Date.now() - startedAt;
+      // Abort the transaction instead of recording a run another instance may repeat
+      this.assertLockHeld();
+
+      if (direction === 'up') {
+        await this.collection.updateOne(
+          { _id: version },
+          {
+            $set: {
+              description,
+              checksum: definition.checksum,
+              appliedAt: new Date(),
+              durationMs: result.durationMs,
+            },
+          },
+          { upsert: true, session },
+        );
+      } else {
+        await this.collection.deleteOne({ _id: version }, { session });
+      }
+    };
+
+    if (transactional) {
+      await this.runInTransaction(run);
+    } else {
+      await run();
+    }
+    return result;
+  }
+
+  /**
+   * Run a function in a transaction whose session `BaseRepository` calls join
+   */
+  protected async runInTransaction(fn: (session: ClientSession) => Promise<void>): Promise<void> {
+    const session = await this.connection.startSession();
+    try {
+      await session.withTransaction(() =>
+        runWithSession(this.connection.getClient(), session, () => fn(session)),
+      );
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Transactions require a replica set or sharded cluster
+   */
+  protected async supportsTransactions(): Promise<boolean> {
+    if (this.transactionsSupported === undefined) {
+      if (!this.connection.db) {
+        throw new Error('Connection is not open');
+      }
+      const role = getServerRole(await this.connection.db.command({ hello: 1 }));
+      this.transactionsSupported = role === 'primary' || role === 'mongos';
+    }
+    return this.transactionsSupported;
+  }
+
+  /**
+   * Run a function while holding the migration lock, renewing the lease meanwhile.
+   * When another instance takes the lock over, the next migration step fails with
+   * `MigrationLockError`.
+   */
+  protected async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    if (!(await this.lockStore.acquire(this.lockName, this.holderId, this.lockDurationMs))) {
+      throw new MigrationLockError(this.lockName);
+    }
+    this.lockLost = undefined;
+
+    const timer = setInterval(
+      () => {
+        this.lockStore
+          .acquire(this.lockName, this.holderId, this.lockDurationMs)
+          .then((renewed) => {
+            if (!renewed && !this.lockLost) {
+              this.logger.error(`Migration lock "${this.lockName}" was taken by another instance`);
+              this.lockLost = new MigrationLockError(
+                this.lockName,
+                `Migration lock "${this.lockName}" was lost while migrating`,
+              );
+              clearInterval(timer);
+            }
+          })
+          .catch((error) => this.logger.error('Failed to renew migration lock', error));
+      },
+      Math.floor(this.lockDurationMs / 3),
+    );
+    timer.unref?.();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(timer);
+      await this.lockStore.release(this.lockName, this.holderId);
+    }
+  }
+
+  /**
+   * Fail the run when the lock was lost to another instance
+   */
+  protected assertLockHeld(): void {
+    if (this.lockLost) {
+      throw this.lockLost;
+    }
+  }
+
+  private async getApplied(): Promise<AppliedMigration[]> {
+    const documents = await this.collection.find().toArray();
+    return documents.map(({ _id, ...record }) => ({ version: _id, ...record }));
+  }
+
+  private get collection() {
+    return this.connection.collection<AppliedMigrationDocument>(this.collectionName);
+  }
+}
@@ -0,0 +1,71 @@
+import { Inject, Injectable, Logger, OnApplicationBootstrap, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, ModuleRef } from '@nestjs/core';
+import { MigrationRunner } from './migration-runner.service';
+import { MigrationInterface, MigrationModuleOptions } from '../interfaces/migration.interface';
+import {
+  getMigrationOptions,
+  getMigrationRunnerToken,
+  loadMigrationsFromDirectory,
+} from '../utils/migration.utils';
+
+/**
+ * Injection token of the `MigrationModule` options
+ */
+export const MIGRATION_MODULE_OPTIONS = 'MIGRATION_MODULE_OPTIONS';
+
+/**
+ * Registers the @Migration providers and the migration directories with the
+ * MigrationRunner of the connection, and applies pending migrations on bootstrap if enabled
+ */
+@Injectable()
+export class MigrationExplorer implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(MigrationExplorer.name);
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly moduleRef: ModuleRef,
+    @Inject(MIGRATION_MODULE_OPTIONS) private readonly options: MigrationModuleOptions,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const migrations = this.explore();
+    for (const directory of this.options.directories || []) {
+      migrations.push(...(await loadMigrationsFromDirectory(directory)));
+    }
+
+    this.getRunner().register(...migrations);
+    this.logger.log(`Registered ${migrations.length} migration(s)`);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (this.options.runOnBootstrap) {
+      await this.getRunner().up();
+    }
+  }
+
+  /**
+   * Get the MigrationRunner of the configured connection
+   */
+  getRunner(): MigrationRunner {
+    return this.moduleRef.get(getMigrationRunnerToken(this.options.connectionName), {
+      strict: false,
+    });
+  }
+
+  /**
+   * Collect the singleton providers decorated with @Migration for the configured connection
+   */
+  protected explore(): MigrationInterface[] {
+    return this.discoveryService
+      .getProviders()
+      .filter((wrapper) => {
+        const { instance } = wrapper;
+        if (!instance || typeof instance !== 'object' || !wrapper.isDependencyTreeStatic()) {
+          return false;
+        }
+        const options = getMigrationOptions(instance);
+        return !!options && options.connectionName === this.options.connectionName;
+      })
+      .map(({ instance }) => instance as MigrationInterface);
+  }
+}
@@ -0,0 +1,155 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConnectionStates } from 'mongoose';
+import type { Connection } from 'mongoose';
+import { Observable, Subject } from 'rxjs';
+import {
+  MongoConnectionEvent,
+  MongoConnectionEventType,
+  MongoHealthCheckOptions,
+  MongoHealthDetails,
+  MongoHealthIndicatorResult,
+} from '../interfaces/health.interface';
+import { MongoHealthCheckError } from '../errors/health-check.error';
+import { BaseCdcService } from './base-cdc.service';
+import { getPoolStats, getServerRole } from '../utils/health.utils';
+
+const CONNECTION_EVENTS: MongoConnectionEventType[] = [
+  'connected',
+  'disconnected',
+  'reconnected',
+  'close',
+  'error',
+];
+
+/**
+ * Health of a connection: ping latency, server role, pool statistics and the status
+ * of the CDC services watching through it.
+ *
+ * Registered by `MongooseModule` for every connection. Works on its own or as a
+ * `@nestjs/terminus` indicator, and logs connection lifecycle events.
+ *
+ * @example
+ * ```typescript
+ * @Get('health')
+ * @HealthCheck()
+ * check() {
+ *   return this.health.check([() => this.mongoHealth.isHealthy('mongodb')]);
+ * }
+ * ```
+ */
+export class MongoHealthIndicator implements OnModuleDestroy {
+  private readonly logger = new Logger(MongoHealthIndicator.name);
+  private readonly eventsSubject = new Subject<MongoConnectionEvent>();
+  private readonly listeners = new Map<MongoConnectionEventType, (error?: Error) => void>();
+
+  /**
+   * Connection lifecycle events
+   */
+  readonly events$: Observable<MongoConnectionEvent> = this.eventsSubject.asObservable();
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly connectionName = 'default',
+  ) {
+    CONNECTION_EVENTS.forEach((type) => {
+      const listener = (error?: Error) => this.emitEvent(type, error);
+      this.listeners.set(type, listener);
+      connection.on(type, listener);
+    });
+  }
+
+  /**
+   * Collect the health details of the connection
+   */
+  async check(
+    key = 'mongodb',
+    options: MongoHealthCheckOptions = {},
+  ): Promise<MongoHealthIndicatorResult> {
+    const details: MongoHealthDetails = {
+      status: 'up',
+      connectionName: this.connectionName,
+      readyState: ConnectionStates[this.connection.readyState] ?? 'unknown',
+      cdc: BaseCdcService.getRunningServices(this.connection).map((service) => service.getStatus()),
+    };
+
+    if (this.connection.readyState !== ConnectionStates.connected || !this.connection.db) {
+      return { [key]: { ...details, status: 'down', message: 'Connection is not open' } };
+    }
+
+    try {
+      const started = Date.now();
+      const hello = await this.withTimeout(
+        this.connection.db.command({ hello: 1 }),
+        options.timeoutMs ?? 1000,
+      );
+      details.pingMs = Date.now() - started;
+      details.role = getServerRole(hello);
+      details.setName = hello.setName;
+      details.pool = getPoolStats(this.connection.getClient());
+    } catch (error) {
+      return { [key]: { ...details, status: 'down', message: (error as Error).message } };
+    }
+
+    if (options.requireCdcWatching) {
+      const stalled = details.cdc.filter(
+        (status) => !status.isWatching && ['disabled', 'leader'].includes(status.leaseRole),
+      );
+      if (stalled.length) {
+        const names = stalled.map((status) => status.name).join(', ');
+        return { [key]: { ...details, status: 'down', message: `CDC not watching: ${names}` } };
+      }
+    }
+
+    return { [key]: details };
+  }
+
+  /**
+   * Check the connection and throw `MongoHealthCheckError` when it is down
+   */
+  async isHealthy(
+    key = 'mongodb',
+    options: MongoHealthCheckOptions = {},
+  ): Promise<MongoHealthIndicatorResult> {
+    const result = await this.check(key, options);
+    if (result[key].status === 'down') {
+      throw new MongoHealthCheckError(
+        `MongoDB health check failed: ${result[key].message}`,
+        result,
+      );
+    }
+    return result;
+  }
+
+  private emitEvent(type: MongoConnectionEventType, error?: Error): void {
+    const event: MongoConnectionEvent = {
+      type,
+      connectionName: this.connectionName,
+      timestamp: new Date(),
+      ...(type === 'error' && error && { error }),
+    };
+    const message = { event: `mongodb.${type}`, connection: this.connectionName };
+
+    if (type === 'error') {
+      this.logger.error({ ...message, error: error?.message });
+    } else if (type === 'disconnected' || type === 'close') {
+      this.logger.warn(message);
+    } else {
+      this.logger.log(message);
+    }
+    this.eventsSubject.next(event);
+  }
+
+  private withTimeout<R>(promise: Promise<R>, timeoutMs: number): Promise<R> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Ping timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  onModuleDestroy(): void {
+    this.listeners.forEach((listener, type) => this.connection.off(type, listener));
+    this.listeners.clear();
+    this.eventsSubject.complete();
+  }
+}
@@ -0,0 +1,191 @@
+import { Model } from 'mongoose';
+import { BaseCdcService } from './base-cdc.service';
+import { OutboxRecord } from '../models/outbox.model';
+import { OutboxRepository } from '../repositories/outbox.repository';
+import { computeBackoffDelay } from '../utils/retry.utils';
+import { CdcChangeEvent } from '../interfaces/cdc.interface';
+import {
+  OutboxEnvelope,
+  OutboxPublisher,
+  OutboxRelayOptions,
+  OutboxRetryOptions,
+} from '../interfaces/outbox.interface';
+
+/**
+ * Relays outbox records to an `OutboxPublisher`.
+ *
+ * New records are delivered as soon as their insert shows up on the change stream. A periodic
+ * sweep delivers due retries and records inserted while no relay was running. Each delivery
+ * first claims the record atomically, so the stream, the sweep and other relay instances never
+ * publish it concurrently. Delivery is at-least-once: a record may be published again if the
+ * relay stops between publishing and marking it published, once its claim expires, so consumers
+ * should deduplicate on the envelope id.
+ *
+ * Combine with `checkpoint` and `leaderElection` to run a single relay across replicas.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class OrderOutboxRelay extends OutboxRelayService implements OnModuleInit {
+ *   constructor(
+ *     @InjectModel(OutboxRecord.name) model: Model<OutboxRecord>,
+ *     publisher: KafkaOutboxPublisher,
+ *   ) {
+ *     super(model, publisher, { retry: { maxAttempts: 5 } });
+ *   }
+ *
+ *   async onModuleInit() {
+ *     await this.start();
+ *   }
+ * }
+ * ```
+ */
+export class OutboxRelayService extends BaseCdcService<OutboxRecord> {
+  protected readonly outbox: OutboxRepository;
+  protected readonly relayOptions: OutboxRelayOptions;
+  protected readonly retry: Required<OutboxRetryOptions>;
+  protected sweepTimer?: NodeJS.Timeout;
+  protected sweeping = false;
+
+  constructor(
+    model: Model<OutboxRecord>,
+    protected readonly publisher: OutboxPublisher,
+    options: OutboxRelayOptions = {},
+  ) {
+    super(model, {
+      ...options,
+      pipeline: [{ $match: { operationType: 'insert' } }, ...(options.pipeline || [])],
+    });
+    this.relayOptions = options;
+    this.retry = {
+      maxAttempts: 10,
+      initialDelayMs: 1000,
+      multiplier: 2,
+      maxDelayMs: 60000,
+      ...options.retry,
+    };
+    // The relay delivers the records of every tenant
+    this.outbox = new OutboxRepository(model).withoutTenant();
+  }
+
+  /**
+   * Deliver pending records whose next attempt is due.
+   * Returns the number of records processed.
+   */
+  async processDue(): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    try {
+      const records = await this.outbox.findDue(this.relayOptions.sweepBatchSize || 100);
+      for (const record of records) {
+        await this.deliver(record);
+      }
+      return records.length;
+    } catch (error) {
+      this.logger.error('Failed to process due outbox records', error);
+      return 0;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  protected async startWatching(): Promise<void> {
+    await super.startWatching();
+    this.startSweepTimer();
+  }
+
+  protected async stopWatching(): Promise<void> {
+    this.stopSweepTimer();
+    await super.stopWatching();
+  }
+
+  protected async handleInsert(event: CdcChangeEvent<OutboxRecord>): Promise<void> {
+    if (event.fullDocument) {
+      await this.deliver(event.fullDocument);
+    }
+  }
+
+  /**
+   * Claim a record, publish it and store the outcome.
+   * Records claimed by another delivery are skipped. Publisher failures are retried with
+   * exponential backoff until `maxAttempts`, after which the record is moved to the
+   * dead-letter state.
+   */
+  protected async deliver(record: OutboxRecord): Promise<void> {
+    const id = String(record._id);
+    const claimed = await this.outbox.claim(
+      id,
+      new Date(Date.now() + (this.relayOptions.claimTimeoutMs || 30000)),
+    );
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      await this.publisher.publish(this.toEnvelope(claimed));
+    } catch (error) {
+      await this.handleDeliveryFailure(claimed, error);
+      return;
+    }
+    await this.outbox.markPublished(id);
+  }
+
+  protected async handleDeliveryFailure(record: OutboxRecord, error: unknown): Promise<void> {
+    const id = String(record._id);
+    const attempts = (record.attempts || 0) + 1;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= this.retry.maxAttempts) {
+      this.logger.error(`Outbox record ${id} moved to dead letter after ${attempts} attempts`);
+      await this.outbox.markDeadLetter(id, message);
+      return;
+    }
+
+    const delay = this.getRetryDelay(attempts);
+    this.logger.warn(`Outbox record ${id} delivery failed, retrying in ${delay}ms: ${message}`);
+    await this.outbox.markFailed(id, message, new Date(Date.now() + delay));
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failed deliveries
+   */
+  protected getRetryDelay(attempts: number): number {
+    return computeBackoffDelay(attempts, this.retry);
+  }
+
+  protected toEnvelope(record: OutboxRecord): OutboxEnvelope {
+    return {
+      id: String(record._id),
+      eventType: record.eventType,
+      payload: record.payload,
+      aggregateType: record.aggregateType,
+      aggregateId: record.aggregateId,
+      headers: record.headers,
+      attempts: record.attempts || 0,
+      createdAt: record.createdAt,
+    };
+  }
+
+  protected startSweepTimer(): void {
+    if (this.sweepTimer || !this.watching) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => {
+      this.processDue();
+    }, this.relayOptions.sweepIntervalMs || 5000);
+    this.sweepTimer.unref();
+
+    // Deliver the backlog left while no relay was running
+    this.processDue();
+  }
+
+  protected stopSweepTimer(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
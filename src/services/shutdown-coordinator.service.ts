@@ -0,0 +1,140 @@
+import { BeforeApplicationShutdown, Logger } from '@nestjs/common';
+import type { Connection } from 'mongoose';
+import { ShutdownOptions } from '../interfaces/shutdown.interface';
+import { BaseCdcService } from './base-cdc.service';
+import { closeConnection } from '../utils/connection.utils';
+import {
+  ManagedConnection,
+  getPendingOperationCount,
+  getShutdownConnections,
+  getShutdownOrder,
+  raceTimeout,
+  registerShutdownConnection,
+  unregisterShutdownConnection,
+  waitForPendingOperations,
+} from '../utils/shutdown.utils';
+
+const DEFAULT_DRAIN_TIMEOUT_MS = 10000;
+const DEFAULT_OPERATIONS_TIMEOUT_MS = 10000;
+
+/**
+ * Shuts connections and CDC streams down in order when the application stops.
+ *
+ * Registered by `MongooseModule` for every connection. On shutdown it stops the intake of
+ * every running `BaseCdcService`, drains their in-flight handlers, flushes their checkpoints,
+ * waits for pending `BaseRepository` writes and then closes the connections, each before
+ * the connections it depends on. Requires `app.enableShutdownHooks()` to run on signals.
+ */
+export class ShutdownCoordinator implements BeforeApplicationShutdown {
+  private static shuttingDown?: Promise<void>;
+  private readonly logger = new Logger(ShutdownCoordinator.name);
+
+  constructor(connection: Connection, connectionName = 'default', options: ShutdownOptions = {}) {
+    registerShutdownConnection(connectionName, connection, options);
+  }
+
+  async beforeApplicationShutdown(signal?: string): Promise<void> {
+    await this.shutdown(signal);
+  }
+
+  /**
+   * Shut every registered connection down. Concurrent calls share the same run.
+   */
+  shutdown(signal?: string): Promise<void> {
+    if (!ShutdownCoordinator.shuttingDown) {
+      ShutdownCoordinator.shuttingDown = this.run(signal).finally(() => {
+        ShutdownCoordinator.shuttingDown = undefined;
+      });
+    }
+    return ShutdownCoordinator.shuttingDown;
+  }
+
+  private async run(signal?: string): Promise<void> {
+    const connections = this.getClosingOrder();
+    if (!connections.length) {
+      return;
+    }
+
+    this.logger.log(
+      `Shutting down ${connections.length} connection(s)${signal ? ` on ${signal}` : ''}`,
+    );
+    const services = connections.flatMap((managed) =>
+      BaseCdcService.getRunningServices(managed.connection).map((service) => ({
+        service,
+        name: service.getStatus().name,
+        drainTimeoutMs: managed.options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS,
+      })),
+    );
+
+    this.logger.log(`Stopping intake of ${services.length} CDC service(s)`);
+    await Promise.all(
+      services.map(({ service, name }) =>
+        service.stopIntake().catch((error) => {
+          this.logger.error(`Failed to stop intake of CDC service ${name}`, error);
+        }),
+      ),
+    );
+
+    this.logger.log('Draining in-flight CDC handlers');
+    await Promise.all(
+      services.map(async ({ service, name, drainTimeoutMs }) => {
+        if (!(await service.drain(drainTimeoutMs))) {
+          this.logger.warn(
+            `CDC service ${name} still has handlers running after ${drainTimeoutMs}ms`,
+          );
+        }
+      }),
+    );
+
+    this.logger.log('Flushing CDC checkpoints');
+    await Promise.all(
+      services.map(async ({ service, name, drainTimeoutMs }) => {
+        try {
+          await service.flushCheckpoint();
+          // Handlers still running after the drain timeout must not block the shutdown
+          await raceTimeout(service.stop(), drainTimeoutMs, undefined);
+        } catch (error) {
+          this.logger.error(`Failed to stop CDC service ${name}`, error);
+        }
+      }),
+    );
+
+    this.logger.log('Waiting for pending repository operations');
+    await Promise.all(
+      connections.map(async ({ name, connection, options }) => {
+        const timeoutMs = options.operationsTimeoutMs ?? DEFAULT_OPERATIONS_TIMEOUT_MS;
+        if (!(await waitForPendingOperations(connection, timeoutMs))) {
+          this.logger.warn(
+            `${getPendingOperationCount(connection)} operation(s) on connection "${name}" ` +
+              `still pending after ${timeoutMs}ms`,
+          );
+        }
+      }),
+    );
+
+    this.logger.log(`Closing connections: ${connections.map(({ name }) => name).join(', ')}`);
+    for (const { name, connection } of connections) {
+      try {
+        await closeConnection(connection);
+        this.logger.log(`Connection "${name}" closed`);
+      } catch (error) {
+        this.logger.error(`Failed to close connection "${name}"`, error);
+      }
+      unregisterShutdownConnection(name);
+    }
+
+    this.logger.log('Shutdown complete');
+  }
+
+  /**
+   * Order connections by their dependencies, falling back to registration order on cycles
+   */
+  private getClosingOrder(): ManagedConnection[] {
+    try {
+      return getShutdownOrder();
+    } catch (error) {
+      this.logger.error(`${(error as Error).message}; closing in registration order`);
+      return getShutdownConnections();
+    }
+  }
+}
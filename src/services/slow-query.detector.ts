@@ -0,0 +1,132 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import type { Connection } from 'mongoose';
+import type * as mongodb from 'mongodb';
+import { ExplainReport, SlowQueryOptions, SlowQueryReport } from '../interfaces/explain.interface';
+import {
+  EXPLAINABLE_COMMANDS,
+  describeExplainReport,
+  getCommandCollection,
+  isSlowQueryDetectionEnabled,
+  normalizeExplain,
+  sanitizeCommand,
+} from '../utils/explain.utils';
+
+/**
+ * Logs queries slower than a threshold with their explain report and a suggested index.
+ *
+ * Registered by `MongooseModule` for every connection and active when the `slowQueries`
+ * option is set, outside production by default. Queries are timed through driver command
+ * monitoring, which `MongooseModule` turns on for the connection, and slow ones are
+ * explained again with `executionStats`.
+ *
+ * @example
+ * ```typescript
+ * MongooseModule.forRoot({
+ *   uri: 'mongodb://localhost/app',
+ *   slowQueries: { thresholdMs: 50 },
+ * });
+ * // WARN [SlowQueryDetector] Slow find on app.users (212ms): COLLSCAN, 50000 docs examined,
+ * //   12 returned, suggested index {"status":1,"createdAt":-1} (Collection scan)
+ * ```
+ */
+export class SlowQueryDetector implements OnModuleDestroy {
+  private readonly logger = new Logger(SlowQueryDetector.name);
+  private readonly startedCommands = new Map<number, mongodb.CommandStartedEvent>();
+  private readonly client?: mongodb.MongoClient;
+  private readonly onStarted = (event: mongodb.CommandStartedEvent) => {
+    if (EXPLAINABLE_COMMANDS.includes(event.commandName)) {
+      this.startedCommands.set(event.requestId, event);
+    }
+  };
+  private readonly onSucceeded = (event: mongodb.CommandSucceededEvent) => {
+    const started = this.startedCommands.get(event.requestId);
+    this.startedCommands.delete(event.requestId);
+    if (started && event.duration >= this.thresholdMs) {
+      this.report(started, event.duration).catch((error) =>
+        this.logger.error(`Failed to report a slow ${started.commandName}: ${error.message}`),
+      );
+    }
+  };
+  private readonly onFailed = (event: mongodb.CommandFailedEvent) => {
+    this.startedCommands.delete(event.requestId);
+  };
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly connectionName = 'default',
+    private readonly options: SlowQueryOptions = {},
+  ) {
+    if (!isSlowQueryDetectionEnabled(options)) {
+      return;
+    }
+    this.client = connection.getClient();
+    this.client.on('commandStarted', this.onStarted);
+    this.client.on('commandSucceeded', this.onSucceeded);
+    this.client.on('commandFailed', this.onFailed);
+  }
+
+  private get thresholdMs(): number {
+    return this.options.thresholdMs ?? 100;
+  }
+
+  /**
+   * Whether queries of the connection are being timed
+   */
+  isEnabled(): boolean {
+    return !!this.client;
+  }
+
+  /**
+   * Explain a monitored command with `executionStats`.
+   * Only the first statement of multi-statement updates and deletes is explained.
+   */
+  async explainCommand(databaseName: string, command: Record<string, any>): Promise<ExplainReport> {
+    const explained = sanitizeCommand(command);
+    if (Array.isArray(explained.updates)) {
+      explained.updates = explained.updates.slice(0, 1);
+    }
+    if (Array.isArray(explained.deletes)) {
+      explained.deletes = explained.deletes.slice(0, 1);
+    }
+    const raw = await this.connection
+      .getClient()
+      .db(databaseName)
+      .command({ explain: explained, verbosity: 'executionStats' });
+    return normalizeExplain(raw, explained);
+  }
+
+  private async report(event: mongodb.CommandStartedEvent, durationMs: number): Promise<void> {
+    const command = sanitizeCommand(event.command);
+    const report: SlowQueryReport = {
+      connectionName: this.connectionName,
+      databaseName: event.databaseName,
+      collection: getCommandCollection(command),
+      commandName: event.commandName,
+      durationMs,
+      command,
+    };
+
+    if (this.options.explain !== false) {
+      try {
+        report.explain = await this.explainCommand(event.databaseName, event.command);
+      } catch (error: any) {
+        this.logger.debug(`Could not explain a slow ${event.commandName}: ${error.message}`);
+      }
+    }
+
+    const target = [report.databaseName, report.collection].filter(Boolean).join('.');
+    const details = report.explain ? `: ${describeExplainReport(report.explain)}` : '';
+    this.logger.warn(`Slow ${report.commandName} on ${target} (${durationMs}ms)${details}`);
+    this.options.onSlowQuery?.(report);
+  }
+
+  onModuleDestroy(): void {
+    if (!this.client) {
+      return;
+    }
+    this.client.off('commandStarted', this.onStarted);
+    this.client.off('commandSucceeded', this.onSucceeded);
+    this.client.off('commandFailed', this.onFailed);
+    this.startedCommands.clear();
+  }
+}
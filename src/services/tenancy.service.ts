@@ -0,0 +1,204 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import type { Connection, Model } from 'mongoose';
+import { TenancyOptions, TenantResolver } from '../interfaces/tenancy.interface';
+import { CrossTenantAccessError, TenantNotResolvedError } from '../errors/tenancy.error';
+import { AsyncLocalStorageTenantResolver, isTenantScopeBypassed } from '../utils/tenant.utils';
+
+/**
+ * Multi-tenancy configuration and tenant resolution for a connection.
+ *
+ * Registered by `MongooseModule.forRoot({ tenancy })`. Every `BaseRepository` using the
+ * connection scopes its operations to the resolved tenant, either by injecting the tenant
+ * field into filters, inserts and aggregations (`discriminator`) or by switching to the
+ * tenant's database (`database`).
+ */
+export class TenancyService implements OnModuleDestroy {
+  private static readonly registry = new WeakMap<Connection, TenancyService>();
+  private readonly logger = new Logger(TenancyService.name);
+  private readonly resolver: TenantResolver;
+  readonly tenancyOptions: Required<Omit<TenancyOptions, 'resolver' | 'databaseName'>> &
+    Pick<TenancyOptions, 'databaseName'>;
+
+  constructor(
+    private readonly connection: Connection,
+    options: TenancyOptions,
+  ) {
+    this.tenancyOptions = {
+      tenantField: 'tenantId',
+      required: true,
+      ...options,
+    };
+    this.resolver = options.resolver || new AsyncLocalStorageTenantResolver();
+    TenancyService.registry.set(connection, this);
+  }
+
+  /**
+   * Get the TenancyService configured for a connection, if any
+   */
+  static forConnection(connection?: Connection): TenancyService | undefined {
+    return connection ? TenancyService.registry.get(connection) : undefined;
+  }
+
+  get strategy() {
+    return this.tenancyOptions.strategy;
+  }
+
+  get tenantField(): string {
+    return this.tenancyOptions.tenantField;
+  }
+
+  /**
+   * Resolve the current tenant.
+   * Returns undefined when tenant scoping is bypassed or no tenant is required.
+   * Throws `TenantNotResolvedError` when a tenant is required but cannot be resolved.
+   */
+  getTenantId(): string | undefined {
+    if (isTenantScopeBypassed()) {
+      return undefined;
+    }
+    const tenantId = this.resolver.resolve();
+    if (!tenantId && this.tenancyOptions.required) {
+      throw new TenantNotResolvedError();
+    }
+    return tenantId || undefined;
+  }
+
+  /**
+   * Throw when a value of the tenant field does not belong to the current tenant
+   */
+  assertTenant(tenantId: string, value: unknown): void {
+    if (value !== undefined && String(value) !== tenantId) {
+      throw new CrossTenantAccessError(tenantId, value);
+    }
+  }
+
+  /**
+   * Throw when an update could move documents out of a tenant. The tenant field may only be
+   * set to the tenant itself; any other operator or pipeline stage touching it is rejected.
+   */
+  assertTenantUpdate(tenantId: string, update: Record<string, any> | Record<string, any>[]): void {
+    if (Array.isArray(update)) {
+      update.forEach((stage) => this.assertTenantPipelineStage(tenantId, stage));
+      return;
+    }
+
+    Object.entries(update).forEach(([key, value]) => {
+      if (!key.startsWith('$')) {
+        this.assertTenantFieldValue(tenantId, key, value, 'replace');
+      } else if (key === '$set' || key === '$setOnInsert') {
+        Object.entries(value || {}).forEach(([path, fieldValue]) =>
+          this.assertTenantFieldValue(tenantId, path, fieldValue, key),
+        );
+      } else {
+        Object.entries(value || {}).forEach(([path, target]) => {
+          const renamed = key === '$rename' && typeof target === 'string' ? [target] : [];
+          if ([path, ...renamed].some((field) => this.isTenantPath(field))) {
+            this.rejectTenantUpdate(tenantId, key);
+          }
+        });
+      }
+    });
+  }
+
+  private assertTenantPipelineStage(tenantId: string, stage: Record<string, any>): void {
+    const [operator] = Object.keys(stage);
+    const body = stage[operator];
+    switch (operator) {
+      case '$set':
+      case '$addFields':
+        Object.entries(body).forEach(([path, value]) => {
+          const literal = value && typeof value === 'object' && '$literal' in value;
+          const constant = literal ? value.$literal : value;
+          if (
+            this.isTenantPath(path) &&
+            (typeof constant !== 'string' || (!literal && constant.startsWith('$')))
+          ) {
+            this.rejectTenantUpdate(tenantId, operator);
+          }
+          this.assertTenantFieldValue(tenantId, path, constant, operator);
+        });
+        break;
+      case '$unset':
+        if ([body].flat().some((path: string) => this.isTenantPath(path))) {
+          this.rejectTenantUpdate(tenantId, operator);
+        }
+        break;
+      case '$project': {
+        const included = (value: unknown) => value !== 0 && value !== false;
+        const field = body[this.tenantField];
+        const inclusion = Object.entries(body).some(
+          ([path, value]) => path !== '_id' && included(value),
+        );
+        const keepsField = field === undefined ? !inclusion : field === 1 || field === true;
+        const touchesPath = Object.keys(body).some(
+          (path) => path !== this.tenantField && this.isTenantPath(path),
+        );
+        if (!keepsField || touchesPath) {
+          this.rejectTenantUpdate(tenantId, operator);
+        }
+        break;
+      }
+      default:
+        // $replaceRoot and $replaceWith rebuild the whole document
+        this.rejectTenantUpdate(tenantId, operator);
+    }
+  }
+
+  private assertTenantFieldValue(
+    tenantId: string,
+    path: string,
+    value: unknown,
+    operator: string,
+  ): void {
+    if (path === this.tenantField) {
+      this.assertTenant(tenantId, value);
+    } else if (this.isTenantPath(path)) {
+      this.rejectTenantUpdate(tenantId, operator);
+    }
+  }
+
+  private isTenantPath(path: string): boolean {
+    return path === this.tenantField || path.startsWith(`${this.tenantField}.`);
+  }
+
+  private rejectTenantUpdate(tenantId: string, operator: string): never {
+    throw new CrossTenantAccessError(
+      tenantId,
+      undefined,
+      `Tenant ${tenantId} cannot change the ${this.tenantField} field with ${operator}`,
+    );
+  }
+
+  /**
+   * Get the connection of a tenant's database (database strategy)
+   */
+  getTenantConnection(tenantId: string): Connection {
+    const databaseName = this.tenancyOptions.databaseName
+      ? this.tenancyOptions.databaseName(tenantId)
+      : `${this.connection.name}_${tenantId}`;
+    return this.connection.useDb(databaseName, { useCache: true });
+  }
+
+  /**
+   * Get the counterpart of a model in a tenant's database (database strategy)
+   */
+  getTenantModel<T>(model: Model<T>, tenantId: string): Model<T> {
+    const tenantConnection = this.getTenantConnection(tenantId);
+    const existing = tenantConnection.models[model.modelName] as Model<T> | undefined;
+    if (existing) {
+      return existing;
+    }
+    this.logger.debug(`Registering model ${model.modelName} for tenant ${tenantId}`);
+    return tenantConnection.model<T>(
+      model.modelName,
+      model.schema,
+      model.collection.collectionName,
+    ) as unknown as Model<T>;
+  }
+
+  onModuleDestroy(): void {
+    if (TenancyService.registry.get(this.connection) === this) {
+      TenancyService.registry.delete(this.connection);
+    }
+  }
+}
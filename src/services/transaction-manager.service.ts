@@ -0,0 +1,162 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { getConnectionToken } from '@nestjs/mongoose';
+import type { ClientSession, Connection } from 'mongoose';
+import { TransactionRunOptions } from '../interfaces/transaction.interface';
+import { getTransactionSession, hasErrorLabel, runWithSession } from '../utils/transaction.utils';
+
+const TRANSIENT_TRANSACTION_ERROR = 'TransientTransactionError';
+const UNKNOWN_TRANSACTION_COMMIT_RESULT = 'UnknownTransactionCommitResult';
+
+/**
+ * Runs functions inside MongoDB multi-document transactions.
+ *
+ * The session is propagated through AsyncLocalStorage, so every `BaseRepository`
+ * call made inside the scope joins the transaction without passing the session around.
+ * Nested scopes on the same connection reuse the outer session.
+ *
+ * @example
+ * ```typescript
+ * await transactionManager.run(async () => {
+ *   const order = await orderRepository.create(data);
+ *   await stockRepository.updateMany({ sku: { $in: skus } }, { $inc: { reserved: 1 } });
+ *   return order;
+ * });
+ * ```
+ */
+export class TransactionManager implements OnModuleDestroy {
+  private static readonly registry = new Map<string, TransactionManager>();
+  private readonly logger = new Logger(TransactionManager.name);
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly connectionName?: string,
+  ) {
+    TransactionManager.registry.set(getConnectionToken(connectionName), this);
+  }
+
+  /**
+   * Get the TransactionManager registered for a connection
+   */
+  static forConnection(connectionName?: string): TransactionManager {
+    const manager = TransactionManager.registry.get(getConnectionToken(connectionName));
+    if (!manager) {
+      throw new Error(
+        `No TransactionManager registered for connection "${getConnectionToken(connectionName)}"`,
+      );
+    }
+    return manager;
+  }
+
+  /**
+   * Get the session of the current transaction scope, if any
+   */
+  getSession(): ClientSession | undefined {
+    return getTransactionSession(this.connection);
+  }
+
+  /**
+   * Check if the caller runs inside a transaction scope
+   */
+  isInTransaction(): boolean {
+    return this.getSession() !== undefined;
+  }
+
+  /**
+   * Run a function inside a transaction.
+   * Retries the whole transaction on TransientTransactionError and the commit on
+   * UnknownTransactionCommitResult, up to `maxRetries` times.
+   */
+  async run<R>(
+    fn: (session: ClientSession) => Promise<R>,
+    options: TransactionRunOptions = {},
+  ): Promise<R> {
+    const existingSession = this.getSession();
+    if (existingSession) {
+      return fn(existingSession);
+    }
+
+    const session = await this.connection.startSession();
+    try {
+      return await this.runWithRetry(session, fn, options);
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Execute the transaction, retrying on transient errors
+   */
+  protected async runWithRetry<R>(
+    session: ClientSession,
+    fn: (session: ClientSession) => Promise<R>,
+    options: TransactionRunOptions,
+  ): Promise<R> {
+    const maxRetries = options.maxRetries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      session.startTransaction(options.transactionOptions);
+
+      let result: R;
+      try {
+        result = await runWithSession(this.connection.getClient(), session, () => fn(session));
+      } catch (error) {
+        await this.abort(session);
+        if (hasErrorLabel(error, TRANSIENT_TRANSACTION_ERROR) && attempt < maxRetries) {
+          this.logger.warn(`Transient transaction error, retrying (${attempt + 1}/${maxRetries})`);
+          continue;
+        }
+        throw error;
+      }
+
+      try {
+        await this.commitWithRetry(session, maxRetries);
+        return result;
+      } catch (error) {
+        if (hasErrorLabel(error, TRANSIENT_TRANSACTION_ERROR) && attempt < maxRetries) {
+          this.logger.warn(`Transient commit error, retrying (${attempt + 1}/${maxRetries})`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Commit the transaction, retrying when the commit result is unknown
+   */
+  protected async commitWithRetry(session: ClientSession, maxRetries: number): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await session.commitTransaction();
+        return;
+      } catch (error) {
+        if (hasErrorLabel(error, UNKNOWN_TRANSACTION_COMMIT_RESULT) && attempt < maxRetries) {
+          this.logger.warn(`Unknown commit result, retrying (${attempt + 1}/${maxRetries})`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Abort the transaction if it is still active
+   */
+  protected async abort(session: ClientSession): Promise<void> {
+    if (!session.inTransaction()) {
+      return;
+    }
+    try {
+      await session.abortTransaction();
+    } catch (error) {
+      this.logger.error('Failed to abort transaction', error);
+    }
+  }
+
+  onModuleDestroy(): void {
+    const token = getConnectionToken(this.connectionName);
+    if (TransactionManager.registry.get(token) === this) {
+      TransactionManager.registry.delete(token);
+    }
+  }
+}
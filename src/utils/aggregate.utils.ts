@@ -1,48 +1,73 @@
-import { PipelineStage } from 'mongoose';
+import { Model, PipelineStage } from 'mongoose';
+import {
+  AggregatePipeline,
+  FieldLookupOptions,
+  PipelineLookupOptions,
+  SubPipelineStage,
+  UnionWithOptions,
+} from '../interfaces/aggregate.interface';
+import { BaseRepositoryInterface, PaginationResult } from '../interfaces/base.interface';
+import { ExplainReport, ExplainVerbosity } from '../interfaces/explain.interface';
+import {
+  AtlasSearchOptions,
+  SearchResult,
+  TextSearchOptions,
+} from '../interfaces/search.interface';
+import { buildAtlasSearchStage, buildTextSearchFilter } from './search.utils';
+import { normalizeExplain } from './explain.utils';
+
+const TERMINAL_STAGES = ['$out', '$merge'];
+
+/**
+ * Get the stages of a sub-pipeline given as stages or as a builder
+ */
+function toPipeline<S extends PipelineStage>(pipeline: S[] | { build(): PipelineStage[] }): S[] {
+  return Array.isArray(pipeline) ? pipeline : (pipeline.build() as S[]);
+}
 
 /**
- * Fluent builder for MongoDB aggregation pipelines
+ * Fluent builder for MongoDB aggregation pipelines.
+ * `T` is the type of the documents leaving the pipeline; stages that reshape documents
+ * take the new type as a type argument, e.g. `group<CategoryStats>(...)`.
  */
-export class AggregateBuilder {
+export class AggregateBuilder<T = any> {
   private pipeline: PipelineStage[] = [];
 
   /**
    * Add a $match stage to filter documents
    */
-  match(filter: Record<string, any>): this {
-    this.pipeline.push({ $match: filter });
+  match(filter: PipelineStage.Match['$match']): this {
+    this.push({ $match: filter });
     return this;
   }
 
   /**
    * Add a $group stage to group documents
    */
-  group(groupBy: Record<string, any>): this {
-    this.pipeline.push({ $group: groupBy });
-    return this;
+  group<R = any>(groupBy: PipelineStage.Group['$group']): AggregateBuilder<R> {
+    return this.push<R>({ $group: groupBy });
   }
 
   /**
    * Add a $sort stage to sort documents
    */
-  sort(sortBy: Record<string, 1 | -1>): this {
-    this.pipeline.push({ $sort: sortBy });
+  sort(sortBy: PipelineStage.Sort['$sort']): this {
+    this.push({ $sort: sortBy });
     return this;
   }
 
   /**
    * Add a $project stage to reshape documents
    */
-  project(projection: Record<string, any>): this {
-    this.pipeline.push({ $project: projection });
-    return this;
+  project<R = any>(projection: PipelineStage.Project['$project']): AggregateBuilder<R> {
+    return this.push<R>({ $project: projection });
   }
 
   /**
    * Add a $limit stage to limit number of documents
    */
   limit(count: number): this {
-    this.pipeline.push({ $limit: count });
+    this.push({ $limit: count });
     return this;
   }
 
@@ -50,54 +75,219 @@ export class AggregateBuilder {
    * Add a $skip stage to skip documents
    */
   skip(count: number): this {
-    this.pipeline.push({ $skip: count });
+    this.push({ $skip: count });
     return this;
   }
 
   /**
-   * Add a $lookup stage to perform a join
+   * Add a $lookup stage to perform a join, on equal fields or through a sub-pipeline
    */
-  lookup(options: { from: string; localField: string; foreignField: string; as: string }): this {
-    this.pipeline.push({ $lookup: options });
-    return this;
+  lookup<R = any>(options: FieldLookupOptions | PipelineLookupOptions): AggregateBuilder<R> {
+    if (!('pipeline' in options)) {
+      return this.push<R>({ $lookup: options });
+    }
+    return this.push<R>({
+      $lookup: { ...options, pipeline: toPipeline<SubPipelineStage>(options.pipeline) },
+    });
+  }
+
+  /**
+   * Add a $graphLookup stage to recursively join documents, e.g. to walk a hierarchy
+   */
+  graphLookup<R = any>(options: PipelineStage.GraphLookup['$graphLookup']): AggregateBuilder<R> {
+    return this.push<R>({ $graphLookup: options });
   }
 
   /**
    * Add an $unwind stage to deconstruct arrays
    */
-  unwind(path: string | { path: string; preserveNullAndEmptyArrays?: boolean }): this {
-    this.pipeline.push({ $unwind: path });
-    return this;
+  unwind<R = any>(
+    path:
+      | string
+      | { path: string; includeArrayIndex?: string; preserveNullAndEmptyArrays?: boolean },
+  ): AggregateBuilder<R> {
+    return this.push<R>({ $unwind: path });
   }
 
   /**
    * Add a $count stage to count documents
    */
-  count(fieldName: string): this {
-    this.pipeline.push({ $count: fieldName });
-    return this;
+  count<K extends string>(fieldName: K): AggregateBuilder<Record<K, number>> {
+    return this.push<Record<K, number>>({ $count: fieldName });
   }
 
   /**
    * Add a $addFields stage to add new fields
    */
-  addFields(fields: Record<string, any>): this {
-    this.pipeline.push({ $addFields: fields });
+  addFields<R = any>(fields: PipelineStage.AddFields['$addFields']): AggregateBuilder<R> {
+    return this.push<R>({ $addFields: fields });
+  }
+
+  /**
+   * Add a $facet stage running several sub-pipelines on the same documents
+   */
+  facet<R = any>(
+    facets: Record<string, PipelineStage.FacetPipelineStage[] | AggregateBuilder>,
+  ): AggregateBuilder<R> {
+    const stage: Record<string, PipelineStage.FacetPipelineStage[]> = {};
+    Object.entries(facets).forEach(([name, pipeline]) => {
+      stage[name] = toPipeline<PipelineStage.FacetPipelineStage>(pipeline);
+    });
+    return this.push<R>({ $facet: stage });
+  }
+
+  /**
+   * Add a $bucket stage grouping documents into ranges
+   */
+  bucket<R = any>(options: PipelineStage.Bucket['$bucket']): AggregateBuilder<R> {
+    return this.push<R>({ $bucket: options });
+  }
+
+  /**
+   * Add a $bucketAuto stage grouping documents into evenly distributed ranges
+   */
+  bucketAuto<R = any>(options: PipelineStage.BucketAuto['$bucketAuto']): AggregateBuilder<R> {
+    return this.push<R>({ $bucketAuto: options });
+  }
+
+  /**
+   * Add a $setWindowFields stage computing running totals, ranks or moving averages
+   */
+  setWindowFields<R = any>(
+    options: PipelineStage.SetWindowFields['$setWindowFields'],
+  ): AggregateBuilder<R> {
+    return this.push<R>({ $setWindowFields: options });
+  }
+
+  /**
+   * Add a $unionWith stage appending the documents of another collection
+   */
+  unionWith<R = T>(collection: string | UnionWithOptions): AggregateBuilder<T | R> {
+    if (typeof collection === 'string') {
+      return this.push<T | R>({ $unionWith: collection });
+    }
+    return this.push<T | R>({
+      $unionWith: {
+        coll: collection.coll,
+        ...(collection.pipeline && {
+          pipeline: toPipeline<SubPipelineStage>(collection.pipeline),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Add a $merge stage writing the results into a collection. Must be the last stage.
+   */
+  merge(options: PipelineStage.Merge['$merge']): this {
+    this.push({ $merge: options });
+    return this;
+  }
+
+  /**
+   * Add an $out stage replacing a collection with the results. Must be the last stage.
+   */
+  out(collection: PipelineStage.Out['$out']): this {
+    this.push({ $out: collection });
     return this;
   }
 
+  /**
+   * Paginate the results in one round trip: a $facet computes the page and the total,
+   * producing a single `PaginationResult` document
+   */
+  paginate(page: number, limit: number): AggregateBuilder<PaginationResult<T>> {
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1) {
+      throw new Error('page and limit must be positive integers');
+    }
+    return this.facet({
+      data: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+      total: [{ $count: 'count' }],
+    })
+      .project({
+        data: 1,
+        total: { $ifNull: [{ $arrayElemAt: ['$total.count', 0] }, 0] },
+        page: { $literal: page },
+        limit: { $literal: limit },
+      })
+      .addFields<PaginationResult<T>>({ totalPages: { $ceil: { $divide: ['$total', limit] } } });
+  }
+
+  /**
+   * Add an Atlas Search $search stage and its `searchScore` (and `searchHighlights`).
+   * Must be the first stage of the pipeline.
+   */
+  search(
+    term: string,
+    options: Omit<AtlasSearchOptions, 'strategy'>,
+  ): AggregateBuilder<SearchResult<T>> {
+    this.assertFirstStage('$search');
+    return this.push(buildAtlasSearchStage(term, options)).addFields<SearchResult<T>>({
+      searchScore: { $meta: 'searchScore' },
+      ...(options.highlight && { searchHighlights: { $meta: 'searchHighlights' } }),
+    });
+  }
+
+  /**
+   * Add a $text $match stage and its `searchScore`. Must be the first stage of the pipeline.
+   */
+  textSearch(
+    term: string,
+    options: Omit<TextSearchOptions, 'strategy'> = {},
+  ): AggregateBuilder<SearchResult<T>> {
+    this.assertFirstStage('$text');
+    return this.push({
+      $match: { ...buildTextSearchFilter(term, options), ...options.filter },
+    }).addFields<SearchResult<T>>({ searchScore: { $meta: 'textScore' } });
+  }
+
   /**
    * Add a custom pipeline stage
    */
   addStage(stage: PipelineStage): this {
-    this.pipeline.push(stage);
+    this.push(stage);
     return this;
   }
 
+  /**
+   * Append a stage, retyping the builder to the documents the stage outputs
+   */
+  private push<R = T>(stage: PipelineStage): AggregateBuilder<R> {
+    const last = this.pipeline[this.pipeline.length - 1];
+    if (last && TERMINAL_STAGES.includes(Object.keys(last)[0])) {
+      throw new Error(`${Object.keys(last)[0]} must be the last stage of the pipeline`);
+    }
+    this.pipeline.push(stage);
+    return this as unknown as AggregateBuilder<R>;
+  }
+
+  private assertFirstStage(operator: string): void {
+    if (this.pipeline.length) {
+      throw new Error(`${operator} must be the first stage of the pipeline`);
+    }
+  }
+
+  /**
+   * Explain the pipeline on a model, or through a repository to apply its tenant scope
+   */
+  async explain(
+    target: Model<any> | Pick<BaseRepositoryInterface<any>, 'explainAggregate'>,
+    verbosity: ExplainVerbosity = 'executionStats',
+  ): Promise<ExplainReport> {
+    if ('explainAggregate' in target) {
+      return target.explainAggregate(this.pipeline, verbosity);
+    }
+    const raw = await target.aggregate(this.pipeline).explain(verbosity);
+    return normalizeExplain(raw, {
+      aggregate: target.collection.collectionName,
+      pipeline: this.pipeline,
+    });
+  }
+
   /**
    * Get the built pipeline
    */
-  build(): PipelineStage[] {
+  build(): AggregatePipeline<T> {
     return this.pipeline;
   }
 
@@ -113,6 +303,6 @@ export class AggregateBuilder {
 /**
  * Create a new aggregate builder instance
  */
-export function createAggregateBuilder(): AggregateBuilder {
-  return new AggregateBuilder();
+export function createAggregateBuilder<T = any>(): AggregateBuilder<T> {
+  return new AggregateBuilder<T>();
 }
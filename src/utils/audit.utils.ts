@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { AuditContext, AuditContextProvider } from '../interfaces/audit.interface';
+
+const auditStorage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Run a function with the given actor and correlation id recorded in audit entries
+ */
+export function runWithAuditContext<R>(context: AuditContext, fn: () => R): R {
+  return auditStorage.run({ ...auditStorage.getStore(), ...context }, fn);
+}
+
+/**
+ * Get the audit context of the current async context, if any
+ */
+export function getAuditContext(): AuditContext | undefined {
+  return auditStorage.getStore();
+}
+
+/**
+ * Provide the audit context from the AsyncLocalStorage audit context
+ */
+export class AsyncLocalStorageAuditContextProvider implements AuditContextProvider {
+  getContext(): AuditContext | undefined {
+    return getAuditContext();
+  }
+}
+
+/**
+ * Create a middleware that runs each request in an audit context.
+ * The correlation id is read from a header or generated.
+ * @param options.actor - Resolve the actor from the request, e.g. `(req) => req.user?.id`
+ * @param options.correlationHeader - Header holding the correlation id (default: 'x-request-id')
+ */
+export function createAuditContextMiddleware(
+  options: { actor?: (req: any) => string | undefined; correlationHeader?: string } = {},
+) {
+  const header = (options.correlationHeader || 'x-request-id').toLowerCase();
+  return (req: any, _res: any, next: () => void) => {
+    const value = req.headers?.[header];
+    const correlationId = (Array.isArray(value) ? value[0] : value) || randomUUID();
+    return runWithAuditContext(
+      { actor: options.actor?.(req), correlationId: String(correlationId) },
+      next,
+    );
+  };
+}
@@ -0,0 +1,62 @@
+import { BulkWriteReport } from '../interfaces/bulk.interface';
+import { getValueAtPath } from './cursor.utils';
+
+/**
+ * Split an array into chunks of the given size
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  if (size < 1) {
+    throw new Error('Chunk size must be at least 1');
+  }
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Extract path => message pairs from a Mongoose ValidationError
+ */
+export function extractValidationErrors(error: any): Record<string, string> | undefined {
+  if (!error || !error.errors) {
+    return undefined;
+  }
+  const validationErrors: Record<string, string> = {};
+  Object.entries(error.errors).forEach(([path, err]: [string, any]) => {
+    validationErrors[path] = err.message;
+  });
+  return validationErrors;
+}
+
+/**
+ * Pick the given (possibly nested) fields of an object
+ */
+export function pickFields(data: Record<string, any>, fields: string[]): Record<string, any> {
+  const picked: Record<string, any> = {};
+  fields.forEach((field) => {
+    const value = getValueAtPath(data, field);
+    if (value !== undefined) {
+      picked[field] = value;
+    }
+  });
+  return picked;
+}
+
+/**
+ * Create an empty bulk write report
+ */
+export function createBulkWriteReport(): BulkWriteReport {
+  return {
+    insertedCount: 0,
+    upsertedCount: 0,
+    matchedCount: 0,
+    modifiedCount: 0,
+    deletedCount: 0,
+    failedCount: 0,
+    insertedIds: [],
+    upsertedIds: [],
+    failed: [],
+    items: [],
+  };
+}
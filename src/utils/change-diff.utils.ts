@@ -0,0 +1,85 @@
+import { isDeepStrictEqual } from 'util';
+import { CdcChangeEvent, CdcFieldChange, ChangeOperationType } from '../interfaces/cdc.interface';
+import { getValueAtPath } from './cursor.utils';
+
+/**
+ * Compute the field changes of an update event from its update description.
+ * Old values are read from the pre-image when available.
+ */
+export function computeUpdateDiff(event: CdcChangeEvent): CdcFieldChange[] {
+  const before = event.fullDocumentBeforeChange;
+  const description = event.updateDescription || {};
+  const changes: CdcFieldChange[] = [];
+
+  Object.entries(description.updatedFields || {}).forEach(([path, newValue]) => {
+    changes.push({ path, kind: 'set', oldValue: readPath(before, path), newValue });
+  });
+
+  (description.removedFields || []).forEach((path) => {
+    changes.push({ path, kind: 'unset', oldValue: readPath(before, path) });
+  });
+
+  (description.truncatedArrays || []).forEach(({ field, newSize }) => {
+    const oldValue = readPath(before, field);
+    const newValue = event.fullDocument
+      ? readPath(event.fullDocument, field)
+      : Array.isArray(oldValue)
+        ? oldValue.slice(0, newSize)
+        : undefined;
+    changes.push({ path: field, kind: 'truncated', oldValue, newValue });
+  });
+
+  return changes;
+}
+
+/**
+ * Compute the field changes between two versions of a document, down to nested paths
+ */
+export function diffDocuments(before: any, after: any, prefix = ''): CdcFieldChange[] {
+  const changes: CdcFieldChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  keys.forEach((key) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const oldValue = before?.[key];
+    const newValue = after?.[key];
+
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      changes.push(...diffDocuments(oldValue, newValue, path));
+    } else if (newValue === undefined && oldValue !== undefined) {
+      changes.push({ path, kind: 'unset', oldValue });
+    } else if (!isDeepStrictEqual(oldValue, newValue)) {
+      changes.push({ path, kind: 'set', oldValue, newValue });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compute the diff of a change event: from the update description for updates, and from
+ * the pre- and post-images for replaces. Returns undefined for other events.
+ */
+export function computeChangeDiff(event: CdcChangeEvent): CdcFieldChange[] | undefined {
+  if (event.operationType === ChangeOperationType.UPDATE) {
+    return computeUpdateDiff(event);
+  }
+  if (
+    event.operationType === ChangeOperationType.REPLACE &&
+    event.fullDocumentBeforeChange &&
+    event.fullDocument
+  ) {
+    return diffDocuments(event.fullDocumentBeforeChange, event.fullDocument);
+  }
+  return undefined;
+}
+
+function readPath(doc: any, path: string): any {
+  return doc ? getValueAtPath(doc, path) : undefined;
+}
+
+function isPlainObject(value: any): boolean {
+  return (
+    value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  CdcChangeEvent,
+  CdcListenerMetadata,
+  ChangeOperationType,
+} from '../interfaces/cdc.interface';
+
+type ListenerFilter = Pick<CdcListenerMetadata, 'operations' | 'fields'>;
+
+/**
+ * Check if a changed path touches one of the given fields: the field itself,
+ * a path nested under it or a parent object containing it
+ */
+export function isFieldChanged(path: string, fields: string[]): boolean {
+  return fields.some(
+    (field) => path === field || path.startsWith(`${field}.`) || field.startsWith(`${path}.`),
+  );
+}
+
+/**
+ * Check if a change event matches a listener's operations and fields.
+ * Field filters only apply to update events.
+ */
+export function matchesChangeListener(listener: ListenerFilter, event: CdcChangeEvent): boolean {
+  if (!listener.operations.includes(event.operationType)) {
+    return false;
+  }
+  if (!listener.fields?.length || event.operationType !== ChangeOperationType.UPDATE) {
+    return true;
+  }
+
+  const paths = [
+    ...Object.keys(event.updateDescription?.updatedFields || {}),
+    ...(event.updateDescription?.removedFields || []),
+  ];
+  return paths.some((path) => isFieldChanged(path, listener.fields!));
+}
+
+/**
+ * Build a change stream `$match` stage condition selecting the events any of the listeners
+ * wants. Field filters are evaluated server-side with the same semantics as `isFieldChanged`.
+ */
+export function buildChangeListenerMatch(listeners: ListenerFilter[]): Record<string, any> {
+  const unfiltered = new Set<ChangeOperationType>();
+  const updateFields = new Set<string>();
+
+  listeners.forEach((listener) => {
+    listener.operations.forEach((operation) => {
+      if (operation === ChangeOperationType.UPDATE && listener.fields?.length) {
+        listener.fields.forEach((field) => updateFields.add(field));
+      } else {
+        unfiltered.add(operation);
+      }
+    });
+  });
+
+  const clauses: Record<string, any>[] = [];
+  if (unfiltered.size) {
+    clauses.push({ operationType: { $in: [...unfiltered] } });
+  }
+  // An unfiltered update listener already receives every update
+  if (updateFields.size && !unfiltered.has(ChangeOperationType.UPDATE)) {
+    clauses.push({
+      operationType: ChangeOperationType.UPDATE,
+      $expr: buildChangedFieldsExpression([...updateFields]),
+    });
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $or: clauses };
+}
+
+function buildChangedFieldsExpression(fields: string[]): Record<string, any> {
+  const pathMatches = (path: string) => ({
+    $or: fields.flatMap((field) => [
+      { $eq: [path, field] },
+      { $eq: [{ $indexOfCP: [path, `${field}.`] }, 0] },
+      { $eq: [{ $indexOfCP: [field, { $concat: [path, '.'] }] }, 0] },
+    ]),
+  });
+
+  return {
+    $or: [
+      {
+        $anyElementTrue: [
+          {
+            $map: {
+              input: { $objectToArray: { $ifNull: ['$updateDescription.updatedFields', {}] } },
+              as: 'updated',
+              in: pathMatches('$$updated.k'),
+            },
+          },
+        ],
+      },
+      {
+        $anyElementTrue: [
+          {
+            $map: {
+              input: { $ifNull: ['$updateDescription.removedFields', []] },
+              as: 'removed',
+              in: pathMatches('$$removed'),
+            },
+          },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,36 @@
+import type { Connection, Model } from 'mongoose';
+import { CdcStreamSource, ConnectionCdcScope } from '../interfaces/cdc.interface';
+
+/**
+ * Whether a value is a `CdcStreamSource` rather than a model
+ */
+export function isCdcStreamSource(value: unknown): value is CdcStreamSource {
+  return typeof (value as CdcStreamSource)?.getConnection === 'function';
+}
+
+/**
+ * Stream source watching the collection of a model
+ */
+export function createModelStreamSource(model: Model<any>): CdcStreamSource {
+  return {
+    watch: (pipeline, options) => model.watch(pipeline, options),
+    getConnection: () => model.db,
+    getCollectionName: () => model.collection.collectionName,
+  };
+}
+
+/**
+ * Stream source watching the database of a connection, or its whole cluster
+ */
+export function createConnectionStreamSource(
+  connection: Connection,
+  scope: ConnectionCdcScope = 'database',
+): CdcStreamSource {
+  return {
+    watch: (pipeline, options) =>
+      scope === 'cluster'
+        ? connection.getClient().watch(pipeline, options)
+        : connection.watch(pipeline, options),
+    getConnection: () => connection,
+  };
+}
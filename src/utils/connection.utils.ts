@@ -71,3 +71,20 @@ export async function closeConnection(connection: mongoose.Connection): Promise<
     await connection.close();
   }
 }
+
+/**
+ * Enable or disable change stream pre- and post-images on a collection (MongoDB 6.0+)
+ */
+export async function setChangeStreamPreAndPostImages(
+  connection: mongoose.Connection,
+  collectionName: string,
+  enabled = true,
+): Promise<void> {
+  if (!connection.db) {
+    throw new Error('Connection is not open');
+  }
+  await connection.db.command({
+    collMod: collectionName,
+    changeStreamPreAndPostImages: { enabled },
+  });
+}
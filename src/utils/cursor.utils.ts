@@ -0,0 +1,122 @@
+import { FilterQuery, mongo } from 'mongoose';
+
+/**
+ * Decoded cursor payload: the sort field values of the boundary document
+ */
+export interface CursorPayload {
+  [field: string]: any;
+}
+
+/**
+ * Normalize a sort specification for keyset pagination.
+ * `_id` is appended as a tiebreaker so every position in the result set is unique.
+ */
+export function normalizeCursorSort(sort: Record<string, 1 | -1> = {}): Record<string, 1 | -1> {
+  const normalized: Record<string, 1 | -1> = { ...sort };
+  if (normalized._id === undefined) {
+    const directions = Object.values(sort);
+    normalized._id = directions.length ? directions[directions.length - 1] : 1;
+  }
+  return normalized;
+}
+
+/**
+ * Invert every direction of a sort specification
+ */
+export function invertSort(sort: Record<string, 1 | -1>): Record<string, 1 | -1> {
+  const inverted: Record<string, 1 | -1> = {};
+  Object.entries(sort).forEach(([field, direction]) => {
+    inverted[field] = direction === 1 ? -1 : 1;
+  });
+  return inverted;
+}
+
+/**
+ * Read a (possibly nested) field value from a plain object or Mongoose document
+ */
+export function getValueAtPath(doc: any, path: string): any {
+  if (doc && typeof doc.get === 'function') {
+    return doc.get(path);
+  }
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+}
+
+/**
+ * Encode the sort key values of a document into an opaque cursor string
+ */
+export function encodeCursor(doc: any, sort: Record<string, 1 | -1>): string {
+  const payload: CursorPayload = {};
+  Object.keys(sort).forEach((field) => {
+    payload[field] = getValueAtPath(doc, field) ?? null;
+  });
+  const json = mongo.BSON.EJSON.stringify(payload, { relaxed: false });
+  return Buffer.from(json, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor string produced by `encodeCursor`.
+ * Throws when the cursor is malformed or was built for a different sort.
+ */
+export function decodeCursor(cursor: string, sort: Record<string, 1 | -1>): CursorPayload {
+  let payload: CursorPayload;
+  try {
+    const json = Buffer.from(cursor, 'base64url').toString('utf8');
+    payload = mongo.BSON.EJSON.parse(json, { relaxed: false });
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  const expected = Object.keys(sort);
+  const actual = payload && typeof payload === 'object' ? Object.keys(payload) : [];
+  if (expected.length !== actual.length || expected.some((field, i) => field !== actual[i])) {
+    throw new Error('Pagination cursor does not match the requested sort');
+  }
+
+  return payload;
+}
+
+/**
+ * Build a keyset filter selecting documents positioned after the cursor in the given sort order.
+ * Example: sort { age: -1, _id: -1 } =>
+ * { $or: [{ age: { $lt: v1 } }, { age: null }, { age: v1, _id: { $lt: v2 } }] }
+ *
+ * Null and missing values sort before every other value, as in MongoDB, so they are selected
+ * after a non-null value in descending order and every non-null value follows a null one in
+ * ascending order. With `inclusive` the cursor position itself is selected too.
+ */
+export function buildCursorQuery<T>(
+  sort: Record<string, 1 | -1>,
+  payload: CursorPayload,
+  inclusive = false,
+): FilterQuery<T> {
+  const fields = Object.keys(sort);
+  const branches: Record<string, any>[] = [];
+
+  fields.forEach((field, index) => {
+    const prefix: Record<string, any> = {};
+    fields.slice(0, index).forEach((previous) => {
+      prefix[previous] = payload[previous];
+    });
+    getConditionsAfter(payload[field], sort[field]).forEach((condition) =>
+      branches.push({ ...prefix, [field]: condition }),
+    );
+  });
+  if (inclusive) {
+    branches.push(Object.fromEntries(fields.map((field) => [field, payload[field]])));
+  }
+
+  if (!branches.length) {
+    return { _id: { $in: [] } } as FilterQuery<T>;
+  }
+  return (branches.length === 1 ? branches[0] : { $or: branches }) as FilterQuery<T>;
+}
+
+/**
+ * Conditions on one field selecting the values positioned after `value` in a sort direction
+ */
+function getConditionsAfter(value: any, direction: 1 | -1): any[] {
+  if (value === null) {
+    return direction === 1 ? [{ $ne: null }] : [];
+  }
+  return direction === 1 ? [{ $gt: value }] : [{ $lt: value }, null];
+}
@@ -0,0 +1,333 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import {
+  ExplainReport,
+  ExplainStage,
+  IndexSuggestion,
+  SlowQueryOptions,
+} from '../interfaces/explain.interface';
+
+/**
+ * Commands the slow query detector times and explains
+ */
+export const EXPLAINABLE_COMMANDS = [
+  'find',
+  'aggregate',
+  'count',
+  'distinct',
+  'update',
+  'delete',
+  'findAndModify',
+];
+
+/**
+ * Command fields tied to the session or transaction of the original command
+ */
+const SESSION_COMMAND_FIELDS = [
+  'lsid',
+  'txnNumber',
+  'autocommit',
+  'startTransaction',
+  'readConcern',
+  'writeConcern',
+];
+
+/**
+ * Conditions that select a single value of a field, matched first in an index (ESR rule)
+ */
+const EQUALITY_OPERATORS = ['$eq', '$in'];
+
+/**
+ * Get the injection token of the SlowQueryDetector of a connection
+ */
+export function getSlowQueryDetectorToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}SlowQueryDetector`;
+}
+
+/**
+ * Whether slow query detection is configured and enabled for the current environment
+ */
+export function isSlowQueryDetectionEnabled(options?: SlowQueryOptions): boolean {
+  if (!options) {
+    return false;
+  }
+  return options.enabled ?? process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Remove the session, transaction and cluster fields of a monitored command
+ */
+export function sanitizeCommand(command: Record<string, any>): Record<string, any> {
+  const sanitized: Record<string, any> = {};
+  Object.entries(command).forEach(([key, value]) => {
+    if (!key.startsWith('$') && !SESSION_COMMAND_FIELDS.includes(key)) {
+      sanitized[key] = value;
+    }
+  });
+  return sanitized;
+}
+
+/**
+ * Get the collection a command runs on, e.g. 'users' for `{ find: 'users', ... }`
+ */
+export function getCommandCollection(command: Record<string, any>): string | undefined {
+  const value = command[Object.keys(command)[0]];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Get the filter and sort an index could serve for a command.
+ * For aggregations, the leading $match stages and the $sort that follows them.
+ */
+export function getQueryShape(command: Record<string, any> = {}): {
+  filter: Record<string, any>;
+  sort?: Record<string, any>;
+} {
+  if (Array.isArray(command.pipeline)) {
+    const filters: Record<string, any>[] = [];
+    let sort: Record<string, any> | undefined;
+    for (const stage of command.pipeline) {
+      if (stage.$match) {
+        filters.push(stage.$match);
+        continue;
+      }
+      if (stage.$sort) {
+        sort = stage.$sort;
+      }
+      break;
+    }
+    return { filter: filters.length > 1 ? { $and: filters } : filters[0] || {}, sort };
+  }
+  if (Array.isArray(command.updates)) {
+    return { filter: command.updates[0]?.q || {} };
+  }
+  if (Array.isArray(command.deletes)) {
+    return { filter: command.deletes[0]?.q || {} };
+  }
+  return { filter: command.filter || command.query || {}, sort: command.sort };
+}
+
+function isOperatorObject(value: unknown): value is Record<string, any> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+}
+
+/**
+ * Build an index key for a filter and sort following the ESR rule:
+ * equality fields, then sort fields, then range fields
+ */
+export function buildSuggestedIndexKey(
+  filter: Record<string, any>,
+  sort: Record<string, any> = {},
+): Record<string, 1 | -1> {
+  const equality: string[] = [];
+  const range: string[] = [];
+  const visit = (conditions: Record<string, any>) => {
+    Object.entries(conditions).forEach(([field, condition]) => {
+      if (field === '$and' && Array.isArray(condition)) {
+        condition.forEach(visit);
+        return;
+      }
+      if (field.startsWith('$')) {
+        return;
+      }
+      const isRange =
+        isOperatorObject(condition) &&
+        Object.keys(condition).some((operator) => !EQUALITY_OPERATORS.includes(operator));
+      (isRange ? range : equality).push(field);
+    });
+  };
+  visit(filter);
+
+  const key: Record<string, 1 | -1> = {};
+  equality.forEach((field) => (key[field] = 1));
+  Object.entries(sort).forEach(([field, direction]) => {
+    if (!(field in key) && (direction === 1 || direction === -1)) {
+      key[field] = direction;
+    }
+  });
+  range.filter((field) => !(field in key)).forEach((field) => (key[field] = 1));
+  return key;
+}
+
+/**
+ * Suggest an index for a command whose plan scans the collection or sorts in memory
+ */
+export function suggestIndexes(
+  command: Record<string, any> | undefined,
+  report: Pick<ExplainReport, 'collectionScan' | 'inMemorySort'>,
+): IndexSuggestion[] {
+  if (!command || (!report.collectionScan && !report.inMemorySort)) {
+    return [];
+  }
+  const { filter, sort } = getQueryShape(command);
+  const key = buildSuggestedIndexKey(filter, sort);
+  if (!Object.keys(key).length || (Object.keys(key).length === 1 && key._id)) {
+    return [];
+  }
+
+  const reasons = [
+    ...(report.collectionScan ? ['collection scan'] : []),
+    ...(report.inMemorySort ? ['in-memory sort'] : []),
+  ];
+  const reason = reasons.join(' and ');
+  return [
+    {
+      collection: getCommandCollection(command),
+      key,
+      reason: reason.charAt(0).toUpperCase() + reason.slice(1),
+    },
+  ];
+}
+
+function compact<T extends Record<string, any>>(value: T): T {
+  Object.keys(value).forEach((key) => value[key] === undefined && delete value[key]);
+  return value;
+}
+
+/**
+ * Flatten a plan tree, root first. Handles classic, slot-based and sharded plans.
+ */
+function collectPlanStages(plan: any, stages: ExplainStage[]): ExplainStage[] {
+  const node = plan?.queryPlan ?? plan;
+  if (!node || typeof node !== 'object') {
+    return stages;
+  }
+  if (typeof node.stage === 'string') {
+    stages.push(
+      compact({
+        stage: node.stage,
+        indexName: node.indexName,
+        keyPattern: node.keyPattern,
+        returned: node.nReturned,
+        docsExamined: node.docsExamined,
+        keysExamined: node.keysExamined,
+        executionTimeMs: node.executionTimeMillisEstimate,
+      }),
+    );
+  }
+  const children = [node.inputStage, ...(node.inputStages || []), ...(node.shards || [])];
+  children.forEach((child) =>
+    collectPlanStages(child?.executionStages ?? child?.winningPlan ?? child, stages),
+  );
+  return stages;
+}
+
+/**
+ * Get the parts of an explain output holding a query plan: the output itself for queries,
+ * the $cursor stage for aggregations, and one of those per shard
+ */
+function getPlanSections(raw: Record<string, any>): Record<string, any>[] {
+  if (raw.queryPlanner) {
+    return [raw];
+  }
+  if (Array.isArray(raw.stages)) {
+    return raw.stages.filter((stage: any) => stage.$cursor).map((stage: any) => stage.$cursor);
+  }
+  if (raw.shards && typeof raw.shards === 'object') {
+    return Object.values(raw.shards).flatMap((shard: any) => getPlanSections(shard));
+  }
+  return [];
+}
+
+/**
+ * Get the stages of an aggregation that ran after the query plan, with their statistics
+ */
+function getPipelineStages(raw: Record<string, any>): ExplainStage[] {
+  const stages = Array.isArray(raw.stages)
+    ? raw.stages
+    : Object.values(raw.shards || {}).flatMap((shard: any) => shard.stages || []);
+  return stages
+    .filter((stage: any) => !stage.$cursor)
+    .map((stage: any) =>
+      compact({
+        stage: Object.keys(stage).find((key) => key.startsWith('$')) || 'unknown',
+        returned: stage.nReturned,
+        executionTimeMs: stage.executionTimeMillisEstimate,
+      }),
+    );
+}
+
+function sum(values: (number | undefined)[]): number | undefined {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  return numbers.length ? numbers.reduce((total, value) => total + value, 0) : undefined;
+}
+
+/**
+ * Normalize the explain output of a find, an aggregation or another command.
+ * Index suggestions are built from the explained command, taken from the output by default.
+ */
+export function normalizeExplain(
+  raw: Record<string, any>,
+  command: Record<string, any> | undefined = raw.command,
+): ExplainReport {
+  const sections = getPlanSections(raw);
+  const winningPlan = sections.flatMap((section) =>
+    collectPlanStages(section.queryPlanner?.winningPlan, []).map(({ stage }) => stage),
+  );
+  const planStages = sections.flatMap((section) =>
+    collectPlanStages(
+      section.executionStats?.executionStages ?? section.queryPlanner?.winningPlan,
+      [],
+    ),
+  );
+  const pipelineStages = getPipelineStages(raw);
+  const stats = sections.map((section) => section.executionStats || {});
+  const lastStage = pipelineStages[pipelineStages.length - 1];
+
+  const indexesUsed = [
+    ...new Set(
+      planStages.map(({ indexName }) => indexName).filter((name): name is string => !!name),
+    ),
+  ];
+  const collectionScan = planStages.some(({ stage }) => stage === 'COLLSCAN');
+  const inMemorySort =
+    planStages.some(({ stage }) => stage === 'SORT') ||
+    pipelineStages.some(({ stage }) => stage === '$sort');
+
+  const executionTimes = [
+    ...stats.map((stat) => stat.executionTimeMillis),
+    lastStage?.executionTimeMs,
+  ].filter((value): value is number => typeof value === 'number');
+
+  return compact({
+    namespace: sections[0]?.queryPlanner?.namespace,
+    winningPlan,
+    stages: [...planStages, ...pipelineStages],
+    indexesUsed,
+    usedIndex: indexesUsed.length > 0,
+    collectionScan,
+    inMemorySort,
+    docsExamined: sum(stats.map((stat) => stat.totalDocsExamined)),
+    keysExamined: sum(stats.map((stat) => stat.totalKeysExamined)),
+    returned: lastStage?.returned ?? sum(stats.map((stat) => stat.nReturned)),
+    executionTimeMs: executionTimes.length ? Math.max(...executionTimes) : undefined,
+    suggestedIndexes: suggestIndexes(command, { collectionScan, inMemorySort }),
+    raw,
+  });
+}
+
+/**
+ * Describe an explain report in one line, e.g. for logs
+ */
+export function describeExplainReport(report: ExplainReport): string {
+  const parts = [report.winningPlan.join(' > ') || 'unknown plan'];
+  if (report.indexesUsed.length) {
+    parts.push(`indexes: ${report.indexesUsed.join(', ')}`);
+  }
+  if (report.docsExamined !== undefined) {
+    parts.push(`${report.docsExamined} docs examined`);
+  }
+  if (report.keysExamined !== undefined) {
+    parts.push(`${report.keysExamined} keys examined`);
+  }
+  if (report.returned !== undefined) {
+    parts.push(`${report.returned} returned`);
+  }
+  report.suggestedIndexes.forEach(({ key, reason }) =>
+    parts.push(`suggested index ${JSON.stringify(key)} (${reason})`),
+  );
+  return parts.join(', ');
+}
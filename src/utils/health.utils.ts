@@ -0,0 +1,59 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import { MongoPoolStats, MongoServerRole } from '../interfaces/health.interface';
+
+/**
+ * Get the injection token of the MongoHealthIndicator for a connection
+ */
+export function getMongoHealthIndicatorToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}HealthIndicator`;
+}
+
+/**
+ * Derive the server role from a `hello` command response
+ */
+export function getServerRole(hello: Record<string, any>): MongoServerRole {
+  if (hello.msg === 'isdbgrid') {
+    return 'mongos';
+  }
+  if (hello.arbiterOnly) {
+    return 'arbiter';
+  }
+  if (!hello.setName) {
+    return hello.isWritablePrimary || hello.ismaster ? 'standalone' : 'unknown';
+  }
+  if (hello.isWritablePrimary || hello.ismaster) {
+    return 'primary';
+  }
+  return hello.secondary ? 'secondary' : 'unknown';
+}
+
+/**
+ * Sum the connection pool statistics of a MongoClient's servers.
+ * Reads driver internals, so returns undefined when they are not available.
+ */
+export function getPoolStats(client: any): MongoPoolStats | undefined {
+  const servers: Map<string, any> | undefined = client?.topology?.s?.servers;
+  if (!servers) {
+    return undefined;
+  }
+
+  const stats: MongoPoolStats = {
+    totalConnections: 0,
+    availableConnections: 0,
+    pendingConnections: 0,
+    checkedOutConnections: 0,
+    waitQueueSize: 0,
+    maxPoolSize: client.options?.maxPoolSize,
+  };
+  servers.forEach(({ pool }) => {
+    if (!pool) {
+      return;
+    }
+    stats.totalConnections += pool.totalConnectionCount ?? 0;
+    stats.availableConnections += pool.availableConnectionCount ?? 0;
+    stats.pendingConnections += pool.pendingConnectionCount ?? 0;
+    stats.checkedOutConnections += pool.currentCheckedOutCount ?? 0;
+    stats.waitQueueSize += pool.waitQueueSize ?? 0;
+  });
+  return stats;
+}
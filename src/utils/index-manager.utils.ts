@@ -0,0 +1,168 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import { isDeepStrictEqual } from 'util';
+import { IndexDescription, IndexDiff } from '../interfaces/index-manager.interface';
+
+/**
+ * Options that define an index. Others (background, v, ns, ...) do not change what is built.
+ */
+const DEFINING_INDEX_OPTIONS = [
+  'unique',
+  'sparse',
+  'partialFilterExpression',
+  'expireAfterSeconds',
+  'collation',
+  'weights',
+  'default_language',
+  'language_override',
+  'wildcardProjection',
+  'hidden',
+];
+
+/**
+ * Get the injection token of the IndexManager of a connection
+ */
+export function getIndexManagerToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}IndexManager`;
+}
+
+/**
+ * Build the name MongoDB gives an index without an explicit name, e.g. `email_1_createdAt_-1`
+ */
+export function getDefaultIndexName(key: Record<string, any>): string {
+  return Object.entries(key)
+    .map(([field, type]) => `${field}_${type}`)
+    .join('_');
+}
+
+/**
+ * Describe an index from its key and options, keeping only the defining options.
+ * `false` boolean options are dropped, as MongoDB does not report them.
+ */
+export function toIndexDescription(
+  key: Record<string, any>,
+  options: Record<string, any> = {},
+): IndexDescription {
+  const definingOptions: Record<string, any> = {};
+  DEFINING_INDEX_OPTIONS.forEach((option) => {
+    if (options[option] !== undefined && options[option] !== false) {
+      definingOptions[option] = options[option];
+    }
+  });
+  return { name: options.name || getDefaultIndexName(key), key, options: definingOptions };
+}
+
+/**
+ * Convert an index to the form MongoDB reports it in.
+ * Text fields become `_fts`/`_ftsx` with weights, and the text defaults are filled in.
+ */
+export function toComparableIndex(index: IndexDescription): IndexDescription {
+  const textFields = Object.keys(index.key).filter((field) => index.key[field] === 'text');
+  if (!textFields.length || index.key._fts !== undefined) {
+    return index;
+  }
+
+  const key: Record<string, any> = {};
+  Object.entries(index.key).forEach(([field, type]) => {
+    if (type !== 'text') {
+      key[field] = type;
+    } else if (key._fts === undefined) {
+      key._fts = 'text';
+      key._ftsx = 1;
+    }
+  });
+
+  const weights: Record<string, number> = {};
+  textFields.forEach((field) => (weights[field] = 1));
+  return {
+    name: index.name,
+    key,
+    options: {
+      default_language: 'english',
+      language_override: 'language',
+      ...index.options,
+      weights: { ...weights, ...index.options.weights },
+    },
+  };
+}
+
+/**
+ * List the key and option paths that differ between a declared and a live index.
+ * Only the collation fields that are declared are compared, as MongoDB fills in the rest.
+ */
+export function getIndexDifferences(declared: IndexDescription, live: IndexDescription): string[] {
+  const expected = toComparableIndex(declared);
+  const actual = toComparableIndex(live);
+  const differences: string[] = [];
+
+  if (!isDeepStrictEqual(Object.entries(expected.key), Object.entries(actual.key))) {
+    differences.push('key');
+  }
+
+  const options = new Set([...Object.keys(expected.options), ...Object.keys(actual.options)]);
+  options.forEach((option) => {
+    const expectedValue = expected.options[option];
+    let actualValue = actual.options[option];
+    if (option === 'collation' && expectedValue && actualValue) {
+      actualValue = Object.fromEntries(
+        Object.keys(expectedValue).map((field) => [field, actualValue[field]]),
+      );
+    }
+    if (!isDeepStrictEqual(expectedValue, actualValue)) {
+      differences.push(option);
+    }
+  });
+
+  return differences;
+}
+
+/**
+ * Compare the declared indexes of a model with the live ones of its collection.
+ * Indexes are matched by name, then by key; the `_id` index is ignored.
+ */
+export function diffIndexes(
+  modelName: string,
+  collectionName: string,
+  declared: IndexDescription[],
+  live: IndexDescription[],
+): IndexDiff[] {
+  const diffs: IndexDiff[] = [];
+  const unmatched = live.filter((index) => index.name !== '_id_');
+
+  declared.forEach((index) => {
+    const comparable = toComparableIndex(index);
+    let position = unmatched.findIndex((liveIndex) => liveIndex.name === index.name);
+    if (position === -1) {
+      position = unmatched.findIndex((liveIndex) =>
+        isDeepStrictEqual(Object.entries(liveIndex.key), Object.entries(comparable.key)),
+      );
+    }
+
+    if (position === -1) {
+      diffs.push({ modelName, collectionName, type: 'missing', name: index.name, declared: index });
+      return;
+    }
+
+    const [liveIndex] = unmatched.splice(position, 1);
+    const differences = getIndexDifferences(index, liveIndex);
+    if (liveIndex.name !== index.name) {
+      differences.unshift('name');
+    }
+    if (differences.length) {
+      diffs.push({
+        modelName,
+        collectionName,
+        type: 'changed',
+        name: index.name,
+        declared: index,
+        live: liveIndex,
+        differences,
+      });
+    }
+  });
+
+  unmatched.forEach((index) => {
+    diffs.push({ modelName, collectionName, type: 'extra', name: index.name, live: index });
+  });
+
+  return diffs;
+}
@@ -0,0 +1,289 @@
+import { Schema, Types } from 'mongoose';
+import { InvalidListQueryError } from '../errors/list-query.error';
+import { PaginationOptions } from '../interfaces/base.interface';
+import {
+  ListQueryOperator,
+  ListQueryOptions,
+  ParsedListQuery,
+} from '../interfaces/list-query.interface';
+import { buildProjection, buildSortObject } from './query.utils';
+
+const RESERVED_PARAMETERS = ['sort', 'fields', 'page', 'limit'];
+const LIST_QUERY_OPERATORS: ListQueryOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'nin',
+  'exists',
+];
+const BRACKET_KEY_PATTERN = /^([^[\]]+)\[([^[\]]+)\]$/;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function append(target: Record<string, any>, key: string, value: string): void {
+  const existing = target[key];
+  if (existing === undefined) {
+    target[key] = value;
+  } else {
+    target[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+}
+
+/**
+ * Parse a query string into the shape Express gives `req.query`:
+ * `age[gte]=18` becomes `{ age: { gte: '18' } }` and repeated keys become arrays
+ */
+export function parseQueryString(queryString: string): Record<string, any> {
+  // Prototype-less objects, so keys like __proto__ are plain data
+  const params: Record<string, any> = Object.create(null);
+  new URLSearchParams(queryString).forEach((value, key) => {
+    const match = BRACKET_KEY_PATTERN.exec(key);
+    if (!match) {
+      append(params, key, value);
+      return;
+    }
+    const [, field, operator] = match;
+    if (!isPlainObject(params[field])) {
+      params[field] = Object.create(null);
+    }
+    append(params[field], operator, value);
+  });
+  return params;
+}
+
+/**
+ * Get the type of a schema path used to coerce query values, e.g. 'Number' or 'ObjectId'.
+ * For arrays, the type of the elements.
+ */
+export function getSchemaFieldType(schema: Schema | undefined, field: string): string | undefined {
+  const schemaType: any = schema?.path(field);
+  if (!schemaType) {
+    return undefined;
+  }
+  if (schemaType.instance === 'Array') {
+    return schemaType.caster?.instance;
+  }
+  return schemaType.instance;
+}
+
+/**
+ * Coerce a query string value to the type of a field.
+ * Returns undefined and records a problem when the value does not fit the type.
+ */
+function coerceValue(
+  field: string,
+  value: unknown,
+  type: string | undefined,
+  problems: string[],
+): unknown {
+  if (typeof value !== 'string') {
+    problems.push(`Invalid value for "${field}"`);
+    return undefined;
+  }
+
+  switch (type) {
+    case 'Number': {
+      const number = Number(value);
+      if (value.trim() === '' || Number.isNaN(number)) {
+        problems.push(`Invalid number "${value}" for "${field}"`);
+        return undefined;
+      }
+      return number;
+    }
+    case 'Date': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        problems.push(`Invalid date "${value}" for "${field}"`);
+        return undefined;
+      }
+      return date;
+    }
+    case 'ObjectId':
+      if (!OBJECT_ID_PATTERN.test(value)) {
+        problems.push(`Invalid ObjectId "${value}" for "${field}"`);
+        return undefined;
+      }
+      return new Types.ObjectId(value);
+    case 'Boolean':
+      return coerceBoolean(field, value, problems);
+    default:
+      return value;
+  }
+}
+
+function coerceBoolean(field: string, value: unknown, problems: string[]): boolean | undefined {
+  if (value === 'true' || value === '1') {
+    return true;
+  }
+  if (value === 'false' || value === '0') {
+    return false;
+  }
+  problems.push(`Invalid boolean "${String(value)}" for "${field}"`);
+  return undefined;
+}
+
+/**
+ * Coerce the operand of one operator, splitting comma-separated lists for `in` and `nin`
+ */
+function coerceOperand(
+  field: string,
+  operator: ListQueryOperator,
+  value: unknown,
+  options: ListQueryOptions,
+  problems: string[],
+): unknown {
+  if (operator === 'exists') {
+    return coerceBoolean(field, value, problems);
+  }
+
+  const type = getSchemaFieldType(options.schema, field);
+  if (operator === 'in' || operator === 'nin') {
+    const values = (Array.isArray(value) ? value : [value]).flatMap((item) =>
+      typeof item === 'string' ? item.split(',') : [item],
+    );
+    const coerced = values.map((item) => coerceValue(field, item, type, problems));
+    return coerced.includes(undefined) ? undefined : coerced;
+  }
+
+  if (Array.isArray(value)) {
+    problems.push(`Operator "${operator}" on "${field}" takes a single value`);
+    return undefined;
+  }
+  return coerceValue(field, value, type, problems);
+}
+
+function parseFieldList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parsePositiveInteger(
+  name: string,
+  value: unknown,
+  problems: string[],
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || Number(value) < 1) {
+    problems.push(`${name} must be a positive integer`);
+    return undefined;
+  }
+  return Number(value);
+}
+
+/**
+ * Parse and validate a REST list query into a filter, sort, projection and pagination.
+ * Accepts a query string or an already parsed `req.query` object.
+ * Throws `InvalidListQueryError` listing every problem found.
+ *
+ * @example
+ * ```typescript
+ * // ?age[gte]=18&roles[in]=admin,user&sort=-createdAt&fields=name,email&page=2
+ * const query = parseListQuery(req.query, {
+ *   schema: UserSchema,
+ *   filterable: { age: ['gte', 'lte'], roles: ['in'] },
+ *   sortable: ['createdAt'],
+ * });
+ * // { filter: { age: { $gte: 18 }, roles: { $in: ['admin', 'user'] } },
+ * //   sort: { createdAt: -1 }, projection: { name: 1, email: 1 },
+ * //   pagination: { page: 2, limit: 10 } }
+ * ```
+ */
+export function parseListQuery<T = any>(
+  query: string | Record<string, any>,
+  options: ListQueryOptions = {},
+): ParsedListQuery<T> {
+  const params = typeof query === 'string' ? parseQueryString(query) : query;
+  const problems: string[] = [];
+  const filter: Record<string, any> = {};
+
+  Object.entries(params).forEach(([field, value]) => {
+    if (RESERVED_PARAMETERS.includes(field) || value === undefined) {
+      return;
+    }
+
+    const filterable = options.filterable || {};
+    const allowed = Object.prototype.hasOwnProperty.call(filterable, field)
+      ? filterable[field]
+      : undefined;
+    if (!allowed) {
+      problems.push(`Field "${field}" is not filterable`);
+      return;
+    }
+
+    const conditions: Record<string, any> = {};
+    const operands = isPlainObject(value) ? value : { eq: value };
+    Object.entries(operands).forEach(([name, operand]) => {
+      const operator = name as ListQueryOperator;
+      if (!LIST_QUERY_OPERATORS.includes(operator)) {
+        problems.push(`Unknown operator "${name}" on "${field}"`);
+        return;
+      }
+      if (allowed !== true && !allowed.includes(operator)) {
+        problems.push(`Operator "${operator}" is not allowed on "${field}"`);
+        return;
+      }
+      const coerced = coerceOperand(field, operator, operand, options, problems);
+      if (coerced !== undefined) {
+        conditions[`$${operator}`] = coerced;
+      }
+    });
+
+    const keys = Object.keys(conditions);
+    if (keys.length) {
+      filter[field] = keys.length === 1 && keys[0] === '$eq' ? conditions.$eq : conditions;
+    }
+  });
+
+  const sortFields = parseFieldList(params.sort);
+  sortFields.forEach((field) => {
+    const name = field.startsWith('-') ? field.substring(1) : field;
+    if (!options.sortable?.includes(name)) {
+      problems.push(`Field "${name}" is not sortable`);
+    }
+  });
+
+  const fields = parseFieldList(params.fields);
+  if (options.selectable) {
+    fields
+      .filter((field) => !options.selectable!.includes(field))
+      .forEach((field) => problems.push(`Field "${field}" is not selectable`));
+  }
+
+  const page = parsePositiveInteger('page', params.page, problems) || 1;
+  const limit = parsePositiveInteger('limit', params.limit, problems) || options.defaultLimit || 10;
+  const maxLimit = options.maxLimit || 100;
+  if (limit > maxLimit) {
+    problems.push(`limit must be at most ${maxLimit}`);
+  }
+
+  if (problems.length) {
+    throw new InvalidListQueryError(problems);
+  }
+
+  return {
+    filter,
+    sort: sortFields.length ? buildSortObject(sortFields) : options.defaultSort,
+    projection: fields.length ? buildProjection(fields) : undefined,
+    pagination: { page, limit },
+  };
+}
+
+/**
+ * Convert a parsed list query to `BaseRepository.findWithPagination` options
+ */
+export function toPaginationOptions(query: ParsedListQuery): PaginationOptions {
+  return { ...query.pagination, sort: query.sort, projection: query.projection };
+}
@@ -0,0 +1,97 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import { createHash } from 'crypto';
+import { readdirSync } from 'fs';
+import { join, resolve } from 'path';
+import { MIGRATION_METADATA } from '../decorators/migration.decorator';
+import {
+  MigrationDefinition,
+  MigrationInterface,
+  MigrationOptions,
+} from '../interfaces/migration.interface';
+
+const MIGRATION_FILE_PATTERN = /\.(js|ts)$/;
+const DECLARATION_FILE_PATTERN = /\.d\.ts$/;
+
+/**
+ * Get the injection token of the MigrationRunner of a connection
+ */
+export function getMigrationRunnerToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}MigrationRunner`;
+}
+
+/**
+ * Compare two migration versions, numerically where they contain digits
+ */
+export function compareMigrationVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Get the `@Migration()` options of a migration class or instance
+ */
+export function getMigrationOptions(target: any): MigrationOptions | undefined {
+  const type = typeof target === 'function' ? target : target?.constructor;
+  return type ? Reflect.getMetadata(MIGRATION_METADATA, type) : undefined;
+}
+
+/**
+ * Get the checksum of a migration: the `checksum` of its `@Migration()` options, or a
+ * SHA-256 of its version and the source of its `up` and `down` scripts, with whitespace
+ * collapsed so reformatting alone does not change it.
+ */
+export function computeMigrationChecksum(
+  options: MigrationOptions,
+  migration?: MigrationInterface,
+): string {
+  if (options.checksum !== undefined) {
+    return options.checksum;
+  }
+  const hash = createHash('sha256').update(options.version);
+  if (migration) {
+    [migration.up, migration.down].forEach((script) =>
+      hash.update('\0').update(script ? script.toString().replace(/\s+/g, ' ').trim() : ''),
+    );
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Build the definition of a migration instance decorated with `@Migration()`
+ */
+export function toMigrationDefinition(migration: MigrationInterface): MigrationDefinition {
+  const options = getMigrationOptions(migration);
+  if (!options) {
+    throw new Error(`${migration.constructor.name} is not decorated with @Migration()`);
+  }
+  return {
+    version: options.version,
+    description: options.description || migration.constructor.name,
+    transactional: options.transactional !== false,
+    checksum: computeMigrationChecksum(options, migration),
+    migration,
+  };
+}
+
+/**
+ * Load the migration classes exported by the files of a directory and instantiate them.
+ * Declaration files and exports without `@Migration()` are ignored.
+ */
+export async function loadMigrationsFromDirectory(
+  directory: string,
+): Promise<MigrationInterface[]> {
+  const root = resolve(directory);
+  const files = readdirSync(root)
+    .filter((file) => MIGRATION_FILE_PATTERN.test(file) && !DECLARATION_FILE_PATTERN.test(file))
+    .sort();
+
+  const migrations: MigrationInterface[] = [];
+  for (const file of files) {
+    const exported = await import(join(root, file));
+    Object.values(exported).forEach((value) => {
+      if (typeof value === 'function' && getMigrationOptions(value)) {
+        migrations.push(new (value as new () => MigrationInterface)());
+      }
+    });
+  }
+  return migrations;
+}
@@ -0,0 +1,46 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import { MongooseModuleOptions } from '../interfaces/mongoose-options.interface';
+import { InvalidMongooseOptionsError } from '../errors/mongoose-options.error';
+
+/**
+ * Get the injection token of the resolved MongooseModule options for a connection
+ */
+export function getMongooseOptionsToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}MongooseOptions`;
+}
+
+/**
+ * Check resolved options and throw `InvalidMongooseOptionsError` listing every problem
+ */
+export function validateMongooseOptions(
+  options: unknown,
+  connectionName?: string,
+): MongooseModuleOptions {
+  const name = connectionName || 'default';
+  if (!options || typeof options !== 'object') {
+    throw new InvalidMongooseOptionsError(name, ['options must be an object']);
+  }
+
+  const { uri, retryAttempts, retryDelay } = options as Record<string, unknown>;
+  const problems: string[] = [];
+  if (typeof uri !== 'string' || !uri.trim()) {
+    problems.push('"uri" must be a non-empty string');
+  } else if (!/^mongodb(\+srv)?:\/\//.test(uri)) {
+    problems.push('"uri" must start with mongodb:// or mongodb+srv://');
+  }
+  if (retryAttempts !== undefined && !isNonNegativeNumber(retryAttempts)) {
+    problems.push('"retryAttempts" must be a non-negative number');
+  }
+  if (retryDelay !== undefined && !isNonNegativeNumber(retryDelay)) {
+    problems.push('"retryDelay" must be a non-negative number');
+  }
+
+  if (problems.length) {
+    throw new InvalidMongooseOptionsError(name, problems);
+  }
+  return options as MongooseModuleOptions;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
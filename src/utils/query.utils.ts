@@ -1,14 +1,25 @@
 import { FilterQuery } from 'mongoose';
 
 /**
- * Build a search query for text fields
+ * Escape the characters of a string that have a meaning in regular expressions
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a case-insensitive "contains" query for text fields.
+ * The search text is matched literally, not as a regular expression.
+ *
+ * @deprecated Unanchored regexes cannot use indexes; use `buildPrefixSearchQuery`,
+ * `buildSearchPipeline` or `BaseRepository.search` instead.
  */
 export function buildTextSearchQuery<T>(searchText: string, fields: string[]): FilterQuery<T> {
   if (!searchText || !fields.length) {
     return {};
   }
 
-  const searchRegex = new RegExp(searchText, 'i');
+  const searchRegex = new RegExp(escapeRegExp(searchText), 'i');
   return {
     $or: fields.map((field) => ({
       [field]: searchRegex,
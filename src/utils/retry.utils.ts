@@ -0,0 +1,26 @@
+/**
+ * Exponential backoff settings
+ */
+export interface BackoffOptions {
+  initialDelayMs: number;
+  multiplier: number;
+  maxDelayMs: number;
+
+  /**
+   * Randomize the delay by up to this fraction in either direction (0 to disable)
+   */
+  jitter?: number;
+}
+
+/**
+ * Compute the delay before the next attempt after `attempt` failed attempts (1-based)
+ */
+export function computeBackoffDelay(attempt: number, options: BackoffOptions): number {
+  const { initialDelayMs, multiplier, maxDelayMs, jitter = 0 } = options;
+  const delay = Math.min(initialDelayMs * Math.pow(multiplier, attempt - 1), maxDelayMs);
+  if (!jitter) {
+    return delay;
+  }
+  const spread = delay * Math.min(Math.max(jitter, 0), 1);
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
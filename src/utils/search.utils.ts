@@ -0,0 +1,226 @@
+import { PipelineStage } from 'mongoose';
+import {
+  AtlasSearchOptions,
+  PrefixSearchOptions,
+  SearchHighlight,
+  SearchHighlightText,
+  SearchOptions,
+  TextSearchOptions,
+} from '../interfaces/search.interface';
+import { getValueAtPath } from './cursor.utils';
+import { escapeRegExp, mergeFilterQueries } from './query.utils';
+
+/**
+ * Split a search term into its words
+ */
+export function getSearchTerms(term: string): string[] {
+  return term.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Build a filter matching documents where one of the fields starts with the term.
+ * The term is escaped, so user input cannot inject regex patterns.
+ */
+export function buildPrefixSearchQuery(
+  term: string,
+  fields: string[],
+  caseInsensitive = false,
+): Record<string, any> {
+  const search = term.trim();
+  if (!search || !fields.length) {
+    return {};
+  }
+
+  const regex = {
+    $regex: `^${escapeRegExp(search)}`,
+    ...(caseInsensitive && { $options: 'i' }),
+  };
+  return fields.length === 1
+    ? { [fields[0]]: regex }
+    : { $or: fields.map((field) => ({ [field]: regex })) };
+}
+
+/**
+ * Build a `$text` filter. Requires a text index on the collection.
+ */
+export function buildTextSearchFilter(
+  term: string,
+  options: Omit<TextSearchOptions, 'strategy'> = {},
+): Record<string, any> {
+  return {
+    $text: {
+      $search: term,
+      ...(options.language && { $language: options.language }),
+      ...(options.caseSensitive !== undefined && { $caseSensitive: options.caseSensitive }),
+      ...(options.diacriticSensitive !== undefined && {
+        $diacriticSensitive: options.diacriticSensitive,
+      }),
+    },
+  };
+}
+
+/**
+ * Build an Atlas Search `$search` stage. It must be the first stage of the pipeline.
+ */
+export function buildAtlasSearchStage(
+  term: string,
+  options: Omit<AtlasSearchOptions, 'strategy'>,
+): PipelineStage {
+  return {
+    $search: {
+      index: options.index || 'default',
+      text: {
+        query: term,
+        path: options.fields,
+        ...(options.fuzzy && { fuzzy: options.fuzzy }),
+      },
+      ...(options.highlight && { highlight: { path: options.fields } }),
+    },
+  } as PipelineStage;
+}
+
+/**
+ * Score of a prefix search: the number of searched fields that start with the term
+ */
+function buildPrefixScore(term: string, options: PrefixSearchOptions): Record<string, any> {
+  const regex = `^${escapeRegExp(term.trim())}`;
+  const matches = (input: string) => ({
+    $regexMatch: {
+      input: { $convert: { input, to: 'string', onError: '', onNull: '' } },
+      regex,
+      ...(options.caseInsensitive && { options: 'i' }),
+    },
+  });
+
+  return {
+    $add: options.fields.map((field) => ({
+      $cond: [
+        {
+          // Arrays (tags, aliases) match when any of their elements does
+          $cond: [
+            { $eq: [{ $type: `$${field}` }, 'array'] },
+            {
+              $anyElementTrue: [
+                { $map: { input: `$${field}`, as: 'value', in: matches('$$value') } },
+              ],
+            },
+            matches(`$${field}`),
+          ],
+        },
+        1,
+        0,
+      ],
+    })),
+  };
+}
+
+/**
+ * Build the aggregation pipeline of a search. Results carry a `searchScore` and are
+ * sorted by it; Atlas Search results also carry `searchHighlights` when requested.
+ */
+export function buildSearchPipeline(term: string, options: SearchOptions): PipelineStage[] {
+  const pipeline: PipelineStage[] = [];
+  const filter = options.filter && Object.keys(options.filter).length ? options.filter : undefined;
+
+  switch (options.strategy) {
+    case 'prefix':
+      pipeline.push(
+        {
+          $match: mergeFilterQueries(
+            buildPrefixSearchQuery(term, options.fields, options.caseInsensitive),
+            filter || {},
+          ),
+        },
+        { $addFields: { searchScore: buildPrefixScore(term, options) } },
+        { $sort: { searchScore: -1, _id: 1 } },
+      );
+      break;
+    case 'text':
+      pipeline.push(
+        { $match: { ...buildTextSearchFilter(term, options), ...filter } },
+        { $addFields: { searchScore: { $meta: 'textScore' } } },
+      );
+      if (options.minScore !== undefined) {
+        pipeline.push({ $match: { searchScore: { $gte: options.minScore } } });
+      }
+      pipeline.push({ $sort: { searchScore: -1, _id: 1 } });
+      break;
+    case 'atlas':
+      // Atlas Search returns results by relevance, so no $sort is needed
+      pipeline.push(buildAtlasSearchStage(term, options));
+      if (filter) {
+        pipeline.push({ $match: filter });
+      }
+      pipeline.push({
+        $addFields: {
+          searchScore: { $meta: 'searchScore' },
+          ...(options.highlight && { searchHighlights: { $meta: 'searchHighlights' } }),
+        },
+      });
+      break;
+  }
+
+  if (options.skip) {
+    pipeline.push({ $skip: options.skip });
+  }
+  if (options.limit) {
+    pipeline.push({ $limit: options.limit });
+  }
+  return pipeline;
+}
+
+/**
+ * Split a text into hit and non-hit fragments for the given search terms.
+ * With `prefix`, only a match at the start of the text is a hit.
+ */
+export function highlightText(
+  text: string,
+  terms: string[],
+  options: { prefix?: boolean; caseSensitive?: boolean } = {},
+): SearchHighlightText[] {
+  const alternatives = terms.filter(Boolean).map(escapeRegExp).join('|');
+  if (!alternatives) {
+    return [{ value: text, type: 'text' }];
+  }
+
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  const regex = new RegExp(options.prefix ? `^(?:${alternatives})` : alternatives, flags);
+  const texts: SearchHighlightText[] = [];
+  let position = 0;
+  for (const match of text.matchAll(regex)) {
+    if (!match[0]) {
+      continue;
+    }
+    if (match.index! > position) {
+      texts.push({ value: text.slice(position, match.index), type: 'text' });
+    }
+    texts.push({ value: match[0], type: 'hit' });
+    position = match.index! + match[0].length;
+  }
+  if (position < text.length) {
+    texts.push({ value: text.slice(position), type: 'text' });
+  }
+  return texts;
+}
+
+/**
+ * Build the highlights of a prefix or text search result, one per field with a hit
+ */
+export function buildSearchHighlights(
+  doc: Record<string, any>,
+  term: string,
+  options: PrefixSearchOptions | TextSearchOptions,
+): SearchHighlight[] {
+  const prefix = options.strategy === 'prefix';
+  const terms = prefix ? [term.trim()] : getSearchTerms(term);
+  const caseSensitive = prefix ? !options.caseInsensitive : !!options.caseSensitive;
+
+  return (options.fields || []).flatMap((path) => {
+    const value = getValueAtPath(doc, path);
+    if (typeof value !== 'string') {
+      return [];
+    }
+    const texts = highlightText(value, terms, { prefix, caseSensitive });
+    return texts.some((text) => text.type === 'hit') ? [{ path, texts }] : [];
+  });
+}
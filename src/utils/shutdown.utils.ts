@@ -0,0 +1,141 @@
+import { getConnectionToken } from '@nestjs/mongoose';
+import type { Connection } from 'mongoose';
+import { ShutdownOptions } from '../interfaces/shutdown.interface';
+
+/**
+ * Connection closed by the shutdown coordinator
+ */
+export interface ManagedConnection {
+  name: string;
+  connection: Connection;
+  options: ShutdownOptions;
+}
+
+const managedConnections = new Map<string, ManagedConnection>();
+const pendingOperations = new WeakMap<Connection, Set<Promise<unknown>>>();
+
+/**
+ * Hand a connection over to the shutdown coordinator
+ */
+export function registerShutdownConnection(
+  name: string,
+  connection: Connection,
+  options: ShutdownOptions = {},
+): void {
+  managedConnections.set(name, { name, connection, options });
+}
+
+/**
+ * Remove a connection from the shutdown coordinator, e.g. once it is closed
+ */
+export function unregisterShutdownConnection(name: string): void {
+  managedConnections.delete(name);
+}
+
+/**
+ * Check if the shutdown coordinator closes a connection
+ */
+export function isShutdownManaged(connection?: Connection): boolean {
+  return [...managedConnections.values()].some((managed) => managed.connection === connection);
+}
+
+/**
+ * Get the managed connections in registration order
+ */
+export function getShutdownConnections(): ManagedConnection[] {
+  return [...managedConnections.values()];
+}
+
+/**
+ * Get the managed connections in closing order: every connection closes before
+ * the connections it depends on. Throws on circular dependencies.
+ */
+export function getShutdownOrder(
+  connections: ManagedConnection[] = getShutdownConnections(),
+): ManagedConnection[] {
+  const byName = new Map(connections.map((managed) => [managed.name, managed]));
+  const visiting = new Set<string>();
+  const ordered: ManagedConnection[] = [];
+
+  // Depth-first: dependencies are appended before their dependents
+  const visit = (managed: ManagedConnection, path: string[]) => {
+    if (ordered.includes(managed)) {
+      return;
+    }
+    if (visiting.has(managed.name)) {
+      throw new Error(`Circular connection dependency: ${[...path, managed.name].join(' -> ')}`);
+    }
+    visiting.add(managed.name);
+    (managed.options.dependsOn || []).forEach((name) => {
+      const dependency = byName.get(name);
+      if (dependency) {
+        visit(dependency, [...path, managed.name]);
+      }
+    });
+    visiting.delete(managed.name);
+    ordered.push(managed);
+  };
+
+  connections.forEach((managed) => visit(managed, []));
+  return ordered.reverse();
+}
+
+/**
+ * Track an operation running on a connection until it settles
+ */
+export function trackOperation<R>(
+  connection: Connection | undefined,
+  operation: Promise<R>,
+): Promise<R> {
+  if (!connection) {
+    return operation;
+  }
+  let pending = pendingOperations.get(connection);
+  if (!pending) {
+    pending = new Set();
+    pendingOperations.set(connection, pending);
+  }
+  const tracked = pending;
+  tracked.add(operation);
+  const untrack = () => tracked.delete(operation);
+  operation.then(untrack, untrack);
+  return operation;
+}
+
+/**
+ * Get the number of tracked operations still running on a connection
+ */
+export function getPendingOperationCount(connection: Connection): number {
+  return pendingOperations.get(connection)?.size ?? 0;
+}
+
+/**
+ * Wait for the tracked operations of a connection to settle.
+ * Resolves false when some are still running after the timeout.
+ */
+export async function waitForPendingOperations(
+  connection: Connection,
+  timeoutMs: number,
+): Promise<boolean> {
+  const pending = [...(pendingOperations.get(connection) || [])];
+  const settled = Promise.allSettled(pending).then(() => true);
+  return raceTimeout(settled, timeoutMs, false);
+}
+
+/**
+ * Resolve with the promise's value, or with the fallback when the timeout elapses first
+ */
+export function raceTimeout<R>(promise: Promise<R>, timeoutMs: number, fallback: R): Promise<R> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<R>((resolve) => {
+    timer = setTimeout(() => resolve(fallback), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Get the injection token of the ShutdownCoordinator for a connection
+ */
+export function getShutdownCoordinatorToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}ShutdownCoordinator`;
+}
@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { TenantResolver } from '../interfaces/tenancy.interface';
+
+interface TenantStore {
+  tenantId?: string;
+  bypass: boolean;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantStore>();
+
+/**
+ * Run a function in the context of a tenant
+ */
+export function runWithTenant<R>(tenantId: string, fn: () => R): R {
+  return tenantStorage.run({ tenantId, bypass: false }, fn);
+}
+
+/**
+ * Run a function with tenant scoping bypassed, e.g. for cross-tenant maintenance jobs
+ */
+export function runWithoutTenant<R>(fn: () => R): R {
+  return tenantStorage.run({ ...tenantStorage.getStore(), bypass: true }, fn);
+}
+
+/**
+ * Get the tenant of the current async context, if any
+ */
+export function getCurrentTenantId(): string | undefined {
+  return tenantStorage.getStore()?.tenantId;
+}
+
+/**
+ * Check if tenant scoping is bypassed in the current async context
+ */
+export function isTenantScopeBypassed(): boolean {
+  return tenantStorage.getStore()?.bypass === true;
+}
+
+/**
+ * Resolve the tenant from the AsyncLocalStorage tenant context
+ */
+export class AsyncLocalStorageTenantResolver implements TenantResolver {
+  resolve(): string | undefined {
+    return getCurrentTenantId();
+  }
+}
+
+/**
+ * Create a middleware that runs each request in the context of the tenant named by a header
+ * @param headerName - Request header holding the tenant ID (default: 'x-tenant-id')
+ */
+export function createTenantMiddleware(headerName = 'x-tenant-id') {
+  const header = headerName.toLowerCase();
+  return (req: any, _res: any, next: () => void) => {
+    const value = req.headers?.[header];
+    const tenantId = Array.isArray(value) ? value[0] : value;
+    if (!tenantId) {
+      return next();
+    }
+    return runWithTenant(String(tenantId), next);
+  };
+}
+
+/**
+ * Get the injection token of the TenancyService for a connection
+ */
+export function getTenancyServiceToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}TenancyService`;
+}
@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ClientSession, Connection } from 'mongoose';
+import { getConnectionToken } from '@nestjs/mongoose';
+
+/**
+ * Active sessions of the current transaction scope, keyed by MongoClient
+ */
+type TransactionStore = Map<unknown, ClientSession>;
+
+const transactionStorage = new AsyncLocalStorage<TransactionStore>();
+
+/**
+ * Run a function with the given session bound to the current async context
+ */
+export function runWithSession<R>(
+  client: unknown,
+  session: ClientSession,
+  fn: () => Promise<R>,
+): Promise<R> {
+  const store: TransactionStore = new Map(transactionStorage.getStore());
+  store.set(client, session);
+  return transactionStorage.run(store, fn);
+}
+
+/**
+ * Get the session of the transaction scope the caller runs in for a connection, if any
+ */
+export function getTransactionSession(connection?: Connection): ClientSession | undefined {
+  const store = transactionStorage.getStore();
+  if (!store || !connection) {
+    return undefined;
+  }
+  return store.get(connection.getClient());
+}
+
+/**
+ * Check whether a MongoDB error carries the given error label
+ */
+export function hasErrorLabel(error: any, label: string): boolean {
+  if (!error) {
+    return false;
+  }
+  if (typeof error.hasErrorLabel === 'function') {
+    return error.hasErrorLabel(label);
+  }
+  return Array.isArray(error.errorLabels) && error.errorLabels.includes(label);
+}
+
+/**
+ * Get the injection token of the TransactionManager for a connection
+ */
+export function getTransactionManagerToken(connectionName?: string): string {
+  return `${getConnectionToken(connectionName)}TransactionManager`;
+}
@@ -108,6 +108,157 @@ describe('Aggregate Utils', () => {
           },
         ]);
       });
+
+      it('should add a $lookup stage with let variables and a sub-pipeline', () => {
+        const orders = createAggregateBuilder()
+          .match({ $expr: { $eq: ['$userId', '$$userId'] } })
+          .sort({ createdAt: -1 })
+          .limit(3);
+        const pipeline = builder
+          .lookup({ from: 'orders', let: { userId: '$_id' }, pipeline: orders, as: 'recentOrders' })
+          .build();
+
+        expect(pipeline).toEqual([
+          {
+            $lookup: {
+              from: 'orders',
+              let: { userId: '$_id' },
+              pipeline: [
+                { $match: { $expr: { $eq: ['$userId', '$$userId'] } } },
+                { $sort: { createdAt: -1 } },
+                { $limit: 3 },
+              ],
+              as: 'recentOrders',
+            },
+          },
+        ]);
+      });
+    });
+
+    describe('graphLookup', () => {
+      it('should add a $graphLookup stage', () => {
+        const options = {
+          from: 'employees',
+          startWith: '$managerId',
+          connectFromField: 'managerId',
+          connectToField: '_id',
+          as: 'managers',
+          maxDepth: 5,
+        };
+        expect(builder.graphLookup(options).build()).toEqual([{ $graphLookup: options }]);
+      });
+    });
+
+    describe('facet', () => {
+      it('should add a $facet stage from stages and builders', () => {
+        const pipeline = builder
+          .facet({
+            byStatus: createAggregateBuilder().group({ _id: '$status', count: { $sum: 1 } }),
+            newest: [{ $sort: { createdAt: -1 } }, { $limit: 1 }],
+          })
+          .build();
+
+        expect(pipeline).toEqual([
+          {
+            $facet: {
+              byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+              newest: [{ $sort: { createdAt: -1 } }, { $limit: 1 }],
+            },
+          },
+        ]);
+      });
+    });
+
+    describe('bucket', () => {
+      it('should add $bucket and $bucketAuto stages', () => {
+        const pipeline = builder
+          .bucket({ groupBy: '$age', boundaries: [0, 18, 65], default: 'other' })
+          .bucketAuto({ groupBy: '$price', buckets: 4 })
+          .build();
+
+        expect(pipeline).toEqual([
+          { $bucket: { groupBy: '$age', boundaries: [0, 18, 65], default: 'other' } },
+          { $bucketAuto: { groupBy: '$price', buckets: 4 } },
+        ]);
+      });
+    });
+
+    describe('setWindowFields', () => {
+      it('should add a $setWindowFields stage', () => {
+        const options = {
+          partitionBy: '$region',
+          sortBy: { date: 1 as const },
+          output: {
+            runningTotal: {
+              $sum: '$amount',
+              window: { documents: ['unbounded', 'current'] as [string, string] },
+            },
+          },
+        };
+        expect(builder.setWindowFields(options).build()).toEqual([{ $setWindowFields: options }]);
+      });
+    });
+
+    describe('unionWith', () => {
+      it('should add a $unionWith stage with or without a sub-pipeline', () => {
+        const pipeline = builder
+          .unionWith('archived_users')
+          .unionWith({ coll: 'guests', pipeline: [{ $match: { active: true } }] })
+          .unionWith({ coll: 'admins' })
+          .build();
+
+        expect(pipeline).toEqual([
+          { $unionWith: 'archived_users' },
+          { $unionWith: { coll: 'guests', pipeline: [{ $match: { active: true } }] } },
+          { $unionWith: { coll: 'admins' } },
+        ]);
+      });
+    });
+
+    describe('merge and out', () => {
+      it('should add $merge and $out stages', () => {
+        expect(builder.merge({ into: 'stats', whenMatched: 'replace' }).build()).toEqual([
+          { $merge: { into: 'stats', whenMatched: 'replace' } },
+        ]);
+        expect(new AggregateBuilder().out('report').build()).toEqual([{ $out: 'report' }]);
+      });
+
+      it('should reject stages after $merge or $out', () => {
+        builder.out('report');
+
+        expect(() => builder.limit(1)).toThrow('$out must be the last stage of the pipeline');
+      });
+    });
+
+    describe('paginate', () => {
+      it('should compute the page and the total in one $facet', () => {
+        const pipeline = builder.match({ active: true }).sort({ name: 1 }).paginate(3, 20).build();
+
+        expect(pipeline).toEqual([
+          { $match: { active: true } },
+          { $sort: { name: 1 } },
+          {
+            $facet: {
+              data: [{ $skip: 40 }, { $limit: 20 }],
+              total: [{ $count: 'count' }],
+            },
+          },
+          {
+            $project: {
+              data: 1,
+              total: { $ifNull: [{ $arrayElemAt: ['$total.count', 0] }, 0] },
+              page: { $literal: 3 },
+              limit: { $literal: 20 },
+            },
+          },
+          { $addFields: { totalPages: { $ceil: { $divide: ['$total', 20] } } } },
+        ]);
+      });
+
+      it('should reject invalid pages and limits', () => {
+        expect(() => builder.paginate(0, 10)).toThrow('page and limit must be positive integers');
+        expect(() => builder.paginate(1, 2.5)).toThrow('page and limit must be positive integers');
+      });
     });
 
     describe('unwind', () => {
@@ -282,6 +433,83 @@ describe('Aggregate Utils', () => {
         expect(pipeline).toEqual([{ $match: { status: 'inactive' } }]);
       });
     });
+
+    describe('search', () => {
+      it('should start with an Atlas Search stage and add the score', () => {
+        const pipeline = builder
+          .search('coffee', { fields: ['title'], highlight: true })
+          .limit(10)
+          .build();
+
+        expect(pipeline).toEqual([
+          {
+            $search: {
+              index: 'default',
+              text: { query: 'coffee', path: ['title'] },
+              highlight: { path: ['title'] },
+            },
+          },
+          {
+            $addFields: {
+              searchScore: { $meta: 'searchScore' },
+              searchHighlights: { $meta: 'searchHighlights' },
+            },
+          },
+          { $limit: 10 },
+        ]);
+      });
+
+      it('should start with a $text match and add the text score', () => {
+        const pipeline = builder
+          .textSearch('coffee', { language: 'en', filter: { active: true } })
+          .sort({ searchScore: -1 })
+          .build();
+
+        expect(pipeline).toEqual([
+          { $match: { $text: { $search: 'coffee', $language: 'en' }, active: true } },
+          { $addFields: { searchScore: { $meta: 'textScore' } } },
+          { $sort: { searchScore: -1 } },
+        ]);
+      });
+
+      it('should reject search stages after other stages', () => {
+        builder.match({ active: true });
+
+        expect(() => builder.search('coffee', { fields: ['title'] })).toThrow(
+          '$search must be the first stage of the pipeline',
+        );
+        expect(() => builder.textSearch('coffee')).toThrow(
+          '$text must be the first stage of the pipeline',
+        );
+      });
+    });
+
+    describe('explain', () => {
+      it('should explain the pipeline on a model', async () => {
+        const explain = jest.fn().mockResolvedValue({
+          queryPlanner: { winningPlan: { stage: 'IXSCAN', indexName: 'status_1' } },
+        });
+        const model: any = {
+          aggregate: jest.fn(() => ({ explain })),
+          collection: { collectionName: 'users' },
+        };
+
+        const report = await builder.match({ status: 'active' }).explain(model);
+
+        expect(model.aggregate).toHaveBeenCalledWith([{ $match: { status: 'active' } }]);
+        expect(explain).toHaveBeenCalledWith('executionStats');
+        expect(report.indexesUsed).toEqual(['status_1']);
+      });
+
+      it('should explain the pipeline through a repository', async () => {
+        const repository = { explainAggregate: jest.fn().mockResolvedValue({ usedIndex: true }) };
+
+        await expect(builder.limit(1).explain(repository, 'queryPlanner')).resolves.toEqual({
+          usedIndex: true,
+        });
+        expect(repository.explainAggregate).toHaveBeenCalledWith([{ $limit: 1 }], 'queryPlanner');
+      });
+    });
   });
 
   describe('createAggregateBuilder', () => {
@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import { AuditLogService } from '../src/services/audit-log.service';
+import { runWithAuditContext } from '../src/utils/audit.utils';
+
+describe('AuditLogService', () => {
+  let collection: any;
+  let cursor: any;
+  let connection: any;
+  let service: AuditLogService;
+
+  beforeEach(() => {
+    cursor = {
+      sort: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      toArray: jest.fn().mockResolvedValue([]),
+    };
+    collection = {
+      insertMany: jest.fn().mockResolvedValue({}),
+      createIndex: jest.fn().mockResolvedValue('index'),
+      find: jest.fn().mockReturnValue(cursor),
+    };
+    connection = { collection: jest.fn().mockReturnValue(collection) };
+    service = new AuditLogService(connection);
+  });
+
+  it('should record changes with the actor, correlation id and timestamp', async () => {
+    await runWithAuditContext({ actor: 'alice', correlationId: 'c1' }, () =>
+      service.record([
+        {
+          collectionName: 'users',
+          documentId: '1',
+          operation: 'create',
+          before: null,
+          after: { _id: '1', name: 'a' },
+        },
+      ]),
+    );
+
+    expect(connection.collection).toHaveBeenCalledWith('audit_logs');
+    expect(collection.createIndex).toHaveBeenCalledWith({
+      collectionName: 1,
+      documentId: 1,
+      timestamp: 1,
+    });
+    expect(collection.insertMany).toHaveBeenCalledWith(
+      [
+        {
+          collectionName: 'users',
+          documentId: '1',
+          operation: 'create',
+          before: null,
+          after: { _id: '1', name: 'a' },
+          actor: 'alice',
+          correlationId: 'c1',
+          timestamp: expect.any(Date),
+        },
+      ],
+      { session: undefined },
+    );
+  });
+
+  it('should use a custom collection and context provider', async () => {
+    service = new AuditLogService(connection, {
+      collectionName: 'history',
+      contextProvider: { getContext: () => ({ actor: 'job' }) },
+    });
+
+    await service.record([
+      { collectionName: 'users', documentId: '1', operation: 'delete', before: {}, after: null },
+    ]);
+    await service.record([]);
+
+    expect(connection.collection).toHaveBeenCalledWith('history');
+    expect(collection.createIndex).toHaveBeenCalledTimes(1);
+    expect(collection.insertMany).toHaveBeenCalledTimes(1);
+    expect(collection.insertMany.mock.calls[0][0][0].actor).toBe('job');
+  });
+
+  it('should read the history of a document oldest first', async () => {
+    const id = new Types.ObjectId();
+    cursor.toArray.mockResolvedValue([{ _id: id, documentId: '1', operation: 'create' }]);
+    const from = new Date('2024-01-01');
+
+    const history = await service.getHistory('users', '1', { from, limit: 5 });
+
+    expect(collection.find).toHaveBeenCalledWith({
+      collectionName: 'users',
+      documentId: '1',
+      timestamp: { $gte: from },
+    });
+    expect(cursor.sort).toHaveBeenCalledWith({ timestamp: 1, _id: 1 });
+    expect(cursor.limit).toHaveBeenCalledWith(5);
+    expect(history).toEqual([{ id: id.toString(), documentId: '1', operation: 'create' }]);
+  });
+
+  it('should rebuild the state of a document at a point in time', async () => {
+    const at = new Date('2024-01-02');
+    cursor.toArray.mockResolvedValue([{ after: { _id: '1', name: 'b' } }]);
+
+    await expect(service.getStateAt('users', '1', at)).resolves.toEqual({ _id: '1', name: 'b' });
+    expect(collection.find).toHaveBeenCalledWith({
+      collectionName: 'users',
+      documentId: '1',
+      timestamp: { $lte: at },
+    });
+    expect(cursor.sort).toHaveBeenCalledWith({ timestamp: -1, _id: -1 });
+  });
+
+  it('should return null before the document existed or after it was deleted', async () => {
+    await expect(service.getStateAt('users', '1', new Date())).resolves.toBeNull();
+
+    cursor.toArray.mockResolvedValue([{ after: null }]);
+    await expect(service.getStateAt('users', '1', new Date())).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  AsyncLocalStorageAuditContextProvider,
+  createAuditContextMiddleware,
+  getAuditContext,
+  runWithAuditContext,
+} from '../src/utils/audit.utils';
+
+describe('Audit Utils', () => {
+  describe('runWithAuditContext', () => {
+    it('should expose the context within the async context', async () => {
+      await runWithAuditContext({ actor: 'alice', correlationId: 'c1' }, async () => {
+        await Promise.resolve();
+        expect(getAuditContext()).toEqual({ actor: 'alice', correlationId: 'c1' });
+      });
+      expect(getAuditContext()).toBeUndefined();
+    });
+
+    it('should merge nested contexts', () => {
+      runWithAuditContext({ actor: 'alice', correlationId: 'c1' }, () => {
+        runWithAuditContext({ actor: 'system' }, () => {
+          expect(getAuditContext()).toEqual({ actor: 'system', correlationId: 'c1' });
+        });
+      });
+    });
+  });
+
+  describe('AsyncLocalStorageAuditContextProvider', () => {
+    it('should provide the context from the async context', () => {
+      const provider = new AsyncLocalStorageAuditContextProvider();
+      expect(runWithAuditContext({ actor: 'bob' }, () => provider.getContext())).toEqual({
+        actor: 'bob',
+      });
+    });
+  });
+
+  describe('createAuditContextMiddleware', () => {
+    it('should run the request with the resolved actor and header correlation id', () => {
+      const middleware = createAuditContextMiddleware({ actor: (req) => req.user?.id });
+      let context: any;
+
+      middleware({ headers: { 'x-request-id': 'r1' }, user: { id: 'u1' } }, {}, () => {
+        context = getAuditContext();
+      });
+
+      expect(context).toEqual({ actor: 'u1', correlationId: 'r1' });
+    });
+
+    it('should generate a correlation id when the header is missing', () => {
+      const middleware = createAuditContextMiddleware({ correlationHeader: 'X-Correlation-Id' });
+      let context: any;
+
+      middleware({ headers: {} }, {}, () => {
+        context = getAuditContext();
+      });
+
+      expect(context.actor).toBeUndefined();
+      expect(context.correlationId).toEqual(expect.any(String));
+    });
+  });
+});
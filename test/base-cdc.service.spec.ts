@@ -1,6 +1,13 @@
-import { Model } from 'mongoose';
+import { Connection, Model } from 'mongoose';
 import { EventEmitter } from 'events';
 import { BaseCdcService } from '../src/services/base-cdc.service';
+import { InMemoryCdcCheckpointStore } from '../src/services/cdc-checkpoint.store';
+import { InMemoryCdcLeaseStore } from '../src/services/cdc-lease.store';
+import { InMemoryCdcDeadLetterStore } from '../src/services/cdc-dead-letter.store';
+import {
+  registerShutdownConnection,
+  unregisterShutdownConnection,
+} from '../src/utils/shutdown.utils';
 import {
   CdcEventHandler,
   CdcChangeEvent,
@@ -10,6 +17,7 @@ import {
 
 // Mock Logger to avoid console output during tests
 jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
   Logger: jest.fn().mockImplementation(() => ({
     log: jest.fn(),
     warn: jest.fn(),
@@ -31,12 +39,12 @@ class TestCdcService extends BaseCdcService<TestDocument> {
   public updateEvents: CdcChangeEvent<TestDocument>[] = [];
   public deleteEvents: CdcChangeEvent<TestDocument>[] = [];
 
-  protected async handleInsert(event: CdcChangeEvent<TestDocument>): Promise<void> {
+  async handleInsert(event: CdcChangeEvent<TestDocument>): Promise<void> {
     this.insertEvents.push(event);
     await super.handleInsert(event);
   }
 
-  protected async handleUpdate(event: CdcChangeEvent<TestDocument>): Promise<void> {
+  async handleUpdate(event: CdcChangeEvent<TestDocument>): Promise<void> {
     this.updateEvents.push(event);
     await super.handleUpdate(event);
   }
@@ -45,6 +53,31 @@ class TestCdcService extends BaseCdcService<TestDocument> {
     this.deleteEvents.push(event);
     await super.handleDelete(event);
   }
+
+  // Protected hooks driven directly by the tests
+  getWatchedModel(): Model<TestDocument> | undefined {
+    return this.model;
+  }
+
+  getConnection(): Connection {
+    return super.getConnection();
+  }
+
+  startWatching(): Promise<void> {
+    return super.startWatching();
+  }
+
+  renewLease(): Promise<void> {
+    return super.renewLease();
+  }
+
+  reconnect(): Promise<void> {
+    return super.reconnect();
+  }
+
+  handleError(error: Error): Promise<void> {
+    return super.handleError(error);
+  }
 }
 
 describe('BaseCdcService', () => {
@@ -108,6 +141,24 @@ describe('BaseCdcService', () => {
         expect.objectContaining({ fullDocument: 'required' }),
       );
     });
+
+    it('should watch a custom stream source', async () => {
+      const connection = {} as Connection;
+      const source = {
+        watch: jest.fn().mockReturnValue(mockChangeStream),
+        getConnection: () => connection,
+      };
+
+      cdcService = new TestCdcService(source);
+      await cdcService.start();
+
+      expect(source.watch).toHaveBeenCalledWith([], expect.any(Object));
+      expect(cdcService.getWatchedModel()).toBeUndefined();
+      expect(cdcService.getConnection()).toBe(connection);
+      await expect(cdcService.enablePreAndPostImages()).rejects.toThrow(
+        'Pre- and post-images can only be enabled for a single collection source',
+      );
+    });
   });
 
   describe('stop', () => {
@@ -341,6 +392,664 @@ describe('BaseCdcService', () => {
     });
   });
 
+  describe('checkpointing', () => {
+    let store: InMemoryCdcCheckpointStore;
+
+    const emitChange = async (token: string) => {
+      mockChangeStream.emit('change', {
+        _id: { _data: token },
+        operationType: 'insert',
+        documentKey: { _id: token },
+        fullDocument: { _id: token, name: 'test', value: 1 },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    };
+
+    beforeEach(() => {
+      store = new InMemoryCdcCheckpointStore();
+    });
+
+    it('should resume from the stored token on start', async () => {
+      await store.save('users', { _data: 'stored' });
+      cdcService = new TestCdcService(mockModel, { checkpoint: { store, key: 'users' } });
+
+      await cdcService.start();
+
+      expect(mockModel.watch).toHaveBeenCalledWith(
+        [],
+        expect.objectContaining({ resumeAfter: { _data: 'stored' } }),
+      );
+      expect(cdcService.getResumeToken()).toEqual({ _data: 'stored' });
+    });
+
+    it('should persist the token after processing every N events', async () => {
+      cdcService = new TestCdcService(mockModel, {
+        checkpoint: { store, key: 'users', everyEvents: 2 },
+      });
+      await cdcService.start();
+
+      await emitChange('t1');
+      expect(await store.load('users')).toBeNull();
+
+      await emitChange('t2');
+      expect(await store.load('users')).toEqual({ _data: 't2' });
+    });
+
+    it('should not persist the token when processing fails', async () => {
+      cdcService = new TestCdcService(mockModel, {
+        checkpoint: { store, key: 'users' },
+        autoReconnect: false,
+      });
+      jest.spyOn(cdcService, 'handleInsert').mockRejectedValue(new Error('failed'));
+      await cdcService.start();
+
+      await emitChange('t1');
+
+      expect(await store.load('users')).toBeNull();
+    });
+
+    it('should not checkpoint past an earlier event that is still running', async () => {
+      let finishSlow!: () => void;
+      cdcService = new TestCdcService(mockModel, { checkpoint: { store, key: 'users' } });
+      jest
+        .spyOn(cdcService, 'handleInsert')
+        .mockImplementationOnce(() => new Promise<void>((resolve) => (finishSlow = resolve)));
+      await cdcService.start();
+
+      await emitChange('t1');
+      await emitChange('t2');
+      expect(await store.load('users')).toBeNull();
+
+      finishSlow();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(await store.load('users')).toEqual({ _data: 't2' });
+    });
+
+    it('should flush the latest token on stop', async () => {
+      cdcService = new TestCdcService(mockModel, {
+        checkpoint: { store, key: 'users', everyEvents: 100 },
+      });
+      await cdcService.start();
+      await emitChange('t1');
+
+      await cdcService.stop();
+
+      expect(await store.load('users')).toEqual({ _data: 't1' });
+    });
+
+    it('should start from now when the history is lost', async () => {
+      await store.save('users', { _data: 'expired' });
+      cdcService = new TestCdcService(mockModel, { checkpoint: { store, key: 'users' } });
+      await cdcService.start();
+
+      const error: any = new Error('Resume point no longer in oplog');
+      error.code = 286;
+      mockChangeStream.emit('error', error);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(mockModel.watch).toHaveBeenCalledTimes(2);
+      expect(mockModel.watch.mock.calls[1][1].resumeAfter).toBeUndefined();
+      expect(await store.load('users')).toBeNull();
+      expect(cdcService.isWatching()).toBe(true);
+    });
+
+    it('should stop and report the error with the fail policy', async () => {
+      const handler = { onEvent: jest.fn(), onError: jest.fn() };
+      await store.save('users', { _data: 'expired' });
+      cdcService = new TestCdcService(mockModel, {
+        checkpoint: { store, key: 'users', historyLostPolicy: 'fail' },
+      });
+      cdcService.registerHandler(handler);
+      await cdcService.start();
+
+      const error: any = new Error('Resume point no longer in oplog');
+      error.codeName = 'ChangeStreamHistoryLost';
+      mockChangeStream.emit('error', error);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(mockModel.watch).toHaveBeenCalledTimes(1);
+      expect(cdcService.isWatching()).toBe(false);
+      expect(handler.onError).toHaveBeenCalledWith(error);
+      expect(await store.load('users')).toEqual({ _data: 'expired' });
+    });
+  });
+
+  describe('handler retries and dead letters', () => {
+    let deadLetters: InMemoryCdcDeadLetterStore;
+
+    const emitChange = async (wait = 20) => {
+      mockChangeStream.emit('change', {
+        _id: { _data: 't1' },
+        operationType: 'insert',
+        documentKey: { _id: '1' },
+        fullDocument: { _id: '1', name: 'test', value: 1 },
+      });
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    };
+
+    beforeEach(() => {
+      deadLetters = new InMemoryCdcDeadLetterStore();
+    });
+
+    it('should retry a failing handler until it succeeds', async () => {
+      cdcService = new TestCdcService(mockModel, {
+        handlerRetry: { maxAttempts: 3, initialDelayMs: 1, jitter: 0 },
+        deadLetter: { store: deadLetters },
+      });
+      const handler: CdcEventHandler<TestDocument> = {
+        onEvent: jest
+          .fn()
+          .mockRejectedValueOnce(new Error('busy'))
+          .mockResolvedValueOnce(undefined),
+      };
+      cdcService.registerHandler(handler);
+      await cdcService.start();
+
+      await emitChange();
+
+      expect(handler.onEvent).toHaveBeenCalledTimes(2);
+      expect(await cdcService.listDeadLetters()).toHaveLength(0);
+    });
+
+    it('should dead-letter the event after the last attempt', async () => {
+      cdcService = new TestCdcService(mockModel, {
+        deadLetter: { store: deadLetters, source: 'users' },
+      });
+      const handler: CdcEventHandler<TestDocument> = {
+        name: 'search-indexer',
+        retryPolicy: { maxAttempts: 2, initialDelayMs: 1, jitter: 0 },
+        onEvent: jest.fn().mockRejectedValue(new Error('index unavailable')),
+      };
+      const healthy: CdcEventHandler<TestDocument> = { onEvent: jest.fn() };
+      cdcService.registerHandler(handler);
+      cdcService.registerHandler(healthy);
+      await cdcService.start();
+
+      await emitChange();
+
+      const entries = await cdcService.listDeadLetters();
+      expect(handler.onEvent).toHaveBeenCalledTimes(2);
+      expect(healthy.onEvent).toHaveBeenCalledTimes(1);
+      expect(entries).toEqual([
+        expect.objectContaining({
+          source: 'users',
+          handlerName: 'search-indexer',
+          error: 'index unavailable',
+          attempts: 2,
+          event: expect.objectContaining({ documentKey: { _id: '1' } }),
+        }),
+      ]);
+    });
+
+    it('should replay a dead-lettered event and remove it on success', async () => {
+      cdcService = new TestCdcService(mockModel, { deadLetter: { store: deadLetters } });
+      const handler: CdcEventHandler<TestDocument> = {
+        name: 'mailer',
+        onEvent: jest.fn().mockRejectedValueOnce(new Error('smtp down')),
+      };
+      cdcService.registerHandler(handler);
+      await cdcService.start();
+      await emitChange();
+
+      const [entry] = await cdcService.listDeadLetters({ handlerName: 'mailer' });
+      expect(await cdcService.replayDeadLetter(entry.id)).toBe(true);
+
+      expect(handler.onEvent).toHaveBeenLastCalledWith(entry.event);
+      expect(await cdcService.listDeadLetters()).toHaveLength(0);
+    });
+
+    it('should keep the entry when the replay fails again', async () => {
+      cdcService = new TestCdcService(mockModel, { deadLetter: { store: deadLetters } });
+      const handler: CdcEventHandler<TestDocument> = {
+        name: 'mailer',
+        onEvent: jest.fn().mockRejectedValue(new Error('smtp down')),
+      };
+      cdcService.registerHandler(handler);
+      await cdcService.start();
+      await emitChange();
+
+      const [entry] = await cdcService.listDeadLetters();
+      expect(await cdcService.replayDeadLetter(entry.id)).toBe(false);
+      expect(await cdcService.listDeadLetters()).toHaveLength(1);
+    });
+
+    it('should purge dead-lettered events', async () => {
+      cdcService = new TestCdcService(mockModel, { deadLetter: { store: deadLetters } });
+      cdcService.registerHandler({ onEvent: jest.fn().mockRejectedValue(new Error('failed')) });
+      await cdcService.start();
+      await emitChange();
+
+      expect(await cdcService.purgeDeadLetters()).toBe(1);
+      expect(await cdcService.listDeadLetters()).toHaveLength(0);
+    });
+
+    it('should throw when no dead-letter store is configured', async () => {
+      await expect(cdcService.listDeadLetters()).rejects.toThrow(
+        'Dead-letter store is not configured for this CDC service',
+      );
+    });
+  });
+
+  describe('ordered concurrent processing', () => {
+    let pullStream: any;
+
+    // Change stream mock used in iterator mode
+    const createPullStream = () => {
+      const stream: any = new EventEmitter();
+      const buffered: any[] = [];
+      let waiter: { resolve: (change: any) => void; reject: (error: Error) => void } | undefined;
+      stream.next = jest.fn(() =>
+        buffered.length
+          ? Promise.resolve(buffered.shift())
+          : new Promise((resolve, reject) => {
+              waiter = { resolve, reject };
+            }),
+      );
+      stream.push = (change: any) => {
+        if (waiter) {
+          waiter.resolve(change);
+          waiter = undefined;
+        } else {
+          buffered.push(change);
+        }
+      };
+      stream.close = jest.fn(async () => {
+        waiter?.reject(new Error('ChangeStream is closed'));
+        waiter = undefined;
+      });
+      return stream;
+    };
+
+    const change = (token: string, id: string) => ({
+      _id: { _data: token },
+      operationType: 'update',
+      documentKey: { _id: id },
+    });
+
+    const deferred = () => {
+      let resolve!: () => void;
+      const promise = new Promise<void>((r) => (resolve = r));
+      return { promise, resolve };
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    beforeEach(() => {
+      pullStream = createPullStream();
+      mockModel.watch.mockReturnValue(pullStream);
+    });
+
+    it('should keep events of the same document in order', async () => {
+      const first = deferred();
+      const calls: string[] = [];
+      cdcService = new TestCdcService(mockModel, { processing: { concurrency: 4 } });
+      cdcService.registerHandler({
+        onEvent: async (event) => {
+          const token = `${event.documentKey!._id}`;
+          calls.push(`start:${token}`);
+          if (calls.length === 1) {
+            await first.promise;
+          }
+          calls.push(`end:${token}`);
+        },
+      });
+      await cdcService.start();
+
+      pullStream.push(change('t1', 'a'));
+      pullStream.push(change('t2', 'a'));
+      pullStream.push(change('t3', 'b'));
+      await flush();
+
+      // b runs concurrently while the second event for a waits for the first
+      expect(calls).toEqual(['start:a', 'start:b', 'end:b']);
+
+      first.resolve();
+      await flush();
+      expect(calls).toEqual(['start:a', 'start:b', 'end:b', 'end:a', 'start:a', 'end:a']);
+    });
+
+    it('should only checkpoint once all earlier events are done', async () => {
+      const store = new InMemoryCdcCheckpointStore();
+      const slow = deferred();
+      cdcService = new TestCdcService(mockModel, {
+        processing: { concurrency: 2 },
+        checkpoint: { store, key: 'users' },
+      });
+      cdcService.registerHandler({
+        onEvent: async (event) => {
+          if (event.documentKey!._id === 'a') {
+            await slow.promise;
+          }
+        },
+      });
+      await cdcService.start();
+
+      pullStream.push(change('t1', 'a'));
+      pullStream.push(change('t2', 'b'));
+      await flush();
+
+      expect(await store.load('users')).toBeNull();
+      expect(cdcService.getResumeToken()).toBeNull();
+
+      slow.resolve();
+      await flush();
+
+      expect(await store.load('users')).toEqual({ _data: 't2' });
+      expect(cdcService.getResumeToken()).toEqual({ _data: 't2' });
+    });
+
+    it('should not checkpoint a failed event', async () => {
+      const store = new InMemoryCdcCheckpointStore();
+      cdcService = new TestCdcService(mockModel, {
+        processing: { concurrency: 2 },
+        checkpoint: { store, key: 'users' },
+      });
+      jest.spyOn(cdcService, 'handleUpdate').mockRejectedValueOnce(new Error('failed'));
+      await cdcService.start();
+
+      pullStream.push(change('t1', 'a'));
+      await flush();
+
+      expect(await store.load('users')).toBeNull();
+      expect(cdcService.getResumeToken()).toBeNull();
+
+      pullStream.push(change('t2', 'b'));
+      await flush();
+
+      expect(await store.load('users')).toEqual({ _data: 't2' });
+    });
+
+    it('should not leak rejections from a failing error handler', async () => {
+      cdcService = new TestCdcService(mockModel, { processing: { concurrency: 1 } });
+      jest.spyOn(cdcService, 'handleUpdate').mockRejectedValueOnce(new Error('failed'));
+      jest.spyOn(cdcService, 'handleError').mockRejectedValueOnce(new Error('handler failed'));
+      await cdcService.start();
+
+      pullStream.push(change('t1', 'a'));
+      await flush();
+
+      expect(cdcService.handleError).toHaveBeenCalledWith(new Error('failed'));
+    });
+
+    it('should stop reading while the queue is full', async () => {
+      const blocked = deferred();
+      cdcService = new TestCdcService(mockModel, { processing: { concurrency: 1, maxPending: 2 } });
+      cdcService.registerHandler({ onEvent: () => blocked.promise });
+      await cdcService.start();
+
+      pullStream.push(change('t1', 'a'));
+      pullStream.push(change('t2', 'b'));
+      pullStream.push(change('t3', 'c'));
+      await flush();
+
+      expect(pullStream.next).toHaveBeenCalledTimes(2);
+
+      blocked.resolve();
+      await flush();
+
+      expect(pullStream.next).toHaveBeenCalledTimes(4);
+    });
+
+    it('should finish in-flight events before stopping', async () => {
+      const store = new InMemoryCdcCheckpointStore();
+      const slow = deferred();
+      const onEvent = jest.fn(() => slow.promise);
+      cdcService = new TestCdcService(mockModel, {
+        processing: { concurrency: 2 },
+        checkpoint: { store, key: 'users', everyEvents: 100 },
+      });
+      cdcService.registerHandler({ onEvent });
+      await cdcService.start();
+      pullStream.push(change('t1', 'a'));
+      await flush();
+
+      const stopped = cdcService.stop();
+      setTimeout(() => slow.resolve(), 10);
+      await stopped;
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(await store.load('users')).toEqual({ _data: 't1' });
+    });
+  });
+
+  describe('pre-images and diffs', () => {
+    it('should request pre-images and enable them on the collection', async () => {
+      const command = jest.fn().mockResolvedValue({ ok: 1 });
+      mockModel.db = { db: { command } };
+      mockModel.collection = { collectionName: 'users' };
+      cdcService = new TestCdcService(mockModel, {
+        fullDocumentBeforeChange: 'whenAvailable',
+        enablePreAndPostImages: true,
+      });
+
+      await cdcService.start();
+      await cdcService.stop();
+      await cdcService.start();
+
+      expect(command).toHaveBeenCalledTimes(1);
+      expect(command).toHaveBeenCalledWith({
+        collMod: 'users',
+        changeStreamPreAndPostImages: { enabled: true },
+      });
+      expect(mockModel.watch).toHaveBeenCalledWith(
+        [],
+        expect.objectContaining({ fullDocumentBeforeChange: 'whenAvailable' }),
+      );
+    });
+
+    it('should attach a diff to update events', async () => {
+      await cdcService.start();
+
+      mockChangeStream.emit('change', {
+        _id: { _data: 't1' },
+        operationType: 'update',
+        documentKey: { _id: '1' },
+        fullDocumentBeforeChange: { _id: '1', name: 'old', value: 1 },
+        updateDescription: { updatedFields: { name: 'new' }, removedFields: ['value'] },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(cdcService.updateEvents[0].diff).toEqual([
+        { path: 'name', kind: 'set', oldValue: 'old', newValue: 'new' },
+        { path: 'value', kind: 'unset', oldValue: 1 },
+      ]);
+    });
+  });
+
+  describe('leader election', () => {
+    let leases: InMemoryCdcLeaseStore;
+
+    beforeEach(() => {
+      leases = new InMemoryCdcLeaseStore();
+    });
+
+    const createElected = (instanceId: string) =>
+      new TestCdcService(mockModel, {
+        leaderElection: { store: leases, lockName: 'users', instanceId, renewIntervalMs: 60000 },
+      });
+
+    it('should report a disabled lease state without leader election', () => {
+      expect(cdcService.getLeaseState()).toEqual({ role: 'disabled' });
+    });
+
+    it('should watch only while holding the lease', async () => {
+      const leader = createElected('a');
+      const follower = createElected('b');
+
+      await leader.start();
+      await follower.start();
+
+      expect(leader.getLeaseState().role).toBe('leader');
+      expect(follower.getLeaseState().role).toBe('follower');
+      expect(leader.isWatching()).toBe(true);
+      expect(follower.isWatching()).toBe(false);
+      expect(mockModel.watch).toHaveBeenCalledTimes(1);
+
+      await leader.stop();
+      await follower.stop();
+    });
+
+    it('should hand the lease over when the leader stops', async () => {
+      const leader = createElected('a');
+      const follower = createElected('b');
+      await leader.start();
+      await follower.start();
+
+      await leader.stop();
+      await follower.renewLease();
+
+      expect(leader.getLeaseState().role).toBe('stopped');
+      expect(follower.getLeaseState().role).toBe('leader');
+      expect(follower.isWatching()).toBe(true);
+
+      await follower.stop();
+    });
+
+    it('should step down when the lease is lost', async () => {
+      const leader = createElected('a');
+      const handler: CdcEventHandler<TestDocument> = {
+        onEvent: jest.fn(),
+        onLeaseChange: jest.fn(),
+      };
+      leader.registerHandler(handler);
+      await leader.start();
+
+      jest.spyOn(leases, 'acquire').mockResolvedValue(false);
+      await leader.renewLease();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(leader.getLeaseState().role).toBe('follower');
+      expect(leader.isWatching()).toBe(false);
+      expect(handler.onLeaseChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ role: 'follower', lockName: 'users', instanceId: 'a' }),
+      );
+
+      await leader.stop();
+    });
+
+    it('should not overwrite the checkpoint after losing the lease', async () => {
+      const checkpoints = new InMemoryCdcCheckpointStore();
+      const leader = new TestCdcService(mockModel, {
+        leaderElection: {
+          store: leases,
+          lockName: 'users',
+          instanceId: 'a',
+          renewIntervalMs: 60000,
+        },
+        checkpoint: { store: checkpoints, everyEvents: 100 },
+      });
+      await leader.start();
+      mockChangeStream.emit('change', {
+        _id: { _data: 'token1' },
+        operationType: 'insert',
+        documentKey: { _id: '1' },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const save = jest.spyOn(checkpoints, 'save');
+
+      jest.spyOn(leases, 'acquire').mockResolvedValue(false);
+      await leader.renewLease();
+
+      expect(leader.isWatching()).toBe(false);
+      expect(save).not.toHaveBeenCalled();
+
+      await leader.stop();
+    });
+
+    it('should hand the lease over when the stream fails to start', async () => {
+      const leader = createElected('a');
+      const follower = createElected('b');
+      jest.spyOn(leader, 'startWatching').mockRejectedValueOnce(new Error('no stream'));
+
+      await expect(leader.start()).resolves.toBeUndefined();
+      await follower.start();
+
+      expect(leader.getLeaseState().role).toBe('follower');
+      expect(leader.isWatching()).toBe(false);
+      expect(follower.getLeaseState().role).toBe('leader');
+      expect(follower.isWatching()).toBe(true);
+
+      await follower.stop();
+      await leader.renewLease();
+      expect(leader.getLeaseState().role).toBe('leader');
+      expect(leader.isWatching()).toBe(true);
+
+      await leader.stop();
+    });
+
+    it('should not leak rejections from the renewal timer', async () => {
+      jest.useFakeTimers();
+      const leader = new TestCdcService(mockModel, {
+        leaderElection: {
+          store: leases,
+          lockName: 'users',
+          instanceId: 'a',
+          renewIntervalMs: 1000,
+        },
+      });
+      await leader.start();
+      jest.spyOn(leader, 'renewLease').mockRejectedValue(new Error('stop failed'));
+      const logger = (leader as unknown as { logger: { error: jest.Mock } }).logger;
+
+      await jest.advanceTimersByTimeAsync(1000);
+      jest.useRealTimers();
+
+      expect(logger.error).toHaveBeenCalledWith('Failed to renew CDC lease', expect.any(Error));
+      jest.mocked(leader.renewLease).mockRestore();
+      await leader.stop();
+    });
+
+    it('should keep leading through store errors until the lease expires', async () => {
+      const leader = createElected('a');
+      await leader.start();
+
+      jest.spyOn(leases, 'acquire').mockRejectedValue(new Error('network'));
+      await leader.renewLease();
+
+      expect(leader.getLeaseState().role).toBe('leader');
+      expect(leader.isWatching()).toBe(true);
+
+      await leader.stop();
+    });
+  });
+
+  describe('status', () => {
+    it('should report the runtime status', async () => {
+      mockModel.db = {};
+      expect(cdcService.getStatus()).toEqual({
+        name: 'TestCdcService',
+        isWatching: false,
+        lastEventAt: null,
+        reconnectAttempts: 0,
+        leaseRole: 'disabled',
+      });
+
+      await cdcService.start();
+      mockChangeStream.emit('change', {
+        _id: { _data: 'token1' },
+        operationType: 'insert',
+        documentKey: { _id: '1' },
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(cdcService.getStatus()).toEqual(
+        expect.objectContaining({ isWatching: true, lastEventAt: expect.any(Date) }),
+      );
+    });
+
+    it('should list the started services of a connection', async () => {
+      const connection = {} as Connection;
+      mockModel.db = connection;
+
+      await cdcService.start();
+      expect(BaseCdcService.getRunningServices(connection)).toEqual([cdcService]);
+      expect(BaseCdcService.getRunningServices({} as Connection)).toEqual([]);
+
+      await cdcService.stop();
+      expect(BaseCdcService.getRunningServices(connection)).toEqual([]);
+    });
+  });
+
   describe('onModuleDestroy', () => {
     it('should stop watching on module destroy', async () => {
       await cdcService.start();
@@ -349,5 +1058,48 @@ describe('BaseCdcService', () => {
       expect(mockChangeStream.close).toHaveBeenCalled();
       expect(cdcService.isWatching()).toBe(false);
     });
+
+    it('should leave services of managed connections to the shutdown coordinator', async () => {
+      mockModel.db = {};
+      registerShutdownConnection('default', mockModel.db);
+      await cdcService.start();
+
+      await cdcService.onModuleDestroy();
+      unregisterShutdownConnection('default');
+
+      expect(cdcService.isWatching()).toBe(true);
+    });
+  });
+
+  describe('stopIntake and drain', () => {
+    it('should stop reading events and wait for running handlers', async () => {
+      let finish!: () => void;
+      cdcService.registerHandler({
+        onEvent: () => new Promise<void>((resolve) => (finish = resolve)),
+      });
+      await cdcService.start();
+      mockChangeStream.emit('change', {
+        _id: { _data: 'token1' },
+        operationType: 'insert',
+        documentKey: { _id: '1' },
+      });
+
+      await cdcService.stopIntake();
+      expect(mockChangeStream.close).toHaveBeenCalled();
+      await expect(cdcService.drain(10)).resolves.toBe(false);
+
+      finish();
+      await expect(cdcService.drain(1000)).resolves.toBe(true);
+      expect(cdcService.getResumeToken()).toEqual({ _data: 'token1' });
+    });
+
+    it('should not reconnect after the intake stopped', async () => {
+      await cdcService.start();
+      await cdcService.stopIntake();
+
+      await cdcService.reconnect();
+
+      expect(mockModel.watch).toHaveBeenCalledTimes(1);
+    });
   });
 });
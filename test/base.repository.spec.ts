@@ -0,0 +1,1002 @@
+import * as mongoose from 'mongoose';
+import { Model } from 'mongoose';
+import { BaseRepository } from '../src/repositories/base.repository';
+import { OptimisticLockError } from '../src/errors/optimistic-lock.error';
+import { CrossTenantAccessError, TenantNotResolvedError } from '../src/errors/tenancy.error';
+import { TenancyService } from '../src/services/tenancy.service';
+import { runWithTenant, runWithoutTenant } from '../src/utils/tenant.utils';
+import { getPendingOperationCount } from '../src/utils/shutdown.utils';
+import { decodeCursor, encodeCursor } from '../src/utils/cursor.utils';
+
+interface TestDocument {
+  _id: string;
+  name: string;
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+}
+
+// Build a query-like object resolving to the given value
+const mockQuery = (value: any) => {
+  const query: any = {
+    exec: jest.fn().mockResolvedValue(value),
+  };
+  query.session = jest.fn().mockReturnValue(query);
+  query.sort = jest.fn().mockReturnValue(query);
+  query.skip = jest.fn().mockReturnValue(query);
+  query.limit = jest.fn().mockReturnValue(query);
+  query.select = jest.fn().mockReturnValue(query);
+  query.lean = jest.fn().mockReturnValue(query);
+  query.read = jest.fn().mockReturnValue(query);
+  return query;
+};
+
+describe('BaseRepository', () => {
+  let mockModel: any;
+
+  beforeEach(() => {
+    mockModel = {
+      find: jest.fn().mockReturnValue(mockQuery([])),
+      findOne: jest.fn().mockReturnValue(mockQuery(null)),
+      findById: jest.fn().mockReturnValue(mockQuery(null)),
+      findOneAndDelete: jest.fn().mockReturnValue(mockQuery({ _id: '1' })),
+      findOneAndUpdate: jest.fn().mockReturnValue(mockQuery({ _id: '1' })),
+      updateOne: jest.fn().mockReturnValue(mockQuery({ modifiedCount: 1 })),
+      updateMany: jest.fn().mockReturnValue(mockQuery({ modifiedCount: 2 })),
+      deleteMany: jest.fn().mockReturnValue(mockQuery({ deletedCount: 3 })),
+      countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+      schema: { get: jest.fn().mockReturnValue('__v') },
+    };
+  });
+
+  describe('without soft delete', () => {
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>);
+    });
+
+    it('should pass filters through unchanged', async () => {
+      await repository.findAll({ name: 'test' });
+      expect(mockModel.find).toHaveBeenCalledWith({ name: 'test' }, null, {});
+    });
+
+    it('should apply sort and projection in findWithPagination', async () => {
+      const query = mockQuery([]);
+      mockModel.find.mockReturnValue(query);
+
+      await repository.findWithPagination(
+        { age: { $gte: 18 } },
+        { page: 2, limit: 5, sort: { name: 1 }, projection: { name: 1 } },
+      );
+
+      expect(query.skip).toHaveBeenCalledWith(5);
+      expect(query.sort).toHaveBeenCalledWith({ name: 1 });
+      expect(query.select).toHaveBeenCalledWith({ name: 1 });
+    });
+
+    it('should remove documents on delete', async () => {
+      await expect(repository.delete('1')).resolves.toBe(true);
+      expect(mockModel.findOneAndDelete).toHaveBeenCalledWith({ _id: '1' });
+      expect(mockModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should remove documents on deleteMany', async () => {
+      await expect(repository.deleteMany({ name: 'test' })).resolves.toBe(3);
+      expect(mockModel.deleteMany).toHaveBeenCalledWith({ name: 'test' });
+    });
+
+    it('should reject soft-delete only operations', async () => {
+      await expect(repository.restore('1')).rejects.toThrow(
+        'Soft delete is not enabled for this repository',
+      );
+      await expect(repository.findDeleted()).rejects.toThrow(
+        'Soft delete is not enabled for this repository',
+      );
+    });
+  });
+
+  describe('cursor pagination', () => {
+    const sort = { name: 1, _id: 1 } as const;
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>);
+    });
+
+    it('should report no previous page without a cursor', async () => {
+      mockModel.find.mockReturnValue(
+        mockQuery([
+          { _id: '1', name: 'a' },
+          { _id: '2', name: 'b' },
+        ]),
+      );
+
+      const page = await repository.findWithCursor({}, { limit: 1, sort: { name: 1 } });
+
+      expect(page.data).toEqual([{ _id: '1', name: 'a' }]);
+      expect(page).toEqual(expect.objectContaining({ hasNext: true, hasPrevious: false }));
+      expect(page.prevCursor).toBeNull();
+      expect(mockModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should report both sides of a backward page', async () => {
+      const before = encodeCursor({ _id: '5', name: 'e' }, sort);
+      const query = mockQuery([
+        { _id: '4', name: 'd' },
+        { _id: '3', name: 'c' },
+        { _id: '2', name: 'b' },
+      ]);
+      mockModel.find.mockReturnValue(query);
+      mockModel.findOne.mockReturnValue(mockQuery({ _id: '5' }));
+
+      const page = await repository.findWithCursor({}, { limit: 2, sort: { name: 1 }, before });
+
+      expect(query.sort).toHaveBeenCalledWith({ name: -1, _id: -1 });
+      expect(page.data).toEqual([
+        { _id: '3', name: 'c' },
+        { _id: '4', name: 'd' },
+      ]);
+      expect(page).toEqual(expect.objectContaining({ hasNext: true, hasPrevious: true }));
+      expect(decodeCursor(page.prevCursor!, sort)).toEqual({ name: 'c', _id: '3' });
+      expect(decodeCursor(page.nextCursor!, sort)).toEqual({ name: 'd', _id: '4' });
+      expect(mockModel.findOne).toHaveBeenCalledWith({
+        $or: [{ name: { $gt: 'e' } }, { name: 'e', _id: { $gt: '5' } }, { name: 'e', _id: '5' }],
+      });
+    });
+
+    it('should report no previous page at the start of a backward page', async () => {
+      const before = encodeCursor({ _id: '2', name: 'b' }, sort);
+      mockModel.find.mockReturnValue(mockQuery([{ _id: '1', name: 'a' }]));
+      mockModel.findOne.mockReturnValue(mockQuery({ _id: '2' }));
+
+      const page = await repository.findWithCursor({}, { limit: 2, sort: { name: 1 }, before });
+
+      expect(page).toEqual(expect.objectContaining({ hasNext: true, hasPrevious: false }));
+      expect(page.prevCursor).toBeNull();
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it('should page past documents with a null sort value', async () => {
+      const after = encodeCursor({ _id: '1' }, sort);
+      mockModel.find.mockReturnValue(mockQuery([{ _id: '2', name: 'a' }]));
+      mockModel.findOne.mockReturnValue(mockQuery({ _id: '1' }));
+
+      const page = await repository.findWithCursor({}, { limit: 2, sort: { name: 1 }, after });
+
+      expect(mockModel.find).toHaveBeenCalledWith({
+        $or: [{ name: { $ne: null } }, { name: null, _id: { $gt: '1' } }],
+      });
+      expect(page).toEqual(expect.objectContaining({ hasNext: false, hasPrevious: true }));
+    });
+  });
+
+  describe('with soft delete', () => {
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>, { softDelete: true });
+    });
+
+    it('should exclude deleted documents from reads', async () => {
+      await repository.findAll({ name: 'test' });
+      await repository.findOne({ name: 'test' });
+      await repository.count();
+
+      expect(mockModel.find).toHaveBeenCalledWith(
+        { $and: [{ name: 'test' }, { deletedAt: null }] },
+        null,
+        {},
+      );
+      expect(mockModel.findOne).toHaveBeenCalledWith({
+        $and: [{ name: 'test' }, { deletedAt: null }],
+      });
+      expect(mockModel.countDocuments).toHaveBeenCalledWith({ deletedAt: null });
+    });
+
+    it('should exclude deleted documents from findById', async () => {
+      await repository.findById('1');
+      expect(mockModel.findOne).toHaveBeenCalledWith({ $and: [{ _id: '1' }, { deletedAt: null }] });
+      expect(mockModel.findById).not.toHaveBeenCalled();
+    });
+
+    it('should not override an explicit deletedAt filter', async () => {
+      await repository.findAll({ deletedAt: { $lt: new Date(0) } });
+      expect(mockModel.find).toHaveBeenCalledWith({ deletedAt: { $lt: new Date(0) } }, null, {});
+    });
+
+    it('should mark documents as deleted on delete', async () => {
+      await expect(repository.delete('1', 'admin')).resolves.toBe(true);
+
+      expect(mockModel.findOneAndDelete).not.toHaveBeenCalled();
+      expect(mockModel.updateOne).toHaveBeenCalledWith(
+        { $and: [{ _id: '1' }, { deletedAt: null }] },
+        { $set: { deletedAt: expect.any(Date), deletedBy: 'admin' } },
+      );
+    });
+
+    it('should mark documents as deleted on deleteMany', async () => {
+      await expect(repository.deleteMany({ name: 'test' })).resolves.toBe(2);
+
+      expect(mockModel.deleteMany).not.toHaveBeenCalled();
+      expect(mockModel.updateMany).toHaveBeenCalledWith(
+        { $and: [{ name: 'test' }, { deletedAt: null }] },
+        { $set: { deletedAt: expect.any(Date), deletedBy: null } },
+      );
+    });
+
+    it('should not update deleted documents', async () => {
+      await repository.update('1', { name: 'b' });
+      await repository.updateMany({ name: 'a' }, { name: 'b' });
+
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { $and: [{ _id: '1' }, { deletedAt: null }] },
+        { name: 'b' },
+        { new: true },
+      );
+      expect(mockModel.updateMany).toHaveBeenCalledWith(
+        { $and: [{ name: 'a' }, { deletedAt: null }] },
+        { name: 'b' },
+      );
+
+      await repository.withDeleted().update('1', { name: 'c' });
+      expect(mockModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: '1' },
+        { name: 'c' },
+        { new: true },
+      );
+    });
+
+    it('should only restore deleted documents', async () => {
+      await repository.restore('1');
+
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '1', deletedAt: { $ne: null } },
+        { $set: { deletedAt: null, deletedBy: null } },
+        { new: true },
+      );
+    });
+
+    it('should include deleted documents when scoped withDeleted', async () => {
+      const scoped = repository.withDeleted();
+      await scoped.findAll({ name: 'test' });
+      await repository.findAll({ name: 'other' });
+
+      expect(mockModel.find).toHaveBeenNthCalledWith(1, { name: 'test' }, null, {});
+      expect(mockModel.find).toHaveBeenNthCalledWith(
+        2,
+        { $and: [{ name: 'other' }, { deletedAt: null }] },
+        null,
+        {},
+      );
+    });
+
+    it('should find only deleted documents', async () => {
+      await repository.findDeleted({ name: 'test' });
+      expect(mockModel.find).toHaveBeenCalledWith(
+        { $and: [{ name: 'test' }, { deletedAt: { $ne: null } }] },
+        null,
+        {},
+      );
+    });
+
+    it('should restore a deleted document', async () => {
+      await repository.restore('1');
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '1', deletedAt: { $ne: null } },
+        { $set: { deletedAt: null, deletedBy: null } },
+        { new: true },
+      );
+    });
+
+    it('should remove documents on hardDelete', async () => {
+      await expect(repository.hardDelete('1')).resolves.toBe(true);
+      expect(mockModel.findOneAndDelete).toHaveBeenCalledWith({ _id: '1' });
+    });
+
+    it('should support custom field names', async () => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>, {
+        softDelete: { deletedAtField: 'removedAt', deletedByField: 'removedBy' },
+      });
+
+      await repository.delete('1', 'admin');
+      expect(mockModel.updateOne).toHaveBeenCalledWith(
+        { $and: [{ _id: '1' }, { removedAt: null }] },
+        { $set: { removedAt: expect.any(Date), removedBy: 'admin' } },
+      );
+    });
+  });
+
+  describe('optimistic locking', () => {
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>);
+    });
+
+    it('should update without a version check by default', async () => {
+      await repository.update('1', { name: 'new' });
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '1' },
+        { name: 'new' },
+        { new: true },
+      );
+    });
+
+    it('should match on and increment the version', async () => {
+      await repository.update('1', { name: 'new', $push: { tags: 'a' } }, { expectedVersion: 2 });
+
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '1', __v: 2 },
+        { $push: { tags: 'a' }, $set: { name: 'new' }, $inc: { __v: 1 } },
+        { new: true },
+      );
+    });
+
+    it('should throw OptimisticLockError when the version changed', async () => {
+      mockModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+      mockModel.findOne.mockReturnValue(mockQuery({ _id: '1', __v: 3 }));
+
+      const error = await repository
+        .update('1', { name: 'new' }, { expectedVersion: 2 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OptimisticLockError);
+      expect(error.expectedVersion).toBe(2);
+      expect(error.actualVersion).toBe(3);
+    });
+
+    it('should return null when the document does not exist', async () => {
+      mockModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+      await expect(repository.update('1', { name: 'new' }, { expectedVersion: 2 })).resolves.toBe(
+        null,
+      );
+    });
+
+    it('should require a version key', async () => {
+      mockModel.schema.get.mockReturnValue(false);
+
+      await expect(repository.update('1', { name: 'new' }, { expectedVersion: 2 })).rejects.toThrow(
+        'Optimistic locking requires the schema versionKey to be enabled',
+      );
+    });
+  });
+
+  describe('bulk operations', () => {
+    const BulkModel = mongoose.model(
+      'BulkTest',
+      new mongoose.Schema({
+        name: { type: String, required: true },
+        email: { type: String, required: true },
+        age: { type: Number, min: 0 },
+      }),
+    );
+    let repository: BaseRepository<any>;
+    let bulkWrite: jest.SpyInstance;
+
+    beforeEach(() => {
+      repository = new BaseRepository<any>(BulkModel);
+      bulkWrite = jest.spyOn(BulkModel, 'bulkWrite');
+    });
+
+    afterEach(() => {
+      bulkWrite.mockRestore();
+    });
+
+    it('should insert valid documents and report invalid ones', async () => {
+      bulkWrite.mockResolvedValue({ insertedCount: 2, insertedIds: { 0: 'a', 1: 'b' } });
+
+      const report = await repository.createMany([
+        { name: 'A', email: 'a@test.com' },
+        { email: 'missing-name@test.com' },
+        { name: 'C', email: 'c@test.com' },
+      ]);
+
+      expect(bulkWrite).toHaveBeenCalledTimes(1);
+      expect(bulkWrite.mock.calls[0][0]).toHaveLength(2);
+      expect(report.insertedCount).toBe(2);
+      expect(report.insertedIds).toEqual(['a', 'b']);
+      expect(report.failedCount).toBe(1);
+      expect(report.failed[0]).toMatchObject({ index: 1, status: 'failed' });
+      expect(report.failed[0].validationErrors).toHaveProperty('name');
+      expect(report.items.map((item) => item.status)).toEqual(['inserted', 'failed', 'inserted']);
+    });
+
+    it('should split input into chunks', async () => {
+      bulkWrite.mockResolvedValue({ insertedCount: 1, insertedIds: { 0: 'x' } });
+
+      const docs = [1, 2, 3].map((i) => ({ name: `N${i}`, email: `${i}@test.com` }));
+      const report = await repository.createMany(docs, { chunkSize: 1 });
+
+      expect(bulkWrite).toHaveBeenCalledTimes(3);
+      expect(report.insertedCount).toBe(3);
+    });
+
+    it('should report write errors per item', async () => {
+      const error: any = new Error('E11000 duplicate key error');
+      error.writeErrors = [{ index: 1, errmsg: 'E11000 duplicate key error' }];
+      error.result = { insertedCount: 1, insertedIds: { 0: 'a', 1: 'b' } };
+      bulkWrite.mockRejectedValue(error);
+
+      const report = await repository.createMany([
+        { name: 'A', email: 'a@test.com' },
+        { name: 'B', email: 'a@test.com' },
+      ]);
+
+      expect(report.items).toEqual([
+        { index: 0, status: 'inserted', id: 'a' },
+        { index: 1, status: 'failed', error: 'E11000 duplicate key error' },
+      ]);
+    });
+
+    it('should stop at the first failure in ordered mode', async () => {
+      bulkWrite.mockResolvedValue({ insertedCount: 1, insertedIds: { 0: 'a' } });
+
+      const report = await repository.createMany(
+        [
+          { name: 'A', email: 'a@test.com' },
+          { name: 'B' },
+          { name: 'C', email: 'c@test.com' },
+          { name: 'D', email: 'd@test.com' },
+        ],
+        { ordered: true, chunkSize: 3 },
+      );
+
+      expect(bulkWrite).toHaveBeenCalledTimes(1);
+      expect(bulkWrite.mock.calls[0][0]).toHaveLength(1);
+      expect(report.items.map((item) => item.status)).toEqual([
+        'inserted',
+        'failed',
+        'skipped',
+        'skipped',
+      ]);
+    });
+
+    it('should rethrow errors that are not write errors', async () => {
+      bulkWrite.mockRejectedValue(new Error('connection lost'));
+
+      await expect(repository.createMany([{ name: 'A', email: 'a@test.com' }])).rejects.toThrow(
+        'connection lost',
+      );
+    });
+
+    it('should upsert on key fields', async () => {
+      bulkWrite.mockResolvedValue({ upsertedCount: 1, matchedCount: 1, upsertedIds: { 1: 'n' } });
+
+      const report = await repository.upsertMany(
+        [
+          { email: 'a@test.com', name: 'A' },
+          { email: 'b@test.com', name: 'B' },
+          { name: 'no-key' },
+        ],
+        ['email'],
+      );
+
+      expect(bulkWrite.mock.calls[0][0][0]).toEqual({
+        updateOne: {
+          filter: { email: 'a@test.com' },
+          update: { $set: { email: 'a@test.com', name: 'A' } },
+          upsert: true,
+        },
+      });
+      expect(report.items).toEqual([
+        { index: 0, status: 'updated' },
+        { index: 1, status: 'upserted', id: 'n' },
+        { index: 2, status: 'failed', error: 'Missing upsert key field(s): email' },
+      ]);
+      expect(report.upsertedIds).toEqual(['n']);
+      expect(report.matchedCount).toBe(1);
+    });
+
+    it('should run arbitrary operations with bulkWrite', async () => {
+      bulkWrite.mockResolvedValue({ deletedCount: 1, modifiedCount: 1 });
+
+      const report = await repository.bulkWrite([
+        { updateOne: { filter: { name: 'A' }, update: { $set: { age: 1 } } } },
+        { deleteOne: { filter: { name: 'B' } } },
+      ]);
+
+      expect(report.items.map((item) => item.status)).toEqual(['updated', 'deleted']);
+      expect(report.deletedCount).toBe(1);
+      expect(report.modifiedCount).toBe(1);
+    });
+  });
+
+  describe('tenancy', () => {
+    let connection: any;
+    let tenancy: TenancyService;
+    let repository: BaseRepository<TestDocument>;
+
+    describe('discriminator strategy', () => {
+      beforeEach(() => {
+        connection = { name: 'app' };
+        mockModel.db = connection;
+        mockModel.aggregate = jest.fn().mockReturnValue(mockQuery([]));
+        tenancy = new TenancyService(connection, { strategy: 'discriminator' });
+        repository = new BaseRepository(mockModel as Model<TestDocument>);
+      });
+
+      afterEach(() => {
+        tenancy.onModuleDestroy();
+      });
+
+      it('should scope filters to the current tenant', async () => {
+        await runWithTenant('t1', () => repository.findAll({ name: 'test' }));
+
+        expect(mockModel.find).toHaveBeenCalledWith(
+          { $and: [{ name: 'test' }, { tenantId: 't1' }] },
+          null,
+          {},
+        );
+      });
+
+      it('should scope updates and deletes to the current tenant', async () => {
+        await runWithTenant('t1', async () => {
+          await repository.updateMany({ name: 'a' }, { name: 'b' });
+          await repository.hardDelete('1');
+        });
+
+        expect(mockModel.updateMany).toHaveBeenCalledWith(
+          { $and: [{ name: 'a' }, { tenantId: 't1' }] },
+          { name: 'b' },
+        );
+        expect(mockModel.findOneAndDelete).toHaveBeenCalledWith({
+          $and: [{ _id: '1' }, { tenantId: 't1' }],
+        });
+      });
+
+      it('should add a tenant $match to aggregations', async () => {
+        await runWithTenant('t1', () =>
+          repository.aggregate([
+            { $geoNear: { near: [0, 0], distanceField: 'distance' } },
+            { $limit: 5 },
+          ]),
+        );
+
+        expect(mockModel.aggregate).toHaveBeenCalledWith([
+          { $geoNear: { near: [0, 0], distanceField: 'distance' } },
+          { $match: { tenantId: 't1' } },
+          { $limit: 5 },
+        ]);
+      });
+
+      it('should keep a $text $match first in aggregations', async () => {
+        await runWithTenant('t1', () =>
+          repository.aggregate([{ $match: { $text: { $search: 'coffee' } } }]),
+        );
+
+        expect(mockModel.aggregate).toHaveBeenCalledWith([
+          { $match: { $text: { $search: 'coffee' } } },
+          { $match: { tenantId: 't1' } },
+        ]);
+      });
+
+      it('should throw when no tenant is resolved', async () => {
+        await expect(repository.findAll()).rejects.toThrow(TenantNotResolvedError);
+      });
+
+      it('should throw on cross-tenant filters and updates', async () => {
+        await runWithTenant('t1', async () => {
+          await expect(repository.findAll({ tenantId: 't2' } as any)).rejects.toThrow(
+            CrossTenantAccessError,
+          );
+          await expect(
+            repository.updateMany({}, { $set: { tenantId: 't2' } } as any),
+          ).rejects.toThrow(CrossTenantAccessError);
+        });
+      });
+
+      it('should reject updates moving documents out of the tenant with any operator', async () => {
+        const updates = [
+          { $unset: { tenantId: 1 } },
+          { $rename: { tenantId: 'formerTenantId' } },
+          { $rename: { otherTenant: 'tenantId' } },
+          { $inc: { tenantId: 1 } },
+          { $push: { 'tenantId.history': 'x' } },
+          { $currentDate: { tenantId: true } },
+          { $set: { 'tenantId.0': 'x' } },
+          [{ $set: { tenantId: '$otherTenant' } }],
+          [{ $unset: ['name', 'tenantId'] }],
+          [{ $project: { name: 1 } }],
+          [{ $replaceWith: { name: 'x' } }],
+        ];
+
+        await runWithTenant('t1', async () => {
+          for (const update of updates) {
+            await expect(repository.updateMany({}, update as any)).rejects.toThrow(
+              CrossTenantAccessError,
+            );
+          }
+        });
+        expect(mockModel.updateMany).not.toHaveBeenCalled();
+      });
+
+      it('should allow updates keeping the tenant field', async () => {
+        await runWithTenant('t1', async () => {
+          await repository.updateMany({}, { $set: { tenantId: 't1' }, $unset: { name: 1 } } as any);
+          await repository.updateMany({}, [
+            { $set: { tenantId: { $literal: 't1' }, value: { $add: ['$value', 1] } } },
+            { $project: { name: 1, tenantId: 1 } },
+          ] as any);
+        });
+
+        expect(mockModel.updateMany).toHaveBeenCalledTimes(2);
+      });
+
+      it('should allow explicitly bypassing the tenant scope', async () => {
+        await runWithoutTenant(() => repository.findAll({ tenantId: 't2' } as any));
+        await repository.withoutTenant().findAll({ name: 'all' });
+
+        expect(mockModel.find).toHaveBeenNthCalledWith(1, { tenantId: 't2' }, null, {});
+        expect(mockModel.find).toHaveBeenNthCalledWith(2, { name: 'all' }, null, {});
+      });
+
+      it('should not scope repositories with tenancy disabled', async () => {
+        repository = new BaseRepository(mockModel as Model<TestDocument>, { tenancy: false });
+        await repository.findAll({ name: 'shared' });
+
+        expect(mockModel.find).toHaveBeenCalledWith({ name: 'shared' }, null, {});
+      });
+    });
+
+    describe('database strategy', () => {
+      let tenantModel: any;
+
+      beforeEach(() => {
+        tenantModel = { find: jest.fn().mockReturnValue(mockQuery([])) };
+        connection = {
+          name: 'app',
+          useDb: jest.fn().mockReturnValue({ models: { Test: tenantModel } }),
+        };
+        mockModel.db = connection;
+        mockModel.modelName = 'Test';
+        tenancy = new TenancyService(connection, { strategy: 'database' });
+        repository = new BaseRepository(mockModel as Model<TestDocument>);
+      });
+
+      afterEach(() => {
+        tenancy.onModuleDestroy();
+      });
+
+      it("should run queries against the tenant's database", async () => {
+        await runWithTenant('t1', () => repository.findAll({ name: 'test' }));
+
+        expect(connection.useDb).toHaveBeenCalledWith('app_t1', { useCache: true });
+        expect(tenantModel.find).toHaveBeenCalledWith({ name: 'test' }, null, {});
+        expect(mockModel.find).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('search', () => {
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      mockModel.aggregate = jest
+        .fn()
+        .mockReturnValue(mockQuery([{ _id: '1', name: 'Coffee shop', searchScore: 1.5 }]));
+      repository = new BaseRepository(mockModel as Model<TestDocument>, { softDelete: true });
+    });
+
+    it('should run the search pipeline with the soft-delete scope', async () => {
+      const results = await repository.search('coffee', { strategy: 'text', limit: 5 });
+
+      expect(mockModel.aggregate).toHaveBeenCalledWith([
+        { $match: { $text: { $search: 'coffee' }, deletedAt: null } },
+        { $addFields: { searchScore: { $meta: 'textScore' } } },
+        { $sort: { searchScore: -1, _id: 1 } },
+        { $limit: 5 },
+      ]);
+      expect(results).toEqual([{ _id: '1', name: 'Coffee shop', searchScore: 1.5 }]);
+    });
+
+    it('should highlight prefix and text results', async () => {
+      const [result] = await repository.search('coff', {
+        strategy: 'prefix',
+        fields: ['name'],
+        caseInsensitive: true,
+        highlight: true,
+      });
+
+      expect(result.searchHighlights).toEqual([
+        {
+          path: 'name',
+          texts: [
+            { value: 'Coff', type: 'hit' },
+            { value: 'ee shop', type: 'text' },
+          ],
+        },
+      ]);
+    });
+
+    it('should return no results for a blank term', async () => {
+      await expect(repository.search('  ', { strategy: 'text' })).resolves.toEqual([]);
+      expect(mockModel.aggregate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('explain', () => {
+    const rawExplain = {
+      queryPlanner: { namespace: 'app.tests', winningPlan: { stage: 'COLLSCAN' } },
+      executionStats: { nReturned: 1, totalDocsExamined: 100, executionTimeMillis: 3 },
+    };
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      mockModel.collection = { collectionName: 'tests' };
+      repository = new BaseRepository(mockModel as Model<TestDocument>, { softDelete: true });
+    });
+
+    it('should explain the scoped findAll query', async () => {
+      const query = mockQuery(rawExplain);
+      query.explain = jest.fn().mockReturnValue(query);
+      mockModel.find.mockReturnValue(query);
+
+      const report = await repository.explain({ name: 'test' }, { sort: { createdAt: -1 } });
+
+      expect(mockModel.find).toHaveBeenCalledWith(
+        { $and: [{ name: 'test' }, { deletedAt: null }] },
+        null,
+        { sort: { createdAt: -1 } },
+      );
+      expect(query.explain).toHaveBeenCalledWith('executionStats');
+      expect(report.collectionScan).toBe(true);
+      expect(report.docsExamined).toBe(100);
+      expect(report.suggestedIndexes).toEqual([
+        {
+          collection: 'tests',
+          key: { name: 1, deletedAt: 1, createdAt: -1 },
+          reason: 'Collection scan',
+        },
+      ]);
+    });
+
+    it('should explain aggregation pipelines', async () => {
+      const aggregation: any = { explain: jest.fn().mockResolvedValue({ stages: [] }) };
+      aggregation.session = jest.fn().mockReturnValue(aggregation);
+      aggregation.read = jest.fn().mockReturnValue(aggregation);
+      mockModel.aggregate = jest.fn().mockReturnValue(aggregation);
+
+      const report = await repository.explainAggregate([{ $match: {} }], 'queryPlanner');
+
+      expect(mockModel.aggregate).toHaveBeenCalledWith([{ $match: {} }]);
+      expect(aggregation.explain).toHaveBeenCalledWith('queryPlanner');
+      expect(report.winningPlan).toEqual([]);
+    });
+  });
+
+  describe('read routing', () => {
+    let readModel: any;
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      readModel = {
+        find: jest.fn().mockReturnValue(mockQuery([])),
+        findOne: jest.fn().mockReturnValue(mockQuery(null)),
+        countDocuments: jest.fn().mockReturnValue(mockQuery(0)),
+        aggregate: jest.fn().mockReturnValue(mockQuery([])),
+      };
+      mockModel.aggregate = jest.fn().mockReturnValue(mockQuery([]));
+      repository = new BaseRepository(mockModel as Model<TestDocument>, {
+        readModel,
+        readPreference: 'secondaryPreferred',
+      });
+    });
+
+    it('should send reads to the read model with the read preference', async () => {
+      await repository.findAll({ name: 'test' });
+      await repository.count();
+
+      expect(readModel.find).toHaveBeenCalledWith({ name: 'test' }, null, {});
+      expect(readModel.find.mock.results[0].value.read).toHaveBeenCalledWith('secondaryPreferred');
+      expect(readModel.countDocuments).toHaveBeenCalled();
+      expect(mockModel.find).not.toHaveBeenCalled();
+    });
+
+    it('should send writes to the main model', async () => {
+      await repository.updateMany({ name: 'a' }, { name: 'b' });
+
+      expect(mockModel.updateMany).toHaveBeenCalled();
+    });
+
+    it('should override the read preference per call', async () => {
+      await repository.withReadPreference('nearest').findOne({ name: 'test' });
+
+      expect(readModel.findOne.mock.results[0].value.read).toHaveBeenCalledWith('nearest');
+    });
+
+    it('should read from the primary on request', async () => {
+      await repository.usePrimary().findById('1');
+
+      expect(mockModel.findOne).toHaveBeenCalledWith({ _id: '1' });
+      expect(mockModel.findOne.mock.results[0].value.read).toHaveBeenCalledWith('primary');
+      expect(readModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should read from another model per call', async () => {
+      const analyticsModel = { find: jest.fn().mockReturnValue(mockQuery([])) };
+      repository = new BaseRepository(mockModel as Model<TestDocument>);
+
+      await repository.withReadModel(analyticsModel as any).findAll();
+
+      expect(analyticsModel.find).toHaveBeenCalled();
+      expect(analyticsModel.find.mock.results[0].value.read).not.toHaveBeenCalled();
+    });
+
+    it('should run writing pipelines against the main model', async () => {
+      await repository.aggregate([{ $match: {} }]);
+      await repository.aggregate([{ $match: {} }, { $out: 'report' }]);
+
+      expect(readModel.aggregate).toHaveBeenCalledTimes(1);
+      expect(mockModel.aggregate).toHaveBeenCalledTimes(1);
+      expect(mockModel.aggregate.mock.results[0].value.read).not.toHaveBeenCalled();
+    });
+  });
+  describe('pending operation tracking', () => {
+    it('should track writes until they settle', async () => {
+      const connection = {};
+      let resolve!: (value: any) => void;
+      mockModel.db = connection;
+      mockModel.updateMany.mockReturnValue({
+        session: jest.fn().mockReturnThis(),
+        exec: () => new Promise((r) => (resolve = r)),
+      });
+      const repository = new BaseRepository(mockModel as Model<TestDocument>);
+
+      const pending = repository.updateMany({}, { name: 'b' });
+      await Promise.resolve();
+      expect(getPendingOperationCount(connection as any)).toBe(1);
+
+      resolve({ modifiedCount: 1 });
+      await pending;
+      expect(getPendingOperationCount(connection as any)).toBe(0);
+    });
+  });
+
+  describe('auditing', () => {
+    let audit: { record: jest.Mock };
+    let repository: BaseRepository<TestDocument>;
+
+    beforeEach(() => {
+      audit = { record: jest.fn().mockResolvedValue(undefined) };
+      mockModel.collection = { collectionName: 'tests' };
+      repository = new BaseRepository(mockModel as Model<TestDocument>, { audit });
+    });
+
+    it('should record created documents', async () => {
+      const model: any = jest.fn().mockImplementation((data: any) => ({
+        save: jest.fn().mockResolvedValue({ _id: '1', ...data }),
+      }));
+      model.collection = { collectionName: 'tests' };
+      repository = new BaseRepository(model as Model<TestDocument>, { audit });
+
+      await repository.create({ name: 'a' });
+
+      expect(audit.record).toHaveBeenCalledWith([
+        {
+          collectionName: 'tests',
+          documentId: '1',
+          operation: 'create',
+          filter: undefined,
+          before: null,
+          after: { _id: '1', name: 'a' },
+        },
+      ]);
+    });
+
+    it('should record the document before and after an update', async () => {
+      mockModel.findOneAndUpdate.mockReturnValue(mockQuery({ _id: '1', name: 'a' }));
+      mockModel.findOne.mockReturnValue(mockQuery({ _id: '1', name: 'b' }));
+
+      await expect(repository.update('1', { name: 'b' })).resolves.toEqual({ _id: '1', name: 'b' });
+
+      expect(mockModel.find).not.toHaveBeenCalled();
+      expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: '1' },
+        { name: 'b' },
+        { new: false },
+      );
+      expect(mockModel.findOne).toHaveBeenCalledWith({ _id: '1' });
+      expect(audit.record).toHaveBeenCalledWith([
+        expect.objectContaining({
+          operation: 'update',
+          filter: { _id: '1' },
+          before: { _id: '1', name: 'a' },
+          after: { _id: '1', name: 'b' },
+        }),
+      ]);
+    });
+
+    it('should not record updates of missing documents', async () => {
+      mockModel.findOneAndUpdate.mockReturnValue(mockQuery(null));
+
+      await expect(repository.update('1', { name: 'b' })).resolves.toBeNull();
+
+      expect(audit.record).not.toHaveBeenCalled();
+    });
+
+    it('should record only documents changed by updateMany', async () => {
+      mockModel.find
+        .mockReturnValueOnce(
+          mockQuery([
+            { _id: '1', name: 'a' },
+            { _id: '2', name: 'b' },
+          ]),
+        )
+        .mockReturnValueOnce(
+          mockQuery([
+            { _id: '1', name: 'b' },
+            { _id: '2', name: 'b' },
+          ]),
+        );
+
+      await repository.updateMany({ name: { $in: ['a', 'b'] } }, { name: 'b' });
+
+      expect(mockModel.find).toHaveBeenLastCalledWith({ _id: { $in: ['1', '2'] } });
+      expect(audit.record).toHaveBeenCalledWith([
+        expect.objectContaining({
+          documentId: '1',
+          filter: { name: { $in: ['a', 'b'] } },
+          before: { _id: '1', name: 'a' },
+          after: { _id: '1', name: 'b' },
+        }),
+      ]);
+    });
+
+    it('should record hard deletes with the removed document', async () => {
+      mockModel.findOneAndDelete.mockReturnValue(mockQuery({ _id: '1', name: 'a' }));
+
+      await repository.delete('1');
+
+      expect(audit.record).toHaveBeenCalledTimes(1);
+      expect(audit.record).toHaveBeenCalledWith([
+        expect.objectContaining({
+          operation: 'delete',
+          before: { _id: '1', name: 'a' },
+          after: null,
+        }),
+      ]);
+    });
+
+    it('should record documents removed by deleteMany', async () => {
+      mockModel.find.mockReturnValue(mockQuery([{ _id: '1' }, { _id: '2' }]));
+
+      await repository.deleteMany({ name: 'a' });
+
+      expect(audit.record.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ documentId: '1', before: { _id: '1' }, after: null }),
+        expect.objectContaining({ documentId: '2', before: { _id: '2' }, after: null }),
+      ]);
+    });
+
+    it('should record soft deletes as updated snapshots', async () => {
+      const deletedAt = new Date();
+      repository = new BaseRepository(mockModel as Model<TestDocument>, {
+        audit,
+        softDelete: true,
+      });
+      mockModel.find
+        .mockReturnValueOnce(mockQuery([{ _id: '1', deletedAt: null }]))
+        .mockReturnValueOnce(mockQuery([{ _id: '1', deletedAt }]));
+
+      await repository.delete('1', 'alice');
+
+      expect(audit.record).toHaveBeenCalledWith([
+        expect.objectContaining({
+          operation: 'delete',
+          before: { _id: '1', deletedAt: null },
+          after: { _id: '1', deletedAt },
+        }),
+      ]);
+    });
+
+    it('should not read snapshots when auditing is disabled', async () => {
+      repository = new BaseRepository(mockModel as Model<TestDocument>);
+
+      await repository.update('1', { name: 'b' });
+      await repository.deleteMany({ name: 'a' });
+
+      expect(mockModel.find).not.toHaveBeenCalled();
+    });
+  });
+});
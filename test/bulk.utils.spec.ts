@@ -0,0 +1,59 @@
+import {
+  chunkArray,
+  createBulkWriteReport,
+  extractValidationErrors,
+  pickFields,
+} from '../src/utils/bulk.utils';
+
+describe('Bulk Utils', () => {
+  describe('chunkArray', () => {
+    it('should split an array into chunks', () => {
+      expect(chunkArray([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it('should return no chunks for an empty array', () => {
+      expect(chunkArray([], 10)).toEqual([]);
+    });
+
+    it('should reject a chunk size below 1', () => {
+      expect(() => chunkArray([1], 0)).toThrow('Chunk size must be at least 1');
+    });
+  });
+
+  describe('extractValidationErrors', () => {
+    it('should map paths to messages', () => {
+      const error = {
+        errors: {
+          name: { message: 'Path `name` is required.' },
+          age: { message: 'Path `age` is less than minimum.' },
+        },
+      };
+      expect(extractValidationErrors(error)).toEqual({
+        name: 'Path `name` is required.',
+        age: 'Path `age` is less than minimum.',
+      });
+    });
+
+    it('should return undefined for other errors', () => {
+      expect(extractValidationErrors(new Error('boom'))).toBeUndefined();
+    });
+  });
+
+  describe('pickFields', () => {
+    it('should pick top-level and nested fields that are present', () => {
+      const data = { email: 'a@b.c', profile: { code: 'X1' }, name: 'A' };
+      expect(pickFields(data, ['email', 'profile.code', 'missing'])).toEqual({
+        email: 'a@b.c',
+        'profile.code': 'X1',
+      });
+    });
+  });
+
+  describe('createBulkWriteReport', () => {
+    it('should create an empty report', () => {
+      const report = createBulkWriteReport();
+      expect(report.items).toEqual([]);
+      expect(report.failedCount).toBe(0);
+    });
+  });
+});
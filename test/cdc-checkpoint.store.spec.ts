@@ -0,0 +1,60 @@
+import {
+  InMemoryCdcCheckpointStore,
+  MongoCdcCheckpointStore,
+} from '../src/services/cdc-checkpoint.store';
+
+describe('CDC Checkpoint Stores', () => {
+  describe('InMemoryCdcCheckpointStore', () => {
+    it('should save, load and clear tokens per key', async () => {
+      const store = new InMemoryCdcCheckpointStore();
+
+      await store.save('a', { _data: '1' });
+      expect(await store.load('a')).toEqual({ _data: '1' });
+      expect(await store.load('b')).toBeNull();
+
+      await store.clear('a');
+      expect(await store.load('a')).toBeNull();
+    });
+  });
+
+  describe('MongoCdcCheckpointStore', () => {
+    let collection: any;
+    let connection: any;
+    let store: MongoCdcCheckpointStore;
+
+    beforeEach(() => {
+      collection = {
+        findOne: jest.fn().mockResolvedValue({ _id: 'users', resumeToken: { _data: '1' } }),
+        updateOne: jest.fn().mockResolvedValue({}),
+        deleteOne: jest.fn().mockResolvedValue({}),
+      };
+      connection = { collection: jest.fn().mockReturnValue(collection) };
+      store = new MongoCdcCheckpointStore(connection, 'checkpoints');
+    });
+
+    it('should load the token of a stream', async () => {
+      expect(await store.load('users')).toEqual({ _data: '1' });
+      expect(connection.collection).toHaveBeenCalledWith('checkpoints');
+      expect(collection.findOne).toHaveBeenCalledWith({ _id: 'users' });
+    });
+
+    it('should return null when no checkpoint exists', async () => {
+      collection.findOne.mockResolvedValue(null);
+      expect(await store.load('users')).toBeNull();
+    });
+
+    it('should upsert the token of a stream', async () => {
+      await store.save('users', { _data: '2' });
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { _id: 'users' },
+        { $set: { resumeToken: { _data: '2' }, updatedAt: expect.any(Date) } },
+        { upsert: true },
+      );
+    });
+
+    it('should clear the token of a stream', async () => {
+      await store.clear('users');
+      expect(collection.deleteOne).toHaveBeenCalledWith({ _id: 'users' });
+    });
+  });
+});
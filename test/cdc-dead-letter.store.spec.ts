@@ -0,0 +1,97 @@
+import { Types } from 'mongoose';
+import {
+  InMemoryCdcDeadLetterStore,
+  MongoCdcDeadLetterStore,
+} from '../src/services/cdc-dead-letter.store';
+import { ChangeOperationType } from '../src/interfaces/cdc.interface';
+
+const entry = (overrides: Record<string, any> = {}) => ({
+  source: 'users',
+  handlerName: 'mailer',
+  event: { operationType: ChangeOperationType.INSERT, documentKey: { _id: '1' } },
+  error: 'failed',
+  attempts: 3,
+  failedAt: new Date('2024-01-02'),
+  ...overrides,
+});
+
+describe('CDC Dead-Letter Stores', () => {
+  describe('InMemoryCdcDeadLetterStore', () => {
+    it('should add, list, get and remove entries', async () => {
+      const store = new InMemoryCdcDeadLetterStore();
+
+      const id = await store.add(entry());
+      expect(await store.get(id)).toEqual({ id, ...entry() });
+      expect(await store.list({ source: 'users' })).toHaveLength(1);
+      expect(await store.list({ source: 'orders' })).toHaveLength(0);
+
+      await store.remove(id);
+      expect(await store.get(id)).toBeNull();
+    });
+
+    it('should list oldest first and purge by filter', async () => {
+      const store = new InMemoryCdcDeadLetterStore();
+      await store.add(entry({ handlerName: 'b', failedAt: new Date('2024-01-03') }));
+      await store.add(entry({ handlerName: 'a', failedAt: new Date('2024-01-01') }));
+
+      expect((await store.list()).map((e) => e.handlerName)).toEqual(['a', 'b']);
+      expect(await store.purge({ failedBefore: new Date('2024-01-02') })).toBe(1);
+      expect((await store.list()).map((e) => e.handlerName)).toEqual(['b']);
+    });
+  });
+
+  describe('MongoCdcDeadLetterStore', () => {
+    let collection: any;
+    let cursor: any;
+    let store: MongoCdcDeadLetterStore;
+    const id = new Types.ObjectId();
+
+    beforeEach(() => {
+      cursor = {
+        sort: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue([{ _id: id, ...entry() }]),
+      };
+      collection = {
+        insertOne: jest.fn().mockResolvedValue({ insertedId: id }),
+        find: jest.fn().mockReturnValue(cursor),
+        findOne: jest.fn().mockResolvedValue({ _id: id, ...entry() }),
+        deleteOne: jest.fn().mockResolvedValue({}),
+        deleteMany: jest.fn().mockResolvedValue({ deletedCount: 2 }),
+      };
+      const connection: any = { collection: jest.fn().mockReturnValue(collection) };
+      store = new MongoCdcDeadLetterStore(connection, 'dead_letters');
+    });
+
+    it('should insert entries and return their id', async () => {
+      expect(await store.add(entry())).toBe(id.toString());
+      expect(collection.insertOne).toHaveBeenCalledWith({
+        _id: expect.any(Types.ObjectId),
+        ...entry(),
+      });
+    });
+
+    it('should list matching entries oldest first', async () => {
+      const entries = await store.list({ source: 'users', handlerName: 'mailer', limit: 10 });
+
+      expect(collection.find).toHaveBeenCalledWith({ source: 'users', handlerName: 'mailer' });
+      expect(cursor.sort).toHaveBeenCalledWith({ failedAt: 1 });
+      expect(cursor.limit).toHaveBeenCalledWith(10);
+      expect(entries).toEqual([{ id: id.toString(), ...entry() }]);
+    });
+
+    it('should get an entry by id', async () => {
+      expect(await store.get(id.toString())).toEqual({ id: id.toString(), ...entry() });
+      expect(await store.get('invalid')).toBeNull();
+    });
+
+    it('should purge matching entries', async () => {
+      const failedBefore = new Date();
+      expect(await store.purge({ source: 'users', failedBefore })).toBe(2);
+      expect(collection.deleteMany).toHaveBeenCalledWith({
+        source: 'users',
+        failedAt: { $lt: failedBefore },
+      });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { InMemoryCdcLeaseStore, MongoCdcLeaseStore } from '../src/services/cdc-lease.store';
+
+describe('CDC Lease Stores', () => {
+  describe('InMemoryCdcLeaseStore', () => {
+    it('should grant the lease to one holder at a time', async () => {
+      const store = new InMemoryCdcLeaseStore();
+
+      expect(await store.acquire('users', 'a', 1000)).toBe(true);
+      expect(await store.acquire('users', 'b', 1000)).toBe(false);
+      expect(await store.acquire('users', 'a', 1000)).toBe(true);
+
+      await store.release('users', 'a');
+      expect(await store.acquire('users', 'b', 1000)).toBe(true);
+    });
+
+    it('should grant an expired lease to another holder', async () => {
+      const store = new InMemoryCdcLeaseStore();
+
+      await store.acquire('users', 'a', -1);
+      expect(await store.acquire('users', 'b', 1000)).toBe(true);
+    });
+  });
+
+  describe('MongoCdcLeaseStore', () => {
+    let collection: any;
+    let connection: any;
+    let store: MongoCdcLeaseStore;
+
+    beforeEach(() => {
+      collection = {
+        createIndex: jest.fn().mockResolvedValue('expiresAt_1'),
+        updateOne: jest.fn().mockResolvedValue({}),
+        deleteOne: jest.fn().mockResolvedValue({}),
+      };
+      connection = { collection: jest.fn().mockReturnValue(collection) };
+      store = new MongoCdcLeaseStore(connection, 'leases');
+    });
+
+    it('should upsert the lease when held by us or expired', async () => {
+      expect(await store.acquire('users', 'a', 1000)).toBe(true);
+
+      expect(connection.collection).toHaveBeenCalledWith('leases');
+      expect(collection.createIndex).toHaveBeenCalledWith(
+        { expiresAt: 1 },
+        { expireAfterSeconds: 0 },
+      );
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { _id: 'users', $or: [{ holderId: 'a' }, { expiresAt: { $lt: expect.any(Date) } }] },
+        { $set: { holderId: 'a', expiresAt: expect.any(Date) } },
+        { upsert: true },
+      );
+    });
+
+    it('should create the TTL index only once', async () => {
+      await store.acquire('users', 'a', 1000);
+      await store.acquire('users', 'a', 1000);
+      expect(collection.createIndex).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a lease held by another instance', async () => {
+      collection.updateOne.mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+      expect(await store.acquire('users', 'b', 1000)).toBe(false);
+    });
+
+    it('should rethrow other errors', async () => {
+      collection.updateOne.mockRejectedValue(new Error('network'));
+      await expect(store.acquire('users', 'b', 1000)).rejects.toThrow('network');
+    });
+
+    it('should release only our own lease', async () => {
+      await store.release('users', 'a');
+      expect(collection.deleteOne).toHaveBeenCalledWith({ _id: 'users', holderId: 'a' });
+    });
+  });
+});
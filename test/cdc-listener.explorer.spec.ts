@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventEmitter } from 'events';
+import { CdcListenerModule } from '../src/cdc-listener.module';
+import { CdcListenerExplorer } from '../src/services/cdc-listener.explorer';
+import { OnDelete, OnInsert, OnUpdate } from '../src/decorators/on-change.decorator';
+import { InMemoryCdcCheckpointStore } from '../src/services/cdc-checkpoint.store';
+import { CdcChangeEvent } from '../src/interfaces/cdc.interface';
+
+@Injectable()
+class UserListener {
+  inserted: CdcChangeEvent[] = [];
+  emailChanged: CdcChangeEvent[] = [];
+  deleted: CdcChangeEvent[] = [];
+
+  @OnInsert('User')
+  onInsert(event: CdcChangeEvent) {
+    this.inserted.push(event);
+  }
+
+  @OnUpdate('User', { fields: ['email'] })
+  onEmailChange(event: CdcChangeEvent) {
+    this.emailChanged.push(event);
+  }
+
+  @OnDelete('User')
+  onDelete(event: CdcChangeEvent) {
+    this.deleted.push(event);
+  }
+}
+
+describe('CdcListenerExplorer', () => {
+  let changeStream: any;
+  let userModel: any;
+
+  const emit = async (change: any) => {
+    changeStream.emit('change', { _id: { _data: 't' }, documentKey: { _id: '1' }, ...change });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+
+  const createApp = async (options = {}) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [CdcListenerModule.forRoot(options)],
+      providers: [UserListener, { provide: getModelToken('User'), useValue: userModel }],
+    })
+      .setLogger({ log: jest.fn(), warn: jest.fn(), error: jest.fn() } as any)
+      .compile();
+    return moduleRef.init();
+  };
+
+  beforeEach(() => {
+    changeStream = new EventEmitter();
+    changeStream.close = jest.fn().mockResolvedValue(undefined);
+    userModel = { watch: jest.fn().mockReturnValue(changeStream) };
+  });
+
+  it('should open one change stream per model with a combined $match', async () => {
+    const app = await createApp();
+
+    expect(userModel.watch).toHaveBeenCalledTimes(1);
+    const [pipeline] = userModel.watch.mock.calls[0];
+    expect(pipeline[0].$match.$or[0]).toEqual({ operationType: { $in: ['insert', 'delete'] } });
+    expect(pipeline[0].$match.$or[1].operationType).toBe('update');
+
+    await app.close();
+  });
+
+  it('should route events to the matching listener methods', async () => {
+    const app = await createApp();
+    const listener = app.get(UserListener);
+
+    await emit({ operationType: 'insert', fullDocument: { _id: '1' } });
+    await emit({
+      operationType: 'update',
+      updateDescription: { updatedFields: { name: 'x' }, removedFields: [] },
+    });
+    await emit({
+      operationType: 'update',
+      updateDescription: { updatedFields: { email: 'a@b.c' }, removedFields: [] },
+    });
+    await emit({ operationType: 'delete' });
+
+    expect(listener.inserted).toHaveLength(1);
+    expect(listener.emailChanged).toHaveLength(1);
+    expect(listener.deleted).toHaveLength(1);
+
+    await app.close();
+  });
+
+  it('should scope checkpoint keys per stream and stop on shutdown', async () => {
+    const store = new InMemoryCdcCheckpointStore();
+    const app = await createApp({ cdcOptions: { checkpoint: { store, key: 'app' } } });
+
+    await emit({ operationType: 'delete' });
+    await app.close();
+
+    expect(await store.load('app:default:User')).toEqual({ _data: 't' });
+    expect(changeStream.close).toHaveBeenCalled();
+    expect(app.get(CdcListenerExplorer).getStream('User')?.isWatching()).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { Types } from 'mongoose';
+import {
+  computeChangeDiff,
+  computeUpdateDiff,
+  diffDocuments,
+} from '../src/utils/change-diff.utils';
+import { ChangeOperationType } from '../src/interfaces/cdc.interface';
+
+describe('Change Diff Utils', () => {
+  describe('computeUpdateDiff', () => {
+    it('should list set, unset and truncated paths with old values from the pre-image', () => {
+      const diff = computeUpdateDiff({
+        operationType: ChangeOperationType.UPDATE,
+        fullDocumentBeforeChange: {
+          profile: { email: 'old@x.y' },
+          nickname: 'bob',
+          tags: ['a', 'b', 'c'],
+        },
+        updateDescription: {
+          updatedFields: { 'profile.email': 'new@x.y' },
+          removedFields: ['nickname'],
+          truncatedArrays: [{ field: 'tags', newSize: 1 }],
+        },
+      });
+
+      expect(diff).toEqual([
+        { path: 'profile.email', kind: 'set', oldValue: 'old@x.y', newValue: 'new@x.y' },
+        { path: 'nickname', kind: 'unset', oldValue: 'bob' },
+        { path: 'tags', kind: 'truncated', oldValue: ['a', 'b', 'c'], newValue: ['a'] },
+      ]);
+    });
+
+    it('should leave old values undefined without a pre-image', () => {
+      const diff = computeUpdateDiff({
+        operationType: ChangeOperationType.UPDATE,
+        updateDescription: { updatedFields: { name: 'x' }, removedFields: [] },
+      });
+
+      expect(diff).toEqual([{ path: 'name', kind: 'set', oldValue: undefined, newValue: 'x' }]);
+    });
+  });
+
+  describe('diffDocuments', () => {
+    it('should compare nested objects path by path', () => {
+      const id = new Types.ObjectId();
+      const diff = diffDocuments(
+        { _id: id, name: 'a', address: { city: 'Paris', zip: '75001' }, tags: ['x'] },
+        {
+          _id: new Types.ObjectId(id.toString()),
+          name: 'a',
+          address: { city: 'Lyon' },
+          tags: ['y'],
+        },
+      );
+
+      expect(diff).toEqual([
+        { path: 'address.city', kind: 'set', oldValue: 'Paris', newValue: 'Lyon' },
+        { path: 'address.zip', kind: 'unset', oldValue: '75001' },
+        { path: 'tags', kind: 'set', oldValue: ['x'], newValue: ['y'] },
+      ]);
+    });
+  });
+
+  describe('computeChangeDiff', () => {
+    it('should diff replace events when both images are available', () => {
+      expect(
+        computeChangeDiff({
+          operationType: ChangeOperationType.REPLACE,
+          fullDocumentBeforeChange: { name: 'a' },
+          fullDocument: { name: 'b' },
+        }),
+      ).toEqual([{ path: 'name', kind: 'set', oldValue: 'a', newValue: 'b' }]);
+    });
+
+    it('should return undefined for other events', () => {
+      expect(computeChangeDiff({ operationType: ChangeOperationType.INSERT })).toBeUndefined();
+      expect(computeChangeDiff({ operationType: ChangeOperationType.REPLACE })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  buildChangeListenerMatch,
+  isFieldChanged,
+  matchesChangeListener,
+} from '../src/utils/change-filter.utils';
+import { ChangeOperationType } from '../src/interfaces/cdc.interface';
+
+describe('Change Filter Utils', () => {
+  describe('isFieldChanged', () => {
+    it('should match the field, nested paths and parent objects', () => {
+      expect(isFieldChanged('email', ['email'])).toBe(true);
+      expect(isFieldChanged('profile.age', ['profile'])).toBe(true);
+      expect(isFieldChanged('profile', ['profile.age'])).toBe(true);
+      expect(isFieldChanged('emailVerified', ['email'])).toBe(false);
+    });
+  });
+
+  describe('matchesChangeListener', () => {
+    const listener = { operations: [ChangeOperationType.UPDATE], fields: ['email'] };
+
+    it('should filter on operation type', () => {
+      expect(matchesChangeListener(listener, { operationType: ChangeOperationType.DELETE })).toBe(
+        false,
+      );
+    });
+
+    it('should match updates touching a listed field', () => {
+      expect(
+        matchesChangeListener(listener, {
+          operationType: ChangeOperationType.UPDATE,
+          updateDescription: { updatedFields: { email: 'a@b.c' }, removedFields: [] },
+        }),
+      ).toBe(true);
+      expect(
+        matchesChangeListener(listener, {
+          operationType: ChangeOperationType.UPDATE,
+          updateDescription: { updatedFields: {}, removedFields: ['email'] },
+        }),
+      ).toBe(true);
+    });
+
+    it('should skip updates of other fields', () => {
+      expect(
+        matchesChangeListener(listener, {
+          operationType: ChangeOperationType.UPDATE,
+          updateDescription: { updatedFields: { name: 'x' }, removedFields: [] },
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('buildChangeListenerMatch', () => {
+    it('should combine operations without field filters', () => {
+      expect(
+        buildChangeListenerMatch([
+          { operations: [ChangeOperationType.INSERT] },
+          { operations: [ChangeOperationType.DELETE] },
+        ]),
+      ).toEqual({ operationType: { $in: ['insert', 'delete'] } });
+    });
+
+    it('should add a field-filtered update clause', () => {
+      const match = buildChangeListenerMatch([
+        { operations: [ChangeOperationType.INSERT] },
+        { operations: [ChangeOperationType.UPDATE], fields: ['email'] },
+      ]);
+
+      expect(match.$or).toHaveLength(2);
+      expect(match.$or[0]).toEqual({ operationType: { $in: ['insert'] } });
+      expect(match.$or[1].operationType).toBe('update');
+      expect(JSON.stringify(match.$or[1].$expr)).toContain('"email."');
+    });
+
+    it('should drop field filters when another listener wants every update', () => {
+      expect(
+        buildChangeListenerMatch([
+          { operations: [ChangeOperationType.UPDATE], fields: ['email'] },
+          { operations: [ChangeOperationType.UPDATE] },
+        ]),
+      ).toEqual({ operationType: { $in: ['update'] } });
+    });
+  });
+});
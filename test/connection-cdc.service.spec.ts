@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { ConnectionCdcService } from '../src/services/connection-cdc.service';
+import { CdcEventHandler } from '../src/interfaces/cdc.interface';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+describe('ConnectionCdcService', () => {
+  let streams: any[];
+  let client: any;
+  let connection: any;
+  let service: ConnectionCdcService;
+
+  const createStream = () => {
+    const stream: any = new EventEmitter();
+    stream.close = jest.fn().mockResolvedValue(undefined);
+    streams.push(stream);
+    return stream;
+  };
+
+  const emit = async (change: any, stream = streams[streams.length - 1]) => {
+    stream.emit('change', { _id: { _data: change.token || 't' }, ...change });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  };
+
+  beforeEach(() => {
+    streams = [];
+    client = { watch: jest.fn(createStream) };
+    connection = { watch: jest.fn(createStream), getClient: () => client };
+  });
+
+  afterEach(async () => {
+    if (service.isWatching()) {
+      await service.stop();
+    }
+  });
+
+  it('should watch the database with a namespace filter', async () => {
+    service = new ConnectionCdcService(connection, { collections: ['users'] });
+    await service.start();
+
+    const [pipeline] = connection.watch.mock.calls[0];
+    expect(pipeline[0].$match.$or).toEqual([
+      { 'ns.coll': { $in: ['users'] } },
+      { operationType: 'dropDatabase' },
+      { operationType: 'invalidate' },
+    ]);
+    expect(client.watch).not.toHaveBeenCalled();
+  });
+
+  it('should watch the cluster', async () => {
+    service = new ConnectionCdcService(connection, { scope: 'cluster' });
+    await service.start();
+
+    expect(client.watch).toHaveBeenCalledWith([], expect.any(Object));
+  });
+
+  it('should route events to collection handlers', async () => {
+    service = new ConnectionCdcService(connection, { scope: 'cluster' });
+    const all: CdcEventHandler = { onEvent: jest.fn() };
+    const users: CdcEventHandler = { onEvent: jest.fn() };
+    const shopOrders: CdcEventHandler = { onEvent: jest.fn() };
+    service.registerHandler(all);
+    service.registerCollectionHandler('users', users);
+    service.registerCollectionHandler('shop.orders', shopOrders);
+    await service.start();
+
+    await emit({ operationType: 'insert', ns: { db: 'app', coll: 'users' } });
+    await emit({ operationType: 'insert', ns: { db: 'shop', coll: 'orders' } });
+    await emit({ operationType: 'insert', ns: { db: 'app', coll: 'orders' } });
+
+    expect(all.onEvent).toHaveBeenCalledTimes(3);
+    expect(users.onEvent).toHaveBeenCalledTimes(1);
+    expect(shopOrders.onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify collection handlers when their database is dropped', async () => {
+    service = new ConnectionCdcService(connection);
+    const users: CdcEventHandler = { onEvent: jest.fn() };
+    service.registerCollectionHandler('users', users);
+    await service.start();
+
+    await emit({ operationType: 'dropDatabase', ns: { db: 'app' } });
+
+    expect(users.onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ operationType: 'dropDatabase' }),
+    );
+  });
+
+  it('should follow renamed collections', async () => {
+    service = new ConnectionCdcService(connection, { collections: ['users'] });
+    const users: CdcEventHandler = { onEvent: jest.fn() };
+    service.registerCollectionHandler('users', users);
+    await service.start();
+
+    await emit({
+      token: 'rename',
+      operationType: 'rename',
+      ns: { db: 'app', coll: 'users' },
+      to: { db: 'app', coll: 'members' },
+    });
+    await emit({ operationType: 'insert', ns: { db: 'app', coll: 'members' } });
+
+    expect(service.getWatchedCollections()).toEqual(['members']);
+    expect(connection.watch).toHaveBeenCalledTimes(2);
+    const [pipeline, options] = connection.watch.mock.calls[1];
+    expect(pipeline[0].$match.$or[0]).toEqual({ 'ns.coll': { $in: ['members'] } });
+    expect(options.resumeAfter).toEqual({ _data: 'rename' });
+    expect(users.onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ ns: { db: 'app', coll: 'members' } }),
+    );
+  });
+
+  it('should start after the invalidate event when reconnecting', async () => {
+    service = new ConnectionCdcService(connection, { reconnectDelay: 1 });
+    await service.start();
+
+    await emit({ token: 'invalidate', operationType: 'invalidate' });
+    streams[0].emit('close');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(connection.watch).toHaveBeenCalledTimes(2);
+    const [, options] = connection.watch.mock.calls[1];
+    expect(options.startAfter).toEqual({ _data: 'invalidate' });
+    expect(options.resumeAfter).toBeUndefined();
+  });
+});
@@ -5,6 +5,7 @@ import {
   toObjectIdString,
   generateObjectId,
   isConnectionReady,
+  setChangeStreamPreAndPostImages,
 } from '../src/utils/connection.utils';
 
 describe('Connection Utils', () => {
@@ -68,4 +69,25 @@ describe('Connection Utils', () => {
       expect(isConnectionReady(mockConnection)).toBe(false);
     });
   });
+
+  describe('setChangeStreamPreAndPostImages', () => {
+    it('should run collMod on the collection', async () => {
+      const command = jest.fn().mockResolvedValue({ ok: 1 });
+      const mockConnection = { db: { command } } as unknown as mongoose.Connection;
+
+      await setChangeStreamPreAndPostImages(mockConnection, 'users');
+
+      expect(command).toHaveBeenCalledWith({
+        collMod: 'users',
+        changeStreamPreAndPostImages: { enabled: true },
+      });
+    });
+
+    it('should throw when the connection is not open', async () => {
+      const mockConnection = {} as mongoose.Connection;
+      await expect(setChangeStreamPreAndPostImages(mockConnection, 'users')).rejects.toThrow(
+        'Connection is not open',
+      );
+    });
+  });
 });
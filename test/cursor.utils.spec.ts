@@ -0,0 +1,118 @@
+import * as mongoose from 'mongoose';
+import {
+  buildCursorQuery,
+  decodeCursor,
+  encodeCursor,
+  getValueAtPath,
+  invertSort,
+  normalizeCursorSort,
+} from '../src/utils/cursor.utils';
+
+describe('Cursor Utils', () => {
+  describe('normalizeCursorSort', () => {
+    it('should default to ascending _id when no sort is given', () => {
+      expect(normalizeCursorSort()).toEqual({ _id: 1 });
+    });
+
+    it('should append _id using the direction of the last sort field', () => {
+      expect(normalizeCursorSort({ name: 1, createdAt: -1 })).toEqual({
+        name: 1,
+        createdAt: -1,
+        _id: -1,
+      });
+    });
+
+    it('should keep an explicit _id sort', () => {
+      expect(normalizeCursorSort({ _id: -1, name: 1 })).toEqual({ _id: -1, name: 1 });
+    });
+  });
+
+  describe('invertSort', () => {
+    it('should invert every direction', () => {
+      expect(invertSort({ name: 1, createdAt: -1 })).toEqual({ name: -1, createdAt: 1 });
+    });
+  });
+
+  describe('getValueAtPath', () => {
+    it('should read nested values from plain objects', () => {
+      expect(getValueAtPath({ profile: { age: 30 } }, 'profile.age')).toBe(30);
+      expect(getValueAtPath({ profile: null }, 'profile.age')).toBeUndefined();
+    });
+
+    it('should use the document getter when available', () => {
+      const doc = { get: jest.fn().mockReturnValue('value') };
+      expect(getValueAtPath(doc, 'name')).toBe('value');
+      expect(doc.get).toHaveBeenCalledWith('name');
+    });
+  });
+
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip dates and ObjectIds', () => {
+      const sort = { createdAt: -1, _id: -1 } as const;
+      const doc = { _id: new mongoose.Types.ObjectId(), createdAt: new Date('2024-01-01') };
+
+      const cursor = encodeCursor(doc, sort);
+      const payload = decodeCursor(cursor, sort);
+
+      expect(typeof cursor).toBe('string');
+      expect(payload.createdAt).toBeInstanceOf(Date);
+      expect(payload.createdAt.getTime()).toBe(doc.createdAt.getTime());
+      expect(payload._id.toString()).toBe(doc._id.toString());
+    });
+
+    it('should encode missing values as null', () => {
+      const sort = { age: 1, _id: 1 } as const;
+      const cursor = encodeCursor({ _id: 'a' }, sort);
+
+      expect(decodeCursor(cursor, sort)).toEqual({ age: null, _id: 'a' });
+    });
+
+    it('should throw for a malformed cursor', () => {
+      expect(() => decodeCursor('not-a-cursor', { _id: 1 })).toThrow('Invalid pagination cursor');
+    });
+
+    it('should throw when the cursor was built for another sort', () => {
+      const cursor = encodeCursor({ _id: 1, name: 'a' }, { name: 1, _id: 1 });
+      expect(() => decodeCursor(cursor, { age: 1, _id: 1 })).toThrow(
+        'Pagination cursor does not match the requested sort',
+      );
+    });
+  });
+
+  describe('buildCursorQuery', () => {
+    it('should build a single comparison for one sort field', () => {
+      expect(buildCursorQuery({ _id: 1 }, { _id: 'abc' })).toEqual({ _id: { $gt: 'abc' } });
+    });
+
+    it('should build a keyset $or for compound sorts', () => {
+      const query = buildCursorQuery({ age: -1, name: 1, _id: 1 }, { age: 30, name: 'b', _id: 5 });
+
+      expect(query).toEqual({
+        $or: [
+          { age: { $lt: 30 } },
+          { age: null },
+          { age: 30, name: { $gt: 'b' } },
+          { age: 30, name: 'b', _id: { $gt: 5 } },
+        ],
+      });
+    });
+
+    it('should order null values before every other value', () => {
+      expect(buildCursorQuery({ age: 1, _id: 1 }, { age: null, _id: 5 })).toEqual({
+        $or: [{ age: { $ne: null } }, { age: null, _id: { $gt: 5 } }],
+      });
+      expect(buildCursorQuery({ age: -1, _id: -1 }, { age: null, _id: 5 })).toEqual({
+        $or: [
+          { age: null, _id: { $lt: 5 } },
+          { age: null, _id: null },
+        ],
+      });
+    });
+
+    it('should select the cursor position itself when inclusive', () => {
+      expect(buildCursorQuery({ _id: 1 }, { _id: 5 }, true)).toEqual({
+        $or: [{ _id: { $gt: 5 } }, { _id: 5 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  buildSuggestedIndexKey,
+  describeExplainReport,
+  getQueryShape,
+  isSlowQueryDetectionEnabled,
+  normalizeExplain,
+  sanitizeCommand,
+  suggestIndexes,
+} from '../src/utils/explain.utils';
+
+const collectionScanExplain = {
+  queryPlanner: {
+    namespace: 'app.users',
+    winningPlan: { stage: 'SORT', inputStage: { stage: 'COLLSCAN' } },
+  },
+  executionStats: {
+    nReturned: 12,
+    executionTimeMillis: 85,
+    totalKeysExamined: 0,
+    totalDocsExamined: 50000,
+    executionStages: {
+      stage: 'SORT',
+      nReturned: 12,
+      executionTimeMillisEstimate: 80,
+      inputStage: {
+        stage: 'COLLSCAN',
+        nReturned: 12,
+        executionTimeMillisEstimate: 78,
+        docsExamined: 50000,
+      },
+    },
+  },
+  command: {
+    find: 'users',
+    filter: { status: 'active', age: { $gte: 18 } },
+    sort: { createdAt: -1 },
+  },
+};
+
+const indexScanExplain = {
+  queryPlanner: {
+    namespace: 'app.users',
+    winningPlan: {
+      queryPlan: {
+        stage: 'FETCH',
+        inputStage: { stage: 'IXSCAN', indexName: 'email_1', keyPattern: { email: 1 } },
+      },
+      slotBasedPlan: { stages: '...' },
+    },
+  },
+  executionStats: {
+    nReturned: 1,
+    executionTimeMillis: 0,
+    totalKeysExamined: 1,
+    totalDocsExamined: 1,
+  },
+};
+
+describe('Explain Utils', () => {
+  describe('normalizeExplain', () => {
+    it('should report collection scans, in-memory sorts and a suggested index', () => {
+      const report = normalizeExplain(collectionScanExplain);
+
+      expect(report).toEqual({
+        namespace: 'app.users',
+        winningPlan: ['SORT', 'COLLSCAN'],
+        stages: [
+          { stage: 'SORT', returned: 12, executionTimeMs: 80 },
+          { stage: 'COLLSCAN', returned: 12, docsExamined: 50000, executionTimeMs: 78 },
+        ],
+        indexesUsed: [],
+        usedIndex: false,
+        collectionScan: true,
+        inMemorySort: true,
+        docsExamined: 50000,
+        keysExamined: 0,
+        returned: 12,
+        executionTimeMs: 85,
+        suggestedIndexes: [
+          {
+            collection: 'users',
+            key: { status: 1, createdAt: -1, age: 1 },
+            reason: 'Collection scan and in-memory sort',
+          },
+        ],
+        raw: collectionScanExplain,
+      });
+    });
+
+    it('should read slot-based plans and report the indexes used', () => {
+      const report = normalizeExplain(indexScanExplain);
+
+      expect(report.winningPlan).toEqual(['FETCH', 'IXSCAN']);
+      expect(report.indexesUsed).toEqual(['email_1']);
+      expect(report.usedIndex).toBe(true);
+      expect(report.collectionScan).toBe(false);
+      expect(report.suggestedIndexes).toEqual([]);
+    });
+
+    it('should combine the $cursor plan with the timings of the pipeline stages', () => {
+      const report = normalizeExplain(
+        {
+          stages: [
+            { $cursor: collectionScanExplain },
+            { $group: { _id: '$status' }, nReturned: 3, executionTimeMillisEstimate: 120 },
+            { $sort: { sortKey: { count: -1 } }, nReturned: 3, executionTimeMillisEstimate: 121 },
+          ],
+        },
+        { aggregate: 'users', pipeline: [{ $match: { status: 'active' } }, { $group: {} }] },
+      );
+
+      expect(report.stages.slice(2)).toEqual([
+        { stage: '$group', returned: 3, executionTimeMs: 120 },
+        { stage: '$sort', returned: 3, executionTimeMs: 121 },
+      ]);
+      expect(report.returned).toBe(3);
+      expect(report.executionTimeMs).toBe(121);
+      expect(report.suggestedIndexes[0].key).toEqual({ status: 1 });
+    });
+
+    it('should sum the statistics of every shard', () => {
+      const report = normalizeExplain({
+        shards: {
+          shard1: { stages: [{ $cursor: collectionScanExplain }] },
+          shard2: { stages: [{ $cursor: indexScanExplain }] },
+        },
+      });
+
+      expect(report.winningPlan).toEqual(['SORT', 'COLLSCAN', 'FETCH', 'IXSCAN']);
+      expect(report.docsExamined).toBe(50001);
+      expect(report.indexesUsed).toEqual(['email_1']);
+      expect(report.collectionScan).toBe(true);
+    });
+
+    it('should leave the statistics out for queryPlanner verbosity', () => {
+      const report = normalizeExplain({ queryPlanner: collectionScanExplain.queryPlanner });
+
+      expect(report.docsExamined).toBeUndefined();
+      expect(report.executionTimeMs).toBeUndefined();
+      expect(report.suggestedIndexes).toEqual([]);
+    });
+  });
+
+  describe('buildSuggestedIndexKey', () => {
+    it('should order equality, sort and range fields', () => {
+      expect(
+        buildSuggestedIndexKey(
+          {
+            $and: [{ tenantId: 't1' }, { deletedAt: null }],
+            price: { $lt: 100 },
+            category: { $in: ['a', 'b'] },
+            $or: [{ a: 1 }, { b: 1 }],
+          },
+          { rating: -1, score: { $meta: 'textScore' } },
+        ),
+      ).toEqual({ tenantId: 1, deletedAt: 1, category: 1, rating: -1, price: 1 });
+    });
+  });
+
+  describe('suggestIndexes', () => {
+    it('should not suggest an index for queries served by one', () => {
+      const report = { collectionScan: false, inMemorySort: false };
+
+      expect(suggestIndexes({ find: 'users', filter: { status: 'a' } }, report)).toEqual([]);
+    });
+
+    it('should not suggest an index on _id alone or without fields', () => {
+      const report = { collectionScan: true, inMemorySort: false };
+
+      expect(suggestIndexes({ find: 'users', filter: { _id: { $gt: 1 } } }, report)).toEqual([]);
+      expect(suggestIndexes({ find: 'users', filter: {} }, report)).toEqual([]);
+    });
+  });
+
+  describe('getQueryShape', () => {
+    it('should read the leading $match stages and $sort of a pipeline', () => {
+      expect(
+        getQueryShape({
+          aggregate: 'users',
+          pipeline: [
+            { $match: { a: 1 } },
+            { $match: { b: 2 } },
+            { $sort: { c: 1 } },
+            { $match: { d: 3 } },
+          ],
+        }),
+      ).toEqual({ filter: { $and: [{ a: 1 }, { b: 2 }] }, sort: { c: 1 } });
+    });
+
+    it('should read the filter of updates, deletes and counts', () => {
+      expect(getQueryShape({ update: 'users', updates: [{ q: { a: 1 }, u: {} }] })).toEqual({
+        filter: { a: 1 },
+      });
+      expect(getQueryShape({ delete: 'users', deletes: [{ q: { b: 1 }, limit: 0 }] })).toEqual({
+        filter: { b: 1 },
+      });
+      expect(getQueryShape({ count: 'users', query: { c: 1 } })).toEqual({
+        filter: { c: 1 },
+        sort: undefined,
+      });
+    });
+  });
+
+  describe('sanitizeCommand', () => {
+    it('should remove the session and cluster fields', () => {
+      expect(
+        sanitizeCommand({
+          find: 'users',
+          filter: {},
+          lsid: { id: 1 },
+          txnNumber: 2,
+          $db: 'app',
+          $clusterTime: {},
+        }),
+      ).toEqual({ find: 'users', filter: {} });
+    });
+  });
+
+  describe('isSlowQueryDetectionEnabled', () => {
+    const nodeEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+      process.env.NODE_ENV = nodeEnv;
+    });
+
+    it('should be enabled outside production when configured', () => {
+      process.env.NODE_ENV = 'development';
+      expect(isSlowQueryDetectionEnabled({})).toBe(true);
+      expect(isSlowQueryDetectionEnabled(undefined)).toBe(false);
+
+      process.env.NODE_ENV = 'production';
+      expect(isSlowQueryDetectionEnabled({})).toBe(false);
+      expect(isSlowQueryDetectionEnabled({ enabled: true })).toBe(true);
+    });
+  });
+
+  describe('describeExplainReport', () => {
+    it('should summarize the report in one line', () => {
+      expect(describeExplainReport(normalizeExplain(collectionScanExplain))).toBe(
+        'SORT > COLLSCAN, 50000 docs examined, 0 keys examined, 12 returned, ' +
+          'suggested index {"status":1,"createdAt":-1,"age":1} (Collection scan and in-memory sort)',
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  getMongoHealthIndicatorToken,
+  getPoolStats,
+  getServerRole,
+} from '../src/utils/health.utils';
+
+describe('Health Utils', () => {
+  describe('getMongoHealthIndicatorToken', () => {
+    it('should derive the token from the connection token', () => {
+      expect(getMongoHealthIndicatorToken('analytics')).toBe('analyticsConnectionHealthIndicator');
+    });
+  });
+
+  describe('getServerRole', () => {
+    it('should detect every role', () => {
+      expect(getServerRole({ isWritablePrimary: true, setName: 'rs0' })).toBe('primary');
+      expect(getServerRole({ secondary: true, setName: 'rs0' })).toBe('secondary');
+      expect(getServerRole({ arbiterOnly: true, setName: 'rs0' })).toBe('arbiter');
+      expect(getServerRole({ isWritablePrimary: true })).toBe('standalone');
+      expect(getServerRole({ isWritablePrimary: true, msg: 'isdbgrid' })).toBe('mongos');
+      expect(getServerRole({ setName: 'rs0' })).toBe('unknown');
+    });
+  });
+
+  describe('getPoolStats', () => {
+    it('should sum the pools of every server', () => {
+      const pool = {
+        totalConnectionCount: 5,
+        availableConnectionCount: 3,
+        pendingConnectionCount: 1,
+        currentCheckedOutCount: 2,
+        waitQueueSize: 0,
+      };
+      const client = {
+        options: { maxPoolSize: 100 },
+        topology: {
+          s: {
+            servers: new Map([
+              ['a', { pool }],
+              ['b', { pool }],
+            ]),
+          },
+        },
+      };
+
+      expect(getPoolStats(client)).toEqual({
+        totalConnections: 10,
+        availableConnections: 6,
+        pendingConnections: 2,
+        checkedOutConnections: 4,
+        waitQueueSize: 0,
+        maxPoolSize: 100,
+      });
+    });
+
+    it('should return undefined without a topology', () => {
+      expect(getPoolStats({})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { Schema } from 'mongoose';
+import { IndexManager } from '../src/services/index-manager.service';
+import { IndexDriftError } from '../src/errors/index-drift.error';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const createModel = (modelName: string, schema: Schema, liveIndexes: any[]) => ({
+  modelName,
+  schema,
+  collection: {
+    collectionName: `${modelName.toLowerCase()}s`,
+    listIndexes: jest.fn(() => ({ toArray: async () => liveIndexes })),
+    createIndex: jest.fn().mockResolvedValue('ok'),
+    dropIndex: jest.fn().mockResolvedValue(undefined),
+  },
+});
+
+describe('IndexManager', () => {
+  let userModel: any;
+  let orderModel: any;
+  let connection: any;
+  let admin: any;
+
+  beforeEach(() => {
+    const userSchema = new Schema({ email: { type: String, unique: true }, age: Number });
+    userSchema.index({ age: 1 }, { sparse: true });
+    userModel = createModel('User', userSchema, [
+      { v: 2, key: { _id: 1 }, name: '_id_' },
+      { v: 2, key: { email: 1 }, name: 'email_1', unique: true, background: true },
+      { v: 2, key: { legacy: 1 }, name: 'legacy_1' },
+    ]);
+
+    const orderSchema = new Schema({ createdAt: Date });
+    orderSchema.index({ createdAt: 1 }, { expireAfterSeconds: 60 });
+    orderModel = createModel('Order', orderSchema, [
+      { v: 2, key: { _id: 1 }, name: '_id_' },
+      { v: 2, key: { createdAt: 1 }, name: 'createdAt_1', expireAfterSeconds: 3600 },
+    ]);
+
+    const models: Record<string, any> = { User: userModel, Order: orderModel };
+    admin = { command: jest.fn().mockResolvedValue({ inprog: [] }) };
+    connection = {
+      modelNames: jest.fn(() => Object.keys(models)),
+      model: jest.fn((name: string) => models[name]),
+      db: { admin: () => admin, command: jest.fn().mockResolvedValue({ ok: 1 }) },
+    };
+  });
+
+  describe('check', () => {
+    it('should report missing, extra and changed indexes of every model', async () => {
+      const report = await new IndexManager(connection).check();
+
+      expect(report.models).toEqual(['User', 'Order']);
+      expect(report.hasDrift).toBe(true);
+      expect(report.diffs.map((diff) => [diff.collectionName, diff.type, diff.name])).toEqual([
+        ['users', 'missing', 'age_1'],
+        ['users', 'extra', 'legacy_1'],
+        ['orders', 'changed', 'createdAt_1'],
+      ]);
+      expect(report.diffs[2].differences).toEqual(['expireAfterSeconds']);
+    });
+
+    it('should only check the given models', async () => {
+      const report = await new IndexManager(connection).check(['User']);
+
+      expect(report.models).toEqual(['User']);
+      expect(orderModel.collection.listIndexes).not.toHaveBeenCalled();
+    });
+
+    it('should treat a missing collection as having no indexes', async () => {
+      const error: any = new Error('ns does not exist');
+      error.code = 26;
+      orderModel.collection.listIndexes.mockReturnValue({
+        toArray: jest.fn().mockRejectedValue(error),
+      });
+
+      const report = await new IndexManager(connection).check(['Order']);
+
+      expect(report.diffs.map((diff) => diff.type)).toEqual(['missing']);
+    });
+  });
+
+  describe('sync', () => {
+    it('should build missing indexes and modify changed TTLs in place', async () => {
+      const applied = await new IndexManager(connection).sync();
+
+      expect(applied.map((diff) => diff.name)).toEqual(['age_1', 'createdAt_1']);
+      expect(userModel.collection.createIndex).toHaveBeenCalledWith(
+        { age: 1 },
+        { sparse: true, name: 'age_1', background: true },
+      );
+      expect(userModel.collection.dropIndex).not.toHaveBeenCalled();
+      expect(connection.db.command).toHaveBeenCalledWith({
+        collMod: 'orders',
+        index: { name: 'createdAt_1', expireAfterSeconds: 60 },
+      });
+      expect(orderModel.collection.dropIndex).not.toHaveBeenCalled();
+      expect(orderModel.collection.createIndex).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild changed indexes that cannot be modified in place', async () => {
+      orderModel.collection.listIndexes.mockReturnValue({
+        toArray: async () => [{ key: { createdAt: 1 }, name: 'createdAt_1', sparse: true }],
+      });
+
+      await new IndexManager(connection).sync({ models: ['Order'] });
+
+      expect(orderModel.collection.dropIndex).toHaveBeenCalledWith('createdAt_1');
+      expect(orderModel.collection.createIndex).toHaveBeenCalledWith(
+        { createdAt: 1 },
+        { expireAfterSeconds: 60, name: 'createdAt_1', background: true },
+      );
+    });
+
+    it('should restore the old index when the rebuild fails', async () => {
+      orderModel.collection.listIndexes.mockReturnValue({
+        toArray: async () => [{ key: { createdAt: 1 }, name: 'createdAt_1', sparse: true }],
+      });
+      orderModel.collection.createIndex.mockRejectedValueOnce(new Error('build failed'));
+
+      await expect(new IndexManager(connection).sync({ models: ['Order'] })).rejects.toThrow(
+        'build failed',
+      );
+
+      expect(orderModel.collection.createIndex).toHaveBeenLastCalledWith(
+        { createdAt: 1 },
+        { sparse: true, name: 'createdAt_1', background: true },
+      );
+    });
+
+    it('should keep changed unique indexes unless rebuildUnique is set', async () => {
+      userModel.collection.listIndexes.mockReturnValue({
+        toArray: async () => [
+          { key: { email: 1 }, name: 'email_1', unique: true, sparse: true },
+          { key: { age: 1 }, name: 'age_1', sparse: true },
+        ],
+      });
+      const manager = new IndexManager(connection);
+
+      const kept = await manager.sync({ models: ['User'] });
+
+      expect(kept).toEqual([]);
+      expect(userModel.collection.dropIndex).not.toHaveBeenCalled();
+      expect((manager as any).logger.warn).toHaveBeenCalledWith(
+        'Keeping changed index users.email_1 (sparse): pass rebuildUnique to rebuild it',
+      );
+
+      const applied = await manager.sync({ models: ['User'], rebuildUnique: true });
+
+      expect(applied.map((diff) => diff.name)).toEqual(['email_1']);
+      expect(userModel.collection.dropIndex).toHaveBeenCalledWith('email_1');
+      expect(userModel.collection.createIndex).toHaveBeenCalledWith(
+        { email: 1 },
+        { unique: true, name: 'email_1', background: true },
+      );
+    });
+
+    it('should drop undeclared indexes with dropExtra', async () => {
+      await new IndexManager(connection).sync({ models: ['User'], dropExtra: true });
+
+      expect(userModel.collection.dropIndex).toHaveBeenCalledWith('legacy_1');
+    });
+
+    it('should not change anything in a dry run', async () => {
+      const applied = await new IndexManager(connection).sync({ dryRun: true, dropExtra: true });
+
+      expect(applied).toHaveLength(3);
+      expect(userModel.collection.createIndex).not.toHaveBeenCalled();
+      expect(userModel.collection.dropIndex).not.toHaveBeenCalled();
+      expect(connection.db.command).not.toHaveBeenCalled();
+    });
+
+    it('should log the build progress while an index builds', async () => {
+      jest.useFakeTimers();
+      let finish: () => void = () => undefined;
+      userModel.collection.createIndex.mockReturnValue(new Promise<void>((r) => (finish = r)));
+      admin.command.mockResolvedValue({ inprog: [{ progress: { done: 50, total: 100 } }] });
+      const manager = new IndexManager(connection, undefined, { progressIntervalMs: 1000 });
+      const logger = (manager as any).logger;
+
+      const sync = manager.sync({ models: ['User'] });
+      await jest.advanceTimersByTimeAsync(1000);
+      finish();
+      await sync;
+      jest.useRealTimers();
+
+      expect(admin.command).toHaveBeenCalledWith({
+        currentOp: true,
+        'command.createIndexes': 'users',
+      });
+      expect(logger.log).toHaveBeenCalledWith('Building index users.age_1: 50/100');
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should do nothing by default', async () => {
+      await new IndexManager(connection).onApplicationBootstrap();
+
+      expect(userModel.collection.listIndexes).not.toHaveBeenCalled();
+    });
+
+    it('should log the drift with checkOnBootstrap', async () => {
+      const manager = new IndexManager(connection, 'app', { checkOnBootstrap: true });
+
+      await manager.onApplicationBootstrap();
+
+      expect((manager as any).logger.warn).toHaveBeenCalledWith(
+        'changed index orders.createdAt_1 (expireAfterSeconds) on connection app',
+      );
+    });
+
+    it('should fail the bootstrap on drift with failOnDrift', async () => {
+      const manager = new IndexManager(connection, undefined, { failOnDrift: true });
+
+      await expect(manager.onApplicationBootstrap()).rejects.toThrow(IndexDriftError);
+    });
+
+    it('should sync before checking with syncOnBootstrap', async () => {
+      const manager = new IndexManager(connection, undefined, {
+        syncOnBootstrap: { dropExtra: true },
+        failOnDrift: true,
+      });
+      userModel.collection.listIndexes
+        .mockReturnValueOnce({ toArray: async () => [{ key: { legacy: 1 }, name: 'legacy_1' }] })
+        .mockReturnValue({
+          toArray: async () => [
+            { key: { email: 1 }, name: 'email_1', unique: true },
+            { key: { age: 1 }, name: 'age_1', sparse: true },
+          ],
+        });
+      orderModel.collection.listIndexes.mockReturnValue({
+        toArray: async () => [
+          { key: { createdAt: 1 }, name: 'createdAt_1', expireAfterSeconds: 60 },
+        ],
+      });
+
+      await expect(manager.onApplicationBootstrap()).resolves.toBeUndefined();
+      expect(userModel.collection.dropIndex).toHaveBeenCalledWith('legacy_1');
+    });
+  });
+});
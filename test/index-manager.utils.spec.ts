@@ -0,0 +1,125 @@
+import {
+  diffIndexes,
+  getDefaultIndexName,
+  getIndexDifferences,
+  getIndexManagerToken,
+  toComparableIndex,
+  toIndexDescription,
+} from '../src/utils/index-manager.utils';
+
+describe('Index Manager Utils', () => {
+  describe('getIndexManagerToken', () => {
+    it('should derive the token from the connection token', () => {
+      expect(getIndexManagerToken()).toBe('DatabaseConnectionIndexManager');
+      expect(getIndexManagerToken('analytics')).toBe('analyticsConnectionIndexManager');
+    });
+  });
+
+  describe('getDefaultIndexName', () => {
+    it('should build the MongoDB default name', () => {
+      expect(getDefaultIndexName({ email: 1, createdAt: -1 })).toBe('email_1_createdAt_-1');
+      expect(getDefaultIndexName({ title: 'text' })).toBe('title_text');
+    });
+  });
+
+  describe('toIndexDescription', () => {
+    it('should keep only the defining options', () => {
+      expect(
+        toIndexDescription(
+          { email: 1 },
+          { unique: true, sparse: false, background: true, v: 2, name: 'email_unique' },
+        ),
+      ).toEqual({ name: 'email_unique', key: { email: 1 }, options: { unique: true } });
+    });
+  });
+
+  describe('toComparableIndex', () => {
+    it('should convert text fields to the form MongoDB reports', () => {
+      const index = toComparableIndex(
+        toIndexDescription({ tenant: 1, title: 'text', body: 'text' }, { weights: { title: 5 } }),
+      );
+
+      expect(index.key).toEqual({ tenant: 1, _fts: 'text', _ftsx: 1 });
+      expect(index.options).toEqual({
+        default_language: 'english',
+        language_override: 'language',
+        weights: { title: 5, body: 1 },
+      });
+      expect(index.name).toBe('tenant_1_title_text_body_text');
+    });
+  });
+
+  describe('getIndexDifferences', () => {
+    it('should report key order and option differences', () => {
+      const declared = toIndexDescription({ a: 1, b: 1 }, { unique: true });
+      const live = toIndexDescription({ b: 1, a: 1 }, { name: 'a_1_b_1', sparse: true });
+
+      expect(getIndexDifferences(declared, live)).toEqual(['key', 'unique', 'sparse']);
+    });
+
+    it('should only compare the declared collation fields', () => {
+      const declared = toIndexDescription({ name: 1 }, { collation: { locale: 'fr' } });
+      const live = toIndexDescription(
+        { name: 1 },
+        { collation: { locale: 'fr', strength: 3, caseLevel: false } },
+      );
+
+      expect(getIndexDifferences(declared, live)).toEqual([]);
+      expect(
+        getIndexDifferences(
+          declared,
+          toIndexDescription({ name: 1 }, { collation: { locale: 'de' } }),
+        ),
+      ).toEqual(['collation']);
+    });
+  });
+
+  describe('diffIndexes', () => {
+    it('should report missing, extra and changed indexes, ignoring _id', () => {
+      const declared = [
+        toIndexDescription({ email: 1 }, { unique: true }),
+        toIndexDescription({ createdAt: -1 }, { expireAfterSeconds: 3600 }),
+        toIndexDescription({ title: 'text' }),
+      ];
+      const live = [
+        toIndexDescription({ _id: 1 }, { name: '_id_' }),
+        toIndexDescription({ email: 1 }, { name: 'email_1' }),
+        toIndexDescription(
+          { _fts: 'text', _ftsx: 1 },
+          {
+            name: 'title_text',
+            weights: { title: 1 },
+            default_language: 'english',
+            language_override: 'language',
+          },
+        ),
+        toIndexDescription({ legacy: 1 }, { name: 'legacy_1' }),
+      ];
+
+      const diffs = diffIndexes('User', 'users', declared, live);
+
+      expect(diffs.map((diff) => [diff.type, diff.name, diff.differences])).toEqual([
+        ['changed', 'email_1', ['unique']],
+        ['missing', 'createdAt_-1', undefined],
+        ['extra', 'legacy_1', undefined],
+      ]);
+      expect(diffs[0]).toEqual(
+        expect.objectContaining({ modelName: 'User', collectionName: 'users' }),
+      );
+    });
+
+    it('should match renamed indexes by key', () => {
+      const diffs = diffIndexes(
+        'User',
+        'users',
+        [toIndexDescription({ email: 1 })],
+        [toIndexDescription({ email: 1 }, { name: 'by_email' })],
+      );
+
+      expect(diffs).toHaveLength(1);
+      expect(diffs[0]).toEqual(
+        expect.objectContaining({ type: 'changed', name: 'email_1', differences: ['name'] }),
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Schema, Types } from 'mongoose';
+import {
+  getSchemaFieldType,
+  parseListQuery,
+  parseQueryString,
+  toPaginationOptions,
+} from '../src/utils/list-query.utils';
+import { InvalidListQueryError } from '../src/errors/list-query.error';
+import { ListQueryOptions } from '../src/interfaces/list-query.interface';
+
+const UserSchema = new Schema({
+  name: String,
+  age: Number,
+  active: Boolean,
+  roles: [String],
+  teamId: Schema.Types.ObjectId,
+  createdAt: Date,
+  profile: { score: Number },
+});
+
+const options: ListQueryOptions = {
+  schema: UserSchema,
+  filterable: {
+    name: ['eq', 'ne'],
+    age: ['gte', 'lte', 'gt', 'lt'],
+    active: ['eq'],
+    roles: ['in', 'nin'],
+    teamId: true,
+    createdAt: ['gte', 'lt'],
+    'profile.score': ['gt'],
+  },
+  sortable: ['createdAt', 'name'],
+  selectable: ['name', 'email'],
+};
+
+const expectProblems = (fn: () => unknown, problems: string[]) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidListQueryError);
+    expect((error as InvalidListQueryError).problems).toEqual(problems);
+    return;
+  }
+  throw new Error('Expected InvalidListQueryError');
+};
+
+describe('List Query Utils', () => {
+  describe('parseQueryString', () => {
+    it('should parse bracket operators and repeated keys like req.query', () => {
+      const params = parseQueryString('?age[gte]=18&roles[in]=admin&roles[in]=user&sort=-name');
+
+      expect({ ...params, age: { ...params.age }, roles: { ...params.roles } }).toEqual({
+        age: { gte: '18' },
+        roles: { in: ['admin', 'user'] },
+        sort: '-name',
+      });
+    });
+
+    it('should keep __proto__ keys as plain data', () => {
+      const params = parseQueryString('__proto__[polluted]=1');
+
+      expect(({} as any).polluted).toBeUndefined();
+      expect(Object.keys(params)).toEqual(['__proto__']);
+    });
+  });
+
+  describe('getSchemaFieldType', () => {
+    it('should read the type of plain, nested and array paths', () => {
+      expect(getSchemaFieldType(UserSchema, 'age')).toBe('Number');
+      expect(getSchemaFieldType(UserSchema, 'profile.score')).toBe('Number');
+      expect(getSchemaFieldType(UserSchema, 'roles')).toBe('String');
+      expect(getSchemaFieldType(UserSchema, 'unknown')).toBeUndefined();
+      expect(getSchemaFieldType(undefined, 'age')).toBeUndefined();
+    });
+  });
+
+  describe('parseListQuery', () => {
+    it('should build the filter, sort, projection and pagination', () => {
+      const query = parseListQuery(
+        '?age[gte]=18&roles[in]=admin,user&sort=-createdAt&fields=name,email&page=2',
+        options,
+      );
+
+      expect(query).toEqual({
+        filter: { age: { $gte: 18 }, roles: { $in: ['admin', 'user'] } },
+        sort: { createdAt: -1 },
+        projection: { name: 1, email: 1 },
+        pagination: { page: 2, limit: 10 },
+      });
+    });
+
+    it('should coerce values from the schema', () => {
+      const teamId = new Types.ObjectId().toString();
+      const { filter } = parseListQuery(
+        {
+          name: 'Ann',
+          active: 'true',
+          teamId: { exists: 'true', ne: teamId },
+          createdAt: { gte: '2024-01-01', lt: '2024-02-01' },
+          'profile.score': { gt: '4.5' },
+        },
+        options,
+      );
+
+      expect(filter.name).toBe('Ann');
+      expect(filter.active).toBe(true);
+      expect(filter.teamId.$exists).toBe(true);
+      expect(filter.teamId.$ne).toBeInstanceOf(Types.ObjectId);
+      expect(filter.teamId.$ne.toString()).toBe(teamId);
+      expect(filter.createdAt.$gte).toEqual(new Date('2024-01-01'));
+      expect(filter.createdAt.$lt).toEqual(new Date('2024-02-01'));
+      expect(filter['profile.score']).toEqual({ $gt: 4.5 });
+    });
+
+    it('should apply the defaults', () => {
+      const query = parseListQuery('', {
+        defaultSort: { createdAt: -1 },
+        defaultLimit: 25,
+      });
+
+      expect(query).toEqual({
+        filter: {},
+        sort: { createdAt: -1 },
+        projection: undefined,
+        pagination: { page: 1, limit: 25 },
+      });
+    });
+
+    it('should reject fields and operators outside the whitelist', () => {
+      expectProblems(
+        () =>
+          parseListQuery(
+            'password=x&toString=y&name[gt]=a&age[$where]=1&sort=password&fields=password',
+            options,
+          ),
+        [
+          'Field "password" is not filterable',
+          'Field "toString" is not filterable',
+          'Operator "gt" is not allowed on "name"',
+          'Unknown operator "$where" on "age"',
+          'Field "password" is not sortable',
+          'Field "password" is not selectable',
+        ],
+      );
+    });
+
+    it('should reject values that do not fit the schema type', () => {
+      expectProblems(
+        () =>
+          parseListQuery(
+            {
+              age: { gte: 'old', lt: ['1', '2'] },
+              active: 'yes',
+              teamId: 'abc',
+              createdAt: { gte: 'soon' },
+              name: { eq: { $ne: 'x' } },
+            },
+            options,
+          ),
+        [
+          'Invalid number "old" for "age"',
+          'Operator "lt" on "age" takes a single value',
+          'Invalid boolean "yes" for "active"',
+          'Invalid ObjectId "abc" for "teamId"',
+          'Invalid date "soon" for "createdAt"',
+          'Invalid value for "name"',
+        ],
+      );
+    });
+
+    it('should validate the pagination', () => {
+      expectProblems(
+        () => parseListQuery('page=0&limit=500', options),
+        ['page must be a positive integer', 'limit must be at most 100'],
+      );
+      expectProblems(
+        () => parseListQuery('limit=abc', options),
+        ['limit must be a positive integer'],
+      );
+    });
+  });
+
+  describe('toPaginationOptions', () => {
+    it('should convert a parsed query to findWithPagination options', () => {
+      const query = parseListQuery('sort=name&fields=name&page=3&limit=5', options);
+
+      expect(toPaginationOptions(query)).toEqual({
+        page: 3,
+        limit: 5,
+        sort: { name: 1 },
+        projection: { name: 1 },
+      });
+    });
+  });
+});
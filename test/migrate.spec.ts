@@ -0,0 +1,105 @@
+import * as mongoose from 'mongoose';
+import { formatMigrationStatus, parseMigrationCliArgs, runMigrationCli } from '../src/cli/migrate';
+
+jest.mock('mongoose', () => ({
+  ...jest.requireActual('mongoose'),
+  createConnection: jest.fn(),
+}));
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+describe('Migration CLI', () => {
+  describe('parseMigrationCliArgs', () => {
+    it('should parse the command and options', () => {
+      expect(
+        parseMigrationCliArgs([
+          'down',
+          '--uri',
+          'mongodb://localhost/app',
+          '--dir',
+          'dist/migrations',
+          '--dir',
+          'dist/seeds',
+          '--to',
+          '3',
+          '--dry-run',
+        ]),
+      ).toEqual({
+        command: 'down',
+        uri: 'mongodb://localhost/app',
+        directories: ['dist/migrations', 'dist/seeds'],
+        to: '3',
+        dryRun: true,
+        allowDrift: false,
+      });
+    });
+
+    it('should reject unknown commands, unknown options and missing values', () => {
+      expect(() => parseMigrationCliArgs([])).toThrow('Unknown command ""');
+      expect(() => parseMigrationCliArgs(['up', '--force'])).toThrow('Unknown option "--force"');
+      expect(() => parseMigrationCliArgs(['up', '--to'])).toThrow('Option --to requires a value');
+    });
+  });
+
+  describe('formatMigrationStatus', () => {
+    it('should print one line per migration', () => {
+      expect(
+        formatMigrationStatus([
+          { version: '1', description: 'Create users', state: 'applied' },
+          { version: '2', description: 'Add index', state: 'pending' },
+        ]),
+      ).toBe('applied  1  Create users\npending  2  Add index');
+      expect(formatMigrationStatus([])).toBe('No migrations found');
+    });
+  });
+
+  describe('runMigrationCli', () => {
+    let connection: any;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      connection = {
+        collection: jest.fn().mockReturnValue({
+          find: jest.fn(() => ({ toArray: async () => [] })),
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      (mongoose.createConnection as jest.Mock).mockReturnValue({
+        asPromise: jest.fn().mockResolvedValue(connection),
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should fail with the usage on invalid arguments', async () => {
+      expect(await runMigrationCli(['migrate'])).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+    });
+
+    it('should fail without a connection string', async () => {
+      expect(await runMigrationCli(['status'], {})).toBe(1);
+      expect(mongoose.createConnection).not.toHaveBeenCalled();
+    });
+
+    it('should print the status using MONGODB_URI and close the connection', async () => {
+      const code = await runMigrationCli(['status'], { MONGODB_URI: 'mongodb://localhost/app' });
+
+      expect(code).toBe(0);
+      expect(mongoose.createConnection).toHaveBeenCalledWith('mongodb://localhost/app');
+      expect(console.log).toHaveBeenCalledWith('No migrations found');
+      expect(connection.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { MigrationRunner } from '../src/services/migration-runner.service';
+import { InMemoryCdcLeaseStore } from '../src/services/cdc-lease.store';
+import { Migration } from '../src/decorators/migration.decorator';
+import { MigrationDriftError, MigrationLockError } from '../src/errors/migration.error';
+import { MigrationContext, MigrationInterface } from '../src/interfaces/migration.interface';
+import { getTransactionSession } from '../src/utils/transaction.utils';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const calls: string[] = [];
+
+@Migration({ version: '1', description: 'Create users' })
+class CreateUsers implements MigrationInterface {
+  async up() {
+    calls.push('up:1');
+  }
+
+  async down() {
+    calls.push('down:1');
+  }
+}
+
+@Migration({ version: '2', description: 'Add email index' })
+class AddEmailIndex implements MigrationInterface {
+  async up() {
+    calls.push('up:2');
+  }
+
+  async down() {
+    calls.push('down:2');
+  }
+}
+
+@Migration({ version: '10', transactional: false })
+class BackfillNames implements MigrationInterface {
+  async up() {
+    calls.push('up:10');
+  }
+}
+
+describe('MigrationRunner', () => {
+  let records: Map<string, any>;
+  let collection: any;
+  let session: any;
+  let connection: any;
+  let hello: Record<string, any>;
+
+  const createRunner = (options = {}) =>
+    new MigrationRunner(connection, [new BackfillNames(), new CreateUsers(), new AddEmailIndex()], {
+      lockStore: new InMemoryCdcLeaseStore(),
+      ...options,
+    });
+
+  beforeEach(() => {
+    calls.length = 0;
+    records = new Map();
+    hello = { setName: 'rs0', isWritablePrimary: true };
+    collection = {
+      find: jest.fn(() => ({
+        toArray: async () => [...records.entries()].map(([_id, record]) => ({ _id, ...record })),
+      })),
+      updateOne: jest.fn(async (filter: any, update: any) => {
+        records.set(filter._id, { ...records.get(filter._id), ...update.$set });
+      }),
+      deleteOne: jest.fn(async (filter: any) => {
+        records.delete(filter._id);
+      }),
+    };
+    session = {
+      withTransaction: jest.fn(async (fn: () => Promise<void>) => fn()),
+      endSession: jest.fn().mockResolvedValue(undefined),
+    };
+    connection = {
+      db: { command: jest.fn(async () => hello) },
+      collection: jest.fn().mockReturnValue(collection),
+      getClient: jest.fn().mockReturnValue({}),
+      startSession: jest.fn().mockResolvedValue(session),
+    };
+  });
+
+  describe('status', () => {
+    it('should report pending migrations in numeric version order', async () => {
+      const statuses = await createRunner().status();
+
+      expect(statuses.map((status) => [status.version, status.state])).toEqual([
+        ['1', 'pending'],
+        ['2', 'pending'],
+        ['10', 'pending'],
+      ]);
+      expect(statuses[0].description).toBe('Create users');
+      expect(statuses[2].description).toBe('BackfillNames');
+    });
+
+    it('should detect drifted and missing migrations', async () => {
+      const runner = createRunner();
+      await runner.up();
+      records.get('2').checksum = 'changed';
+      records.set('3', { description: 'Removed', checksum: 'x', appliedAt: new Date() });
+
+      const statuses = await runner.status();
+
+      expect(statuses.map((status) => [status.version, status.state])).toEqual([
+        ['1', 'applied'],
+        ['2', 'drifted'],
+        ['3', 'missing'],
+        ['10', 'applied'],
+      ]);
+    });
+
+    it('should report an edited migration as drifted', async () => {
+      await createRunner().up();
+
+      @Migration({ version: '2', description: 'Add email index' })
+      class EditedAddEmailIndex implements MigrationInterface {
+        async up() {
+          calls.push('up:2 edited');
+        }
+
+        async down() {
+          calls.push('down:2');
+        }
+      }
+      const runner = new MigrationRunner(
+        connection,
+        [new BackfillNames(), new CreateUsers(), new EditedAddEmailIndex()],
+        { lockStore: new InMemoryCdcLeaseStore() },
+      );
+
+      const statuses = await runner.status();
+
+      expect(statuses.map((status) => [status.version, status.state])).toEqual([
+        ['1', 'applied'],
+        ['2', 'drifted'],
+        ['10', 'applied'],
+      ]);
+    });
+  });
+
+  describe('up', () => {
+    it('should apply pending migrations and record them', async () => {
+      const results = await createRunner().up();
+
+      expect(calls).toEqual(['up:1', 'up:2', 'up:10']);
+      expect(results.map((result) => [result.version, result.transactional])).toEqual([
+        ['1', true],
+        ['2', true],
+        ['10', false],
+      ]);
+      expect([...records.keys()]).toEqual(['1', '2', '10']);
+      expect(records.get('1')).toEqual(
+        expect.objectContaining({ description: 'Create users', appliedAt: expect.any(Date) }),
+      );
+    });
+
+    it('should run transactional scripts and their record in one transaction', async () => {
+      let context: MigrationContext | undefined;
+      let joined: unknown;
+      jest
+        .spyOn(CreateUsers.prototype as MigrationInterface, 'up')
+        .mockImplementationOnce(async (ctx) => {
+          context = ctx;
+          joined = getTransactionSession(connection);
+        });
+
+      await createRunner().up({ to: '1' });
+
+      expect(context?.session).toBe(session);
+      expect(joined).toBe(session);
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { _id: '1' },
+        expect.anything(),
+        expect.objectContaining({ session }),
+      );
+      expect(session.endSession).toHaveBeenCalled();
+    });
+
+    it('should run without transactions on a standalone server', async () => {
+      hello = { isWritablePrimary: true };
+
+      const results = await createRunner().up();
+
+      expect(connection.startSession).not.toHaveBeenCalled();
+      expect(results.every((result) => !result.transactional)).toBe(true);
+    });
+
+    it('should stop at the target version', async () => {
+      await createRunner().up({ to: '2' });
+
+      expect(calls).toEqual(['up:1', 'up:2']);
+    });
+
+    it('should only report migrations in dry-run mode', async () => {
+      const results = await createRunner().up({ dryRun: true });
+
+      expect(calls).toEqual([]);
+      expect(records.size).toBe(0);
+      expect(results).toHaveLength(3);
+      expect(results.every((result) => result.dryRun)).toBe(true);
+    });
+
+    it('should refuse to run when applied migrations drifted', async () => {
+      const runner = createRunner();
+      await runner.up({ to: '1' });
+      records.get('1').checksum = 'changed';
+
+      await expect(runner.up()).rejects.toThrow(MigrationDriftError);
+      expect(calls).toEqual(['up:1']);
+
+      await runner.up({ allowDrift: true });
+      expect(calls).toEqual(['up:1', 'up:2', 'up:10']);
+    });
+
+    it('should not record a migration whose script fails', async () => {
+      jest.spyOn(AddEmailIndex.prototype, 'up').mockRejectedValueOnce(new Error('boom'));
+
+      await expect(createRunner().up()).rejects.toThrow('boom');
+      expect([...records.keys()]).toEqual(['1']);
+    });
+  });
+
+  describe('down', () => {
+    it('should roll back the last applied migration by default', async () => {
+      const runner = createRunner();
+      await runner.up({ to: '2' });
+
+      const results = await runner.down();
+
+      expect(results.map((result) => result.version)).toEqual(['2']);
+      expect(calls).toEqual(['up:1', 'up:2', 'down:2']);
+      expect([...records.keys()]).toEqual(['1']);
+    });
+
+    it('should roll back every migration after the target version in reverse order', async () => {
+      const runner = createRunner();
+      await runner.up({ to: '2' });
+
+      await runner.down({ to: '0' });
+
+      expect(calls).toEqual(['up:1', 'up:2', 'down:2', 'down:1']);
+      expect(records.size).toBe(0);
+    });
+
+    it('should refuse before running anything when a target has no down script', async () => {
+      const runner = createRunner();
+      await runner.up();
+
+      await expect(runner.down({ to: '1' })).rejects.toThrow('Migration 10 has no down script');
+      expect(calls).toEqual(['up:1', 'up:2', 'up:10']);
+    });
+
+    it('should only report migrations in dry-run mode', async () => {
+      const runner = createRunner();
+      await runner.up({ to: '2' });
+
+      const results = await runner.down({ to: '0', dryRun: true });
+
+      expect(results.map((result) => result.version)).toEqual(['2', '1']);
+      expect(records.size).toBe(2);
+    });
+  });
+
+  describe('locking', () => {
+    it('should fail while another instance holds the lock', async () => {
+      const lockStore = new InMemoryCdcLeaseStore();
+      await lockStore.acquire('migrations', 'other-instance', 60000);
+
+      await expect(createRunner({ lockStore }).up()).rejects.toThrow(MigrationLockError);
+      expect(calls).toEqual([]);
+    });
+
+    it('should release the lock after running, even on failure', async () => {
+      const lockStore = new InMemoryCdcLeaseStore();
+      jest.spyOn(CreateUsers.prototype, 'up').mockRejectedValueOnce(new Error('boom'));
+
+      await expect(createRunner({ lockStore }).up()).rejects.toThrow('boom');
+
+      expect(await lockStore.acquire('migrations', 'other-instance', 60000)).toBe(true);
+    });
+
+    it('should fail the run when another instance takes the lock over', async () => {
+      const lockStore = {
+        acquire: jest.fn().mockResolvedValueOnce(true).mockResolvedValue(false),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      jest
+        .spyOn(CreateUsers.prototype, 'up')
+        .mockImplementationOnce(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+      await expect(createRunner({ lockStore, lockDurationMs: 30 }).up()).rejects.toThrow(
+        'Migration lock "migrations" was lost while migrating',
+      );
+      expect(records.size).toBe(0);
+      expect(calls).toEqual([]);
+    });
+  });
+
+  describe('register', () => {
+    it('should ignore the same class twice and reject two classes with one version', () => {
+      @Migration({ version: '1' })
+      class Duplicate implements MigrationInterface {
+        async up() {}
+      }
+      const runner = createRunner();
+
+      runner.register(new CreateUsers());
+      expect(runner.getMigrations()).toHaveLength(3);
+      expect(() => runner.register(new Duplicate())).toThrow(
+        'Migration version "1" is registered more than once',
+      );
+    });
+  });
+});
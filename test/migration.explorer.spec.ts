@@ -0,0 +1,98 @@
+import { Global, Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getConnectionToken } from '@nestjs/mongoose';
+import { MigrationModule } from '../src/migration.module';
+import { MigrationRunner } from '../src/services/migration-runner.service';
+import { InMemoryCdcLeaseStore } from '../src/services/cdc-lease.store';
+import { Migration } from '../src/decorators/migration.decorator';
+import { MigrationInterface, MigrationModuleOptions } from '../src/interfaces/migration.interface';
+import { getMigrationRunnerToken } from '../src/utils/migration.utils';
+
+@Injectable()
+class UserService {
+  readonly ready = true;
+}
+
+@Migration({ version: '1', description: 'Activate users' })
+@Injectable()
+class ActivateUsers implements MigrationInterface {
+  constructor(readonly userService: UserService) {}
+
+  async up() {}
+}
+
+@Migration({ version: '1', connectionName: 'analytics' })
+class CreateReports implements MigrationInterface {
+  async up() {}
+}
+
+let connection: any;
+
+// Stands in for the global MongooseModule
+@Global()
+@Module({
+  providers: [{ provide: getConnectionToken(), useFactory: () => connection }],
+  exports: [getConnectionToken()],
+})
+class ConnectionModule {}
+
+describe('MigrationExplorer', () => {
+  let collection: any;
+
+  const createApp = async (options: MigrationModuleOptions = {}) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ConnectionModule,
+        MigrationModule.forRoot({ lockStore: new InMemoryCdcLeaseStore(), ...options }),
+      ],
+      providers: [UserService, ActivateUsers, CreateReports],
+    })
+      .setLogger({ log: jest.fn(), warn: jest.fn(), error: jest.fn() } as any)
+      .compile();
+    return moduleRef.init();
+  };
+
+  beforeEach(() => {
+    collection = {
+      find: jest.fn(() => ({ toArray: async () => [] })),
+      updateOne: jest.fn().mockResolvedValue(undefined),
+    };
+    connection = {
+      db: { command: jest.fn().mockResolvedValue({ isWritablePrimary: true }) },
+      collection: jest.fn().mockReturnValue(collection),
+    };
+  });
+
+  it('should register the @Migration providers of its connection', async () => {
+    const app = await createApp();
+    const runner = app.get(MigrationRunner);
+
+    expect(app.get(getMigrationRunnerToken())).toBe(runner);
+    const migrations = runner.getMigrations();
+    expect(migrations).toHaveLength(1);
+    expect(migrations[0].migration).toBe(app.get(ActivateUsers));
+    expect((migrations[0].migration as ActivateUsers).userService.ready).toBe(true);
+
+    await app.close();
+  });
+
+  it('should not migrate on bootstrap by default', async () => {
+    const app = await createApp();
+
+    expect(collection.updateOne).not.toHaveBeenCalled();
+
+    await app.close();
+  });
+
+  it('should apply pending migrations on bootstrap when enabled', async () => {
+    const app = await createApp({ runOnBootstrap: true });
+
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { _id: '1' },
+      expect.objectContaining({ $set: expect.objectContaining({ description: 'Activate users' }) }),
+      expect.anything(),
+    );
+
+    await app.close();
+  });
+});
@@ -0,0 +1,143 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { Migration } from '../src/decorators/migration.decorator';
+import { MigrationInterface } from '../src/interfaces/migration.interface';
+import {
+  compareMigrationVersions,
+  computeMigrationChecksum,
+  getMigrationOptions,
+  getMigrationRunnerToken,
+  loadMigrationsFromDirectory,
+  toMigrationDefinition,
+} from '../src/utils/migration.utils';
+
+@Migration({ version: '20240101000000', description: 'Seed roles', transactional: false })
+class SeedRoles implements MigrationInterface {
+  async up() {}
+}
+
+@Migration({ version: '20240102000000' })
+class RenameField implements MigrationInterface {
+  async up() {}
+}
+
+class Undecorated implements MigrationInterface {
+  async up() {}
+}
+
+const calls: string[] = [];
+
+describe('Migration Utils', () => {
+  describe('getMigrationRunnerToken', () => {
+    it('should derive the token from the connection token', () => {
+      expect(getMigrationRunnerToken()).toBe('DatabaseConnectionMigrationRunner');
+      expect(getMigrationRunnerToken('analytics')).toBe('analyticsConnectionMigrationRunner');
+    });
+  });
+
+  describe('compareMigrationVersions', () => {
+    it('should compare versions numerically', () => {
+      const versions = ['10', '2', '1', '001a'].sort(compareMigrationVersions);
+      expect(versions).toEqual(['1', '001a', '2', '10']);
+    });
+  });
+
+  describe('getMigrationOptions', () => {
+    it('should read the options from a class or an instance', () => {
+      expect(getMigrationOptions(SeedRoles)?.version).toBe('20240101000000');
+      expect(getMigrationOptions(new SeedRoles())?.description).toBe('Seed roles');
+      expect(getMigrationOptions(new Undecorated())).toBeUndefined();
+    });
+  });
+
+  describe('computeMigrationChecksum', () => {
+    it('should hash the version by default', () => {
+      expect(computeMigrationChecksum({ version: '1' })).toBe(
+        computeMigrationChecksum({ version: '1', description: 'Renamed' }),
+      );
+      expect(computeMigrationChecksum({ version: '1' })).not.toBe(
+        computeMigrationChecksum({ version: '2' }),
+      );
+    });
+
+    it('should use an explicit checksum', () => {
+      expect(computeMigrationChecksum({ version: '1', checksum: 'v2' })).toBe('v2');
+      expect(computeMigrationChecksum({ version: '1', checksum: 'v2' }, new SeedRoles())).toBe(
+        'v2',
+      );
+    });
+
+    it('should hash the source of the scripts', () => {
+      const original: MigrationInterface = {
+        up: async () => {
+          calls.push('a');
+        },
+      };
+      const edited: MigrationInterface = {
+        up: async () => {
+          calls.push('b');
+        },
+      };
+      // prettier-ignore
+      const reformatted: MigrationInterface = { up: async () => { calls.push('a'); } };
+
+      const checksum = computeMigrationChecksum({ version: '1' }, original);
+      expect(computeMigrationChecksum({ version: '1' }, edited)).not.toBe(checksum);
+      expect(computeMigrationChecksum({ version: '1' }, reformatted)).toBe(checksum);
+    });
+  });
+
+  describe('toMigrationDefinition', () => {
+    it('should apply the defaults', () => {
+      const definition = toMigrationDefinition(new RenameField());
+
+      expect(definition).toEqual({
+        version: '20240102000000',
+        description: 'RenameField',
+        transactional: true,
+        checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+        migration: expect.any(RenameField),
+      });
+      expect(toMigrationDefinition(new SeedRoles()).transactional).toBe(false);
+    });
+
+    it('should throw for classes without @Migration()', () => {
+      expect(() => toMigrationDefinition(new Undecorated())).toThrow(
+        'Undecorated is not decorated with @Migration()',
+      );
+    });
+  });
+
+  describe('loadMigrationsFromDirectory', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should instantiate the decorated classes exported by the files', async () => {
+      const decorator = resolve(__dirname, '../src/decorators/migration.decorator');
+      writeFileSync(
+        join(directory, '001-create-users.js'),
+        `const { Migration } = require(${JSON.stringify(decorator)});
+        class CreateUsers { async up() {} }
+        Migration({ version: '1' })(CreateUsers);
+        class Helper {}
+        module.exports = { CreateUsers, Helper, VERSION: 1 };`,
+      );
+      writeFileSync(join(directory, '001-create-users.d.ts'), 'export {};');
+      writeFileSync(join(directory, 'README.md'), '# Migrations');
+
+      const migrations = await loadMigrationsFromDirectory(directory);
+
+      expect(migrations).toHaveLength(1);
+      expect(migrations[0].constructor.name).toBe('CreateUsers');
+      expect(getMigrationOptions(migrations[0])?.version).toBe('1');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events';
+import { Model } from 'mongoose';
+import { MongoHealthIndicator } from '../src/services/mongo-health.indicator';
+import { BaseCdcService } from '../src/services/base-cdc.service';
+import { MongoHealthCheckError } from '../src/errors/health-check.error';
+import { MongoConnectionEvent } from '../src/interfaces/health.interface';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+describe('MongoHealthIndicator', () => {
+  let connection: any;
+  let indicator: MongoHealthIndicator;
+
+  beforeEach(() => {
+    connection = new EventEmitter();
+    connection.readyState = 1;
+    connection.db = {
+      command: jest.fn().mockResolvedValue({ ok: 1, isWritablePrimary: true, setName: 'rs0' }),
+    };
+    connection.getClient = jest.fn().mockReturnValue({});
+    indicator = new MongoHealthIndicator(connection, 'app');
+  });
+
+  afterEach(() => {
+    indicator.onModuleDestroy();
+  });
+
+  it('should report a healthy connection', async () => {
+    const result = await indicator.check('db');
+
+    expect(connection.db.command).toHaveBeenCalledWith({ hello: 1 });
+    expect(result).toEqual({
+      db: {
+        status: 'up',
+        connectionName: 'app',
+        readyState: 'connected',
+        pingMs: expect.any(Number),
+        role: 'primary',
+        setName: 'rs0',
+        pool: undefined,
+        cdc: [],
+      },
+    });
+  });
+
+  it('should report a closed connection as down', async () => {
+    connection.readyState = 0;
+
+    const result = await indicator.check();
+
+    expect(result.mongodb).toEqual(
+      expect.objectContaining({
+        status: 'down',
+        readyState: 'disconnected',
+        message: 'Connection is not open',
+      }),
+    );
+    expect(connection.db.command).not.toHaveBeenCalled();
+  });
+
+  it('should report a ping timeout as down', async () => {
+    jest.useFakeTimers();
+    connection.db.command.mockReturnValue(new Promise(() => undefined));
+
+    const pending = indicator.check('mongodb', { timeoutMs: 50 });
+    await jest.advanceTimersByTimeAsync(50);
+    const result = await pending;
+    jest.useRealTimers();
+
+    expect(result.mongodb.status).toBe('down');
+    expect(result.mongodb.message).toBe('Ping timed out after 50ms');
+  });
+
+  it('should throw a terminus-compatible error when unhealthy', async () => {
+    connection.db.command.mockRejectedValue(new Error('not authorized'));
+
+    const error = await indicator.isHealthy().catch((e) => e);
+
+    expect(error).toBeInstanceOf(MongoHealthCheckError);
+    expect(error.isHealthCheckError).toBe(true);
+    expect(error.causes.mongodb).toEqual(
+      expect.objectContaining({ status: 'down', message: 'not authorized' }),
+    );
+  });
+
+  it('should include the status of running CDC services', async () => {
+    const changeStream: any = new EventEmitter();
+    changeStream.close = jest.fn().mockResolvedValue(undefined);
+    const model = { db: connection, watch: jest.fn().mockReturnValue(changeStream) };
+    const service = new BaseCdcService(model as unknown as Model<any>);
+    await service.start();
+
+    const result = await indicator.check();
+    expect(result.mongodb.cdc).toEqual([expect.objectContaining({ isWatching: true })]);
+
+    (service as any).watching = false;
+    await expect(indicator.isHealthy('mongodb', { requireCdcWatching: true })).rejects.toThrow(
+      'MongoDB health check failed: CDC not watching: BaseCdcService',
+    );
+
+    (service as any).watching = true;
+    await service.stop();
+  });
+
+  it('should log and stream connection events', () => {
+    const logger = (indicator as any).logger;
+    const events: MongoConnectionEvent[] = [];
+    indicator.events$.subscribe((event) => events.push(event));
+
+    connection.emit('disconnected');
+    connection.emit('reconnected');
+    connection.emit('error', new Error('boom'));
+
+    expect(events.map((event) => event.type)).toEqual(['disconnected', 'reconnected', 'error']);
+    expect(events[2].error?.message).toBe('boom');
+    expect(logger.warn).toHaveBeenCalledWith({ event: 'mongodb.disconnected', connection: 'app' });
+    expect(logger.log).toHaveBeenCalledWith({ event: 'mongodb.reconnected', connection: 'app' });
+    expect(logger.error).toHaveBeenCalledWith({
+      event: 'mongodb.error',
+      connection: 'app',
+      error: 'boom',
+    });
+  });
+
+  it('should stop listening on module destroy', () => {
+    const complete = jest.fn();
+    indicator.events$.subscribe({ complete });
+
+    indicator.onModuleDestroy();
+
+    expect(connection.listenerCount('connected')).toBe(0);
+    expect(complete).toHaveBeenCalled();
+  });
+});
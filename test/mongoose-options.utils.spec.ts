@@ -0,0 +1,49 @@
+import { InvalidMongooseOptionsError } from '../src/errors/mongoose-options.error';
+import {
+  getMongooseOptionsToken,
+  validateMongooseOptions,
+} from '../src/utils/mongoose-options.utils';
+
+describe('Mongoose Options Utils', () => {
+  describe('getMongooseOptionsToken', () => {
+    it('should derive the token from the connection token', () => {
+      expect(getMongooseOptionsToken()).toBe('DatabaseConnectionMongooseOptions');
+      expect(getMongooseOptionsToken('analytics')).toBe('analyticsConnectionMongooseOptions');
+    });
+  });
+
+  describe('validateMongooseOptions', () => {
+    it('should return valid options', () => {
+      const options = { uri: 'mongodb+srv://cluster/app', retryAttempts: 0 };
+      expect(validateMongooseOptions(options)).toBe(options);
+    });
+
+    it('should reject missing options', () => {
+      expect(() => validateMongooseOptions(undefined, 'analytics')).toThrow(
+        'Invalid MongooseModule options for connection "analytics": options must be an object',
+      );
+    });
+
+    it('should list every problem', () => {
+      let error: InvalidMongooseOptionsError | undefined;
+      try {
+        validateMongooseOptions({ uri: 'localhost:27017', retryDelay: -1 });
+      } catch (e) {
+        error = e as InvalidMongooseOptionsError;
+      }
+
+      expect(error).toBeInstanceOf(InvalidMongooseOptionsError);
+      expect(error?.connectionName).toBe('default');
+      expect(error?.problems).toEqual([
+        '"uri" must start with mongodb:// or mongodb+srv://',
+        '"retryDelay" must be a non-negative number',
+      ]);
+    });
+
+    it('should reject an empty uri', () => {
+      expect(() => validateMongooseOptions({ uri: ' ' })).toThrow(
+        '"uri" must be a non-empty string',
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { DynamicModule, FactoryProvider, Injectable, Module } from '@nestjs/common';
+import { MongooseModule as NestMongooseModule } from '@nestjs/mongoose';
+import { Test } from '@nestjs/testing';
+import { Connection } from 'mongoose';
+import { MongooseModule } from '../src/mongoose.module';
+import {
+  MongooseModuleOptions,
+  MongooseModuleOptionsFactory,
+} from '../src/interfaces/mongoose-options.interface';
+import { getMongooseOptionsToken } from '../src/utils/mongoose-options.utils';
+import { getTenancyServiceToken } from '../src/utils/tenant.utils';
+import { TenancyService } from '../src/services/tenancy.service';
+
+@Injectable()
+class ConfigService implements MongooseModuleOptionsFactory {
+  uri = 'mongodb://localhost/app';
+
+  createMongooseOptions(): MongooseModuleOptions {
+    return { uri: this.uri, maxPoolSize: 20 };
+  }
+}
+
+@Module({ providers: [ConfigService], exports: [ConfigService] })
+class ConfigModule {}
+
+// Resolve the options token of a forRootAsync module without opening the connection
+const resolveOptions = async (module: DynamicModule, connectionName?: string) => {
+  const testingModule = await Test.createTestingModule({
+    imports: [module.imports![0] as DynamicModule],
+  }).compile();
+  return testingModule.get(getMongooseOptionsToken(connectionName));
+};
+
+describe('MongooseModule', () => {
+  let forRoot: jest.SpyInstance;
+
+  beforeEach(() => {
+    forRoot = jest.spyOn(NestMongooseModule, 'forRoot');
+  });
+
+  afterEach(() => {
+    forRoot.mockRestore();
+  });
+
+  describe('forRoot', () => {
+    it('should pass connection options through and strip the library options', () => {
+      MongooseModule.forRoot({
+        uri: 'mongodb://localhost/app',
+        connectionName: 'app',
+        maxPoolSize: 50,
+        tls: true,
+        readPreference: 'secondaryPreferred',
+        authSource: 'admin',
+        tenancy: { strategy: 'discriminator' },
+        shutdown: { drainTimeoutMs: 5000 },
+        indexes: { failOnDrift: true },
+      });
+
+      expect(forRoot).toHaveBeenCalledWith('mongodb://localhost/app', {
+        connectionName: 'app',
+        maxPoolSize: 50,
+        tls: true,
+        readPreference: 'secondaryPreferred',
+        authSource: 'admin',
+        retryAttempts: 3,
+        retryDelay: 1000,
+      });
+    });
+
+    it('should turn on command monitoring for slow query detection', () => {
+      MongooseModule.forRoot({
+        uri: 'mongodb://localhost/app',
+        slowQueries: { enabled: true, thresholdMs: 50 },
+      });
+
+      expect(forRoot).toHaveBeenCalledWith('mongodb://localhost/app', {
+        connectionName: undefined,
+        monitorCommands: true,
+        retryAttempts: 3,
+        retryDelay: 1000,
+      });
+    });
+
+    it('should pass the uri through without validating it', () => {
+      expect(() => MongooseModule.forRoot({ uri: 'localhost:27017' })).not.toThrow();
+      expect(forRoot).toHaveBeenCalledWith('localhost:27017', expect.any(Object));
+    });
+
+    it('should expose the options under the options token', () => {
+      const options = { uri: 'mongodb://localhost/app', connectionName: 'app' };
+      const module = MongooseModule.forRoot(options);
+
+      expect(module.providers).toContainEqual({
+        provide: getMongooseOptionsToken('app'),
+        useValue: options,
+      });
+    });
+  });
+
+  describe('forRootAsync', () => {
+    it('should resolve options from a factory', async () => {
+      const module = MongooseModule.forRootAsync({
+        imports: [ConfigModule],
+        useFactory: (config: ConfigService) => ({ uri: config.uri, retryAttempts: 1 }),
+        inject: [ConfigService],
+      });
+
+      await expect(resolveOptions(module)).resolves.toEqual({
+        uri: 'mongodb://localhost/app',
+        retryAttempts: 1,
+      });
+    });
+
+    it('should resolve options from a useClass factory', async () => {
+      const module = MongooseModule.forRootAsync({
+        connectionName: 'app',
+        useClass: ConfigService,
+      });
+
+      await expect(resolveOptions(module, 'app')).resolves.toEqual({
+        uri: 'mongodb://localhost/app',
+        maxPoolSize: 20,
+      });
+    });
+
+    it('should resolve options from an existing provider', async () => {
+      const module = MongooseModule.forRootAsync({
+        imports: [ConfigModule],
+        useExisting: ConfigService,
+      });
+
+      await expect(resolveOptions(module)).resolves.toEqual(
+        expect.objectContaining({ uri: 'mongodb://localhost/app' }),
+      );
+    });
+
+    it('should configure tenancy from the resolved options', () => {
+      const module = MongooseModule.forRootAsync({
+        connectionName: 'tenants',
+        useFactory: () => ({ uri: 'mongodb://localhost/app' }),
+      });
+      const provider = module.providers!.find(
+        (candidate): candidate is FactoryProvider =>
+          'provide' in candidate && candidate.provide === getTenancyServiceToken('tenants'),
+      )!;
+      const connection = {} as Connection;
+
+      const tenancy = provider.useFactory(connection, {
+        uri: 'mongodb://localhost/app',
+        tenancy: { strategy: 'discriminator', tenantField: 'orgId' },
+      });
+
+      expect(tenancy).toBeInstanceOf(TenancyService);
+      expect(tenancy.tenantField).toBe('orgId');
+      expect(TenancyService.forConnection(connection)).toBe(tenancy);
+      expect(provider.useFactory(connection, { uri: 'mongodb://localhost/app' })).toBeNull();
+    });
+
+    it('should reject invalid resolved options', async () => {
+      const module = MongooseModule.forRootAsync({
+        useFactory: () => ({ uri: 'localhost' }),
+      });
+
+      await expect(resolveOptions(module)).rejects.toThrow(
+        '"uri" must start with mongodb:// or mongodb+srv://',
+      );
+    });
+
+    it('should require a way to resolve the options', () => {
+      expect(() => MongooseModule.forRootAsync({})).toThrow(
+        'MongooseModule.forRootAsync requires useFactory, useClass or useExisting',
+      );
+    });
+
+    it('should share the options module with the connection and export it', () => {
+      const module = MongooseModule.forRootAsync({ useClass: ConfigService });
+
+      expect(module.exports).toContain(module.imports![0]);
+    });
+  });
+
+  describe('forConnections', () => {
+    it('should register every connection', () => {
+      const module = MongooseModule.forConnections([
+        { uri: 'mongodb://primary/app' },
+        { uri: 'mongodb://analytics/app', connectionName: 'analytics', retryAttempts: 1 },
+      ]);
+
+      expect(module.imports).toHaveLength(2);
+      expect(module.exports).toEqual(module.imports);
+      expect(forRoot).toHaveBeenCalledWith(
+        'mongodb://analytics/app',
+        expect.objectContaining({ connectionName: 'analytics', retryAttempts: 1 }),
+      );
+    });
+
+    it('should reject duplicate connection names', () => {
+      expect(() =>
+        MongooseModule.forConnections([{ uri: 'mongodb://a/app' }, { uri: 'mongodb://b/app' }]),
+      ).toThrow('Connection "default" is registered more than once');
+    });
+  });
+});
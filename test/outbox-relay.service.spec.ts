@@ -0,0 +1,174 @@
+import { Model } from 'mongoose';
+import { EventEmitter } from 'events';
+import { OutboxRelayService } from '../src/services/outbox-relay.service';
+import { OutboxRecord } from '../src/models/outbox.model';
+import { OutboxPublisher } from '../src/interfaces/outbox.interface';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+describe('OutboxRelayService', () => {
+  let mockModel: any;
+  let mockChangeStream: any;
+  let publisher: jest.Mocked<OutboxPublisher>;
+  let relay: OutboxRelayService;
+  let outbox: any;
+  let stored: Map<string, any>;
+
+  const record = (overrides: Partial<OutboxRecord> = {}): any => ({
+    _id: 'r1',
+    eventType: 'order.placed',
+    payload: { total: 10 },
+    status: 'pending',
+    attempts: 0,
+    ...overrides,
+  });
+
+  // Keep the database copy of records, which claims update
+  const store = (...records: any[]) => {
+    records.filter(({ _id }) => !stored.has(_id)).forEach((doc) => stored.set(doc._id, { ...doc }));
+    return records;
+  };
+
+  const emitInsert = async (fullDocument: any) => {
+    store(fullDocument);
+    mockChangeStream.emit('change', {
+      _id: { _data: 'token' },
+      operationType: 'insert',
+      documentKey: { _id: fullDocument._id },
+      fullDocument,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  };
+
+  beforeEach(() => {
+    mockChangeStream = new EventEmitter();
+    mockChangeStream.close = jest.fn().mockResolvedValue(undefined);
+    mockModel = { watch: jest.fn().mockReturnValue(mockChangeStream) };
+    publisher = { publish: jest.fn().mockResolvedValue(undefined) };
+
+    relay = new OutboxRelayService(mockModel as Model<OutboxRecord>, publisher, {
+      retry: { maxAttempts: 3, initialDelayMs: 100, multiplier: 2, maxDelayMs: 150 },
+    });
+    outbox = (relay as any).outbox;
+    stored = new Map();
+    jest.spyOn(outbox, 'findDue').mockResolvedValue([]);
+    // Claims succeed once per pending record, like the conditional update in MongoDB
+    jest.spyOn(outbox, 'claim').mockImplementation(async (id: any) => {
+      const current = stored.get(id);
+      if (current?.status !== 'pending') {
+        return null;
+      }
+      current.status = 'publishing';
+      return { ...current };
+    });
+    jest.spyOn(outbox, 'markPublished').mockResolvedValue(true);
+    jest.spyOn(outbox, 'markFailed').mockResolvedValue(true);
+    jest.spyOn(outbox, 'markDeadLetter').mockResolvedValue(true);
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+  });
+
+  it('should only watch outbox inserts', async () => {
+    await relay.start();
+
+    expect(mockModel.watch).toHaveBeenCalledWith(
+      [{ $match: { operationType: 'insert' } }],
+      expect.any(Object),
+    );
+  });
+
+  it('should publish inserted records and mark them published', async () => {
+    await relay.start();
+    await emitInsert(record());
+
+    expect(publisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'r1', eventType: 'order.placed', attempts: 0 }),
+    );
+    expect(outbox.markPublished).toHaveBeenCalledWith('r1');
+  });
+
+  it('should schedule a retry with backoff when publishing fails', async () => {
+    publisher.publish.mockRejectedValue(new Error('broker down'));
+    await relay.start();
+
+    const before = Date.now();
+    await emitInsert(record({ attempts: 1 }));
+
+    expect(outbox.markPublished).not.toHaveBeenCalled();
+    const [id, error, nextAttemptAt] = outbox.markFailed.mock.calls[0];
+    expect(id).toBe('r1');
+    expect(error).toBe('broker down');
+    // Second failure: 100ms * 2, capped at 150ms
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 150);
+    expect(nextAttemptAt.getTime()).toBeLessThan(before + 200);
+  });
+
+  it('should dead-letter a record after the maximum attempts', async () => {
+    publisher.publish.mockRejectedValue(new Error('invalid payload'));
+    await relay.start();
+
+    await emitInsert(record({ attempts: 2 }));
+
+    expect(outbox.markDeadLetter).toHaveBeenCalledWith('r1', 'invalid payload');
+    expect(outbox.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('should deliver due records on start', async () => {
+    outbox.findDue.mockResolvedValue(store(record({ _id: 'r2' }), record({ _id: 'r3' })));
+
+    await relay.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(outbox.markPublished).toHaveBeenCalledWith('r2');
+    expect(outbox.markPublished).toHaveBeenCalledWith('r3');
+  });
+
+  it('should claim records before publishing them', async () => {
+    await relay.start();
+    await emitInsert(record());
+
+    expect(outbox.claim).toHaveBeenCalledWith('r1', expect.any(Date));
+    const claimedUntil = outbox.claim.mock.calls[0][1];
+    expect(claimedUntil.getTime()).toBeGreaterThan(Date.now() + 29000);
+  });
+
+  it('should skip records that are no longer pending', async () => {
+    await relay.start();
+    await emitInsert(record({ status: 'published' }));
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('should publish a record once when the sweep and the stream deliver it together', async () => {
+    let releasePublish!: () => void;
+    publisher.publish.mockImplementation(
+      () => new Promise<void>((resolve) => (releasePublish = resolve)),
+    );
+    await relay.start();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const pending = record();
+    outbox.findDue.mockResolvedValue(store(pending));
+    const sweep = relay.processDue();
+    const insert = emitInsert(pending);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    releasePublish();
+    await Promise.all([sweep, insert]);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(outbox.claim).toHaveBeenCalledTimes(2);
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+    expect(outbox.markPublished).toHaveBeenCalledTimes(1);
+  });
+});
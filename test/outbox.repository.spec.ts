@@ -0,0 +1,163 @@
+import { Model } from 'mongoose';
+import { OutboxRepository } from '../src/repositories/outbox.repository';
+import { OutboxRecord } from '../src/models/outbox.model';
+
+// Build a query-like object resolving to the given value
+const mockQuery = (value: any) => {
+  const query: any = {
+    exec: jest.fn().mockResolvedValue(value),
+  };
+  query.session = jest.fn().mockReturnValue(query);
+  query.sort = jest.fn().mockReturnValue(query);
+  query.limit = jest.fn().mockReturnValue(query);
+  query.lean = jest.fn().mockReturnValue(query);
+  return query;
+};
+
+describe('OutboxRepository', () => {
+  let mockModel: any;
+  let repository: OutboxRepository;
+
+  beforeEach(() => {
+    mockModel = jest.fn().mockImplementation((data: any) => ({
+      ...data,
+      save: jest.fn().mockResolvedValue({ _id: '1', ...data }),
+      validateSync: jest.fn().mockReturnValue(undefined),
+    }));
+    mockModel.find = jest.fn().mockReturnValue(mockQuery([]));
+    mockModel.updateOne = jest.fn().mockReturnValue(mockQuery({ modifiedCount: 1 }));
+    mockModel.findOneAndUpdate = jest.fn().mockReturnValue(mockQuery(null));
+    mockModel.bulkWrite = jest.fn().mockResolvedValue({ insertedCount: 2, insertedIds: {} });
+    mockModel.collection = { collectionName: 'outbox' };
+    repository = new OutboxRepository(mockModel as Model<OutboxRecord>);
+  });
+
+  it('should add a pending record', async () => {
+    await repository.add({ eventType: 'order.placed', payload: { total: 10 } });
+
+    expect(mockModel).toHaveBeenCalledWith({
+      eventType: 'order.placed',
+      payload: { total: 10 },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: expect.any(Date),
+    });
+  });
+
+  it('should add many records in one ordered bulk write', async () => {
+    const report = await repository.addMany([
+      { eventType: 'a', payload: 1 },
+      { eventType: 'b', payload: 2 },
+    ]);
+
+    expect(report.insertedCount).toBe(2);
+    expect(mockModel.bulkWrite).toHaveBeenCalledWith(
+      [
+        { insertOne: { document: expect.objectContaining({ eventType: 'a', status: 'pending' }) } },
+        { insertOne: { document: expect.objectContaining({ eventType: 'b', status: 'pending' }) } },
+      ],
+      { ordered: true, session: undefined },
+    );
+  });
+
+  it('should throw when a record cannot be added', async () => {
+    mockModel.bulkWrite.mockRejectedValue({
+      writeErrors: [{ index: 0, errmsg: 'duplicate key' }],
+      result: { insertedCount: 0 },
+    });
+
+    await expect(repository.addMany([{ eventType: 'a', payload: 1 }])).rejects.toThrow(
+      'Failed to add outbox record 0: duplicate key',
+    );
+  });
+
+  it('should find due pending records and expired claims oldest first', async () => {
+    await repository.findDue(10);
+
+    expect(mockModel.find).toHaveBeenCalledWith({
+      $or: [
+        { status: 'pending', nextAttemptAt: { $lte: expect.any(Date) } },
+        { status: 'publishing', claimedUntil: { $lt: expect.any(Date) } },
+      ],
+    });
+    const query = mockModel.find.mock.results[0].value;
+    expect(query.sort).toHaveBeenCalledWith({ nextAttemptAt: 1 });
+    expect(query.limit).toHaveBeenCalledWith(10);
+  });
+
+  it('should claim a due or expired record atomically', async () => {
+    const claimedUntil = new Date();
+    mockModel.findOneAndUpdate.mockReturnValue(mockQuery({ _id: '1', status: 'publishing' }));
+
+    expect(await repository.claim('1', claimedUntil)).toEqual({ _id: '1', status: 'publishing' });
+    expect(mockModel.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        _id: '1',
+        $or: [
+          { status: 'pending', nextAttemptAt: { $lte: expect.any(Date) } },
+          { status: 'publishing', claimedUntil: { $lt: expect.any(Date) } },
+        ],
+      },
+      { $set: { status: 'publishing', claimedUntil } },
+      { new: true },
+    );
+  });
+
+  it('should return null when the record is claimed elsewhere', async () => {
+    expect(await repository.claim('1', new Date())).toBeNull();
+  });
+
+  it('should mark a claimed record as published', async () => {
+    expect(await repository.markPublished('1')).toBe(true);
+
+    expect(mockModel.updateOne).toHaveBeenCalledWith(
+      { _id: '1', status: { $in: ['pending', 'publishing'] } },
+      {
+        $set: { status: 'published', publishedAt: expect.any(Date) },
+        $unset: { lastError: 1, claimedUntil: 1 },
+        $inc: { attempts: 1 },
+      },
+    );
+  });
+
+  it('should release a failed record and schedule its next attempt', async () => {
+    const nextAttemptAt = new Date();
+    await repository.markFailed('1', 'broker down', nextAttemptAt);
+
+    expect(mockModel.updateOne).toHaveBeenCalledWith(
+      { _id: '1', status: { $in: ['pending', 'publishing'] } },
+      {
+        $set: { status: 'pending', lastError: 'broker down', nextAttemptAt },
+        $unset: { claimedUntil: 1 },
+        $inc: { attempts: 1 },
+      },
+    );
+  });
+
+  it('should move a record to the dead-letter state', async () => {
+    await repository.markDeadLetter('1', 'invalid payload');
+
+    expect(mockModel.updateOne).toHaveBeenCalledWith(
+      { _id: '1', status: { $in: ['pending', 'publishing'] } },
+      {
+        $set: { status: 'dead_letter', lastError: 'invalid payload' },
+        $unset: { claimedUntil: 1 },
+        $inc: { attempts: 1 },
+      },
+    );
+  });
+
+  it('should requeue a dead-lettered record', async () => {
+    expect(await repository.requeue('1')).toBe(true);
+
+    expect(mockModel.updateOne).toHaveBeenCalledWith(
+      { _id: '1', status: 'dead_letter' },
+      { $set: { status: 'pending', attempts: 0, nextAttemptAt: expect.any(Date) } },
+    );
+  });
+
+  it('should report when no pending record was updated', async () => {
+    mockModel.updateOne.mockReturnValue(mockQuery({ modifiedCount: 0 }));
+    expect(await repository.markPublished('1')).toBe(false);
+  });
+});
@@ -15,6 +15,14 @@ describe('Query Utils', () => {
       expect(query.$or).toHaveLength(2);
     });
 
+    it('should match the search text literally', () => {
+      const query: any = buildTextSearchQuery('a.*(', ['name']);
+      const regex: RegExp = query.$or[0].name;
+
+      expect(regex.test('xa.*(y')).toBe(true);
+      expect(regex.test('abc')).toBe(false);
+    });
+
     it('should return empty object for empty search text', () => {
       const query = buildTextSearchQuery('', ['name', 'email']);
       expect(query).toEqual({});
@@ -0,0 +1,25 @@
+import { computeBackoffDelay } from '../src/utils/retry.utils';
+
+describe('Retry Utils', () => {
+  describe('computeBackoffDelay', () => {
+    const options = { initialDelayMs: 100, multiplier: 2, maxDelayMs: 1000 };
+
+    it('should grow the delay exponentially', () => {
+      expect(computeBackoffDelay(1, options)).toBe(100);
+      expect(computeBackoffDelay(2, options)).toBe(200);
+      expect(computeBackoffDelay(3, options)).toBe(400);
+    });
+
+    it('should cap the delay', () => {
+      expect(computeBackoffDelay(10, options)).toBe(1000);
+    });
+
+    it('should randomize the delay within the jitter range', () => {
+      for (let i = 0; i < 20; i++) {
+        const delay = computeBackoffDelay(2, { ...options, jitter: 0.5 });
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(300);
+      }
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  buildAtlasSearchStage,
+  buildPrefixSearchQuery,
+  buildSearchHighlights,
+  buildSearchPipeline,
+  buildTextSearchFilter,
+  highlightText,
+} from '../src/utils/search.utils';
+
+describe('Search Utils', () => {
+  describe('buildPrefixSearchQuery', () => {
+    it('should build an anchored, escaped regex per field', () => {
+      expect(buildPrefixSearchQuery('a.b(', ['name', 'email'])).toEqual({
+        $or: [{ name: { $regex: '^a\\.b\\(' } }, { email: { $regex: '^a\\.b\\(' } }],
+      });
+    });
+
+    it('should match a single field directly, optionally ignoring case', () => {
+      expect(buildPrefixSearchQuery(' jo ', ['name'], true)).toEqual({
+        name: { $regex: '^jo', $options: 'i' },
+      });
+    });
+
+    it('should return an empty query for a blank term or no fields', () => {
+      expect(buildPrefixSearchQuery('  ', ['name'])).toEqual({});
+      expect(buildPrefixSearchQuery('jo', [])).toEqual({});
+    });
+  });
+
+  describe('buildTextSearchFilter', () => {
+    it('should build a $text filter with its options', () => {
+      expect(
+        buildTextSearchFilter('coffee shop', { language: 'en', diacriticSensitive: false }),
+      ).toEqual({
+        $text: { $search: 'coffee shop', $language: 'en', $diacriticSensitive: false },
+      });
+    });
+  });
+
+  describe('buildAtlasSearchStage', () => {
+    it('should build a $search stage on the default index', () => {
+      expect(
+        buildAtlasSearchStage('coffee', {
+          fields: ['title', 'body'],
+          fuzzy: { maxEdits: 1 },
+          highlight: true,
+        }),
+      ).toEqual({
+        $search: {
+          index: 'default',
+          text: { query: 'coffee', path: ['title', 'body'], fuzzy: { maxEdits: 1 } },
+          highlight: { path: ['title', 'body'] },
+        },
+      });
+    });
+  });
+
+  describe('buildSearchPipeline', () => {
+    it('should score prefix matches by the number of matching fields', () => {
+      const pipeline = buildSearchPipeline('jo', {
+        strategy: 'prefix',
+        fields: ['name', 'email'],
+        filter: { active: true },
+        limit: 10,
+      });
+
+      expect(pipeline[0]).toEqual({
+        $match: {
+          $and: [
+            { $or: [{ name: { $regex: '^jo' } }, { email: { $regex: '^jo' } }] },
+            { active: true },
+          ],
+        },
+      });
+      expect((pipeline[1] as any).$addFields.searchScore.$add).toHaveLength(2);
+      expect(pipeline.slice(2)).toEqual([{ $sort: { searchScore: -1, _id: 1 } }, { $limit: 10 }]);
+    });
+
+    it('should score string and array fields by prefix', () => {
+      const pipeline = buildSearchPipeline('jo', {
+        strategy: 'prefix',
+        fields: ['tags'],
+        caseInsensitive: true,
+      });
+      const matches = (input: string) => ({
+        $regexMatch: {
+          input: { $convert: { input, to: 'string', onError: '', onNull: '' } },
+          regex: '^jo',
+          options: 'i',
+        },
+      });
+
+      expect(pipeline[1]).toEqual({
+        $addFields: {
+          searchScore: {
+            $add: [
+              {
+                $cond: [
+                  {
+                    $cond: [
+                      { $eq: [{ $type: '$tags' }, 'array'] },
+                      {
+                        $anyElementTrue: [
+                          { $map: { input: '$tags', as: 'value', in: matches('$$value') } },
+                        ],
+                      },
+                      matches('$tags'),
+                    ],
+                  },
+                  1,
+                  0,
+                ],
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it('should sort $text results by text score', () => {
+      const pipeline = buildSearchPipeline('coffee', {
+        strategy: 'text',
+        language: 'en',
+        filter: { active: true },
+        minScore: 0.5,
+        skip: 20,
+        limit: 10,
+      });
+
+      expect(pipeline).toEqual([
+        { $match: { $text: { $search: 'coffee', $language: 'en' }, active: true } },
+        { $addFields: { searchScore: { $meta: 'textScore' } } },
+        { $match: { searchScore: { $gte: 0.5 } } },
+        { $sort: { searchScore: -1, _id: 1 } },
+        { $skip: 20 },
+        { $limit: 10 },
+      ]);
+    });
+
+    it('should start Atlas Search pipelines with $search and add the highlights', () => {
+      const pipeline = buildSearchPipeline('coffee', {
+        strategy: 'atlas',
+        index: 'articles',
+        fields: ['title'],
+        filter: { active: true },
+        highlight: true,
+      });
+
+      expect(pipeline).toEqual([
+        {
+          $search: {
+            index: 'articles',
+            text: { query: 'coffee', path: ['title'] },
+            highlight: { path: ['title'] },
+          },
+        },
+        { $match: { active: true } },
+        {
+          $addFields: {
+            searchScore: { $meta: 'searchScore' },
+            searchHighlights: { $meta: 'searchHighlights' },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('highlightText', () => {
+    it('should split the text into hits and plain fragments', () => {
+      expect(highlightText('Best coffee, more Coffee', ['coffee'])).toEqual([
+        { value: 'Best ', type: 'text' },
+        { value: 'coffee', type: 'hit' },
+        { value: ', more ', type: 'text' },
+        { value: 'Coffee', type: 'hit' },
+      ]);
+    });
+
+    it('should only highlight the start of the text for prefixes', () => {
+      expect(highlightText('john johnson', ['john'], { prefix: true })).toEqual([
+        { value: 'john', type: 'hit' },
+        { value: ' johnson', type: 'text' },
+      ]);
+    });
+
+    it('should match special characters literally', () => {
+      expect(highlightText('a+b', ['.+'])).toEqual([{ value: 'a+b', type: 'text' }]);
+    });
+  });
+
+  describe('buildSearchHighlights', () => {
+    it('should highlight the fields containing a hit', () => {
+      const doc = { title: 'Coffee shops', body: 'Tea', meta: { tags: 'coffee, tea' } };
+
+      expect(
+        buildSearchHighlights(doc, 'coffee', {
+          strategy: 'text',
+          fields: ['title', 'body', 'meta.tags'],
+        }),
+      ).toEqual([
+        {
+          path: 'title',
+          texts: [
+            { value: 'Coffee', type: 'hit' },
+            { value: ' shops', type: 'text' },
+          ],
+        },
+        {
+          path: 'meta.tags',
+          texts: [
+            { value: 'coffee', type: 'hit' },
+            { value: ', tea', type: 'text' },
+          ],
+        },
+      ]);
+    });
+
+    it('should respect the case sensitivity of prefix searches', () => {
+      const doc = { name: 'John' };
+
+      expect(buildSearchHighlights(doc, 'jo', { strategy: 'prefix', fields: ['name'] })).toEqual(
+        [],
+      );
+      expect(
+        buildSearchHighlights(doc, 'jo', {
+          strategy: 'prefix',
+          fields: ['name'],
+          caseInsensitive: true,
+        }),
+      ).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { EventEmitter } from 'events';
+import { Model } from 'mongoose';
+import { ShutdownCoordinator } from '../src/services/shutdown-coordinator.service';
+import { BaseCdcService } from '../src/services/base-cdc.service';
+import { InMemoryCdcCheckpointStore } from '../src/services/cdc-checkpoint.store';
+import { getShutdownConnections, trackOperation } from '../src/utils/shutdown.utils';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const createConnection = (name: string, steps: string[]) => ({
+  readyState: 1,
+  close: jest.fn().mockImplementation(async () => {
+    steps.push(`close:${name}`);
+  }),
+});
+
+describe('ShutdownCoordinator', () => {
+  let steps: string[];
+
+  beforeEach(() => {
+    steps = [];
+  });
+
+  afterEach(() => {
+    expect(getShutdownConnections()).toEqual([]);
+  });
+
+  it('should drain CDC, wait for writes and close connections in dependency order', async () => {
+    const primary = createConnection('default', steps);
+    const analytics = createConnection('analytics', steps);
+    const coordinator = new ShutdownCoordinator(primary as any);
+    new ShutdownCoordinator(analytics as any, 'analytics', { dependsOn: ['default'] });
+
+    const changeStream: any = new EventEmitter();
+    changeStream.close = jest.fn().mockImplementation(async () => {
+      steps.push('intake-stopped');
+    });
+    const store = new InMemoryCdcCheckpointStore();
+    const model = { db: primary, watch: jest.fn().mockReturnValue(changeStream) };
+    const service = new BaseCdcService(model as unknown as Model<any>, {
+      checkpoint: { store, key: 'users' },
+    });
+    let finishHandler!: () => void;
+    service.registerHandler({
+      onEvent: () =>
+        new Promise<void>((resolve) => {
+          finishHandler = () => {
+            steps.push('handler-done');
+            resolve();
+          };
+        }),
+    });
+    await service.start();
+    changeStream.emit('change', {
+      _id: { _data: 'token1' },
+      operationType: 'insert',
+      documentKey: { _id: '1' },
+    });
+    trackOperation(
+      primary as any,
+      new Promise<void>((resolve) =>
+        setTimeout(() => {
+          steps.push('write-done');
+          resolve();
+        }, 20),
+      ),
+    );
+
+    const shutdown = coordinator.beforeApplicationShutdown('SIGTERM');
+    await new Promise((resolve) => setImmediate(resolve));
+    finishHandler();
+    await shutdown;
+
+    expect(steps).toEqual([
+      'intake-stopped',
+      'handler-done',
+      'write-done',
+      'close:analytics',
+      'close:default',
+    ]);
+    expect(await store.load('users')).toEqual({ _data: 'token1' });
+    expect(BaseCdcService.getRunningServices(primary as any)).toEqual([]);
+  });
+
+  it('should not wait longer than the drain timeout for hanging handlers', async () => {
+    const connection = createConnection('default', steps);
+    const coordinator = new ShutdownCoordinator(connection as any, undefined, {
+      drainTimeoutMs: 20,
+    });
+    const changeStream: any = new EventEmitter();
+    changeStream.close = jest.fn().mockResolvedValue(undefined);
+    const model = { db: connection, watch: jest.fn().mockReturnValue(changeStream) };
+    const service = new BaseCdcService(model as unknown as Model<any>, {
+      processing: { concurrency: 1 },
+    });
+    changeStream.next = jest.fn().mockResolvedValueOnce({
+      _id: { _data: 'token1' },
+      operationType: 'insert',
+      documentKey: { _id: '1' },
+    });
+    changeStream.next.mockReturnValue(new Promise(() => undefined));
+    service.registerHandler({ onEvent: () => new Promise<void>(() => undefined) });
+    await service.start();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await coordinator.shutdown();
+
+    expect(steps).toEqual(['close:default']);
+  });
+
+  it('should share one run between coordinators', async () => {
+    const connection = createConnection('default', steps);
+    const first = new ShutdownCoordinator(connection as any);
+    const second = new ShutdownCoordinator(connection as any);
+
+    await Promise.all([first.shutdown(), second.shutdown()]);
+
+    expect(connection.close).toHaveBeenCalledTimes(1);
+  });
+});
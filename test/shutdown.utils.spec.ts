@@ -0,0 +1,96 @@
+import {
+  getPendingOperationCount,
+  getShutdownOrder,
+  isShutdownManaged,
+  raceTimeout,
+  registerShutdownConnection,
+  trackOperation,
+  unregisterShutdownConnection,
+  waitForPendingOperations,
+} from '../src/utils/shutdown.utils';
+
+const managed = (name: string, dependsOn?: string[]) => ({
+  name,
+  connection: {} as any,
+  options: { dependsOn },
+});
+
+describe('Shutdown Utils', () => {
+  describe('registerShutdownConnection', () => {
+    it('should mark the connection as managed until unregistered', () => {
+      const connection = {} as any;
+
+      registerShutdownConnection('app', connection);
+      expect(isShutdownManaged(connection)).toBe(true);
+      expect(isShutdownManaged({} as any)).toBe(false);
+
+      unregisterShutdownConnection('app');
+      expect(isShutdownManaged(connection)).toBe(false);
+    });
+  });
+
+  describe('getShutdownOrder', () => {
+    it('should close every connection before its dependencies', () => {
+      const order = getShutdownOrder([
+        managed('default'),
+        managed('analytics', ['default', 'reporting']),
+        managed('reporting', ['default']),
+      ]);
+
+      expect(order.map(({ name }) => name)).toEqual(['analytics', 'reporting', 'default']);
+    });
+
+    it('should ignore unknown dependencies', () => {
+      expect(getShutdownOrder([managed('app', ['missing'])]).map(({ name }) => name)).toEqual([
+        'app',
+      ]);
+    });
+
+    it('should reject circular dependencies', () => {
+      expect(() => getShutdownOrder([managed('a', ['b']), managed('b', ['a'])])).toThrow(
+        'Circular connection dependency: a -> b -> a',
+      );
+    });
+  });
+
+  describe('trackOperation', () => {
+    it('should count operations until they settle', async () => {
+      const connection = {} as any;
+      let resolve!: () => void;
+      const operation = trackOperation(connection, new Promise<void>((r) => (resolve = r)));
+      const failed = trackOperation(connection, Promise.reject(new Error('boom')));
+
+      await expect(failed).rejects.toThrow('boom');
+      expect(getPendingOperationCount(connection)).toBe(1);
+
+      resolve();
+      await operation;
+      expect(getPendingOperationCount(connection)).toBe(0);
+    });
+  });
+
+  describe('waitForPendingOperations', () => {
+    it('should resolve true once pending operations settle', async () => {
+      const connection = {} as any;
+      trackOperation(connection, Promise.resolve(1));
+
+      await expect(waitForPendingOperations(connection, 1000)).resolves.toBe(true);
+    });
+
+    it('should resolve false on timeout', async () => {
+      const connection = {} as any;
+      trackOperation(connection, new Promise(() => undefined));
+
+      await expect(waitForPendingOperations(connection, 10)).resolves.toBe(false);
+    });
+  });
+
+  describe('raceTimeout', () => {
+    it('should resolve with the fallback when the timeout elapses first', async () => {
+      await expect(raceTimeout(Promise.resolve('value'), 100, 'fallback')).resolves.toBe('value');
+      await expect(raceTimeout(new Promise(() => undefined), 10, 'fallback')).resolves.toBe(
+        'fallback',
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { EventEmitter } from 'events';
+import { SlowQueryDetector } from '../src/services/slow-query.detector';
+import { SlowQueryReport } from '../src/interfaces/explain.interface';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const explainOutput = {
+  queryPlanner: { namespace: 'app.users', winningPlan: { stage: 'COLLSCAN' } },
+  executionStats: {
+    nReturned: 2,
+    executionTimeMillis: 150,
+    totalKeysExamined: 0,
+    totalDocsExamined: 10000,
+    executionStages: { stage: 'COLLSCAN', docsExamined: 10000 },
+  },
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('SlowQueryDetector', () => {
+  let client: EventEmitter & { db: jest.Mock };
+  let db: { command: jest.Mock };
+  let connection: any;
+  let reports: SlowQueryReport[];
+
+  const runCommand = (requestId: number, command: Record<string, any>, duration: number) => {
+    const commandName = Object.keys(command)[0];
+    client.emit('commandStarted', { requestId, commandName, databaseName: 'app', command });
+    client.emit('commandSucceeded', { requestId, commandName, duration });
+  };
+
+  beforeEach(() => {
+    db = { command: jest.fn().mockResolvedValue(explainOutput) };
+    client = Object.assign(new EventEmitter(), { db: jest.fn(() => db) });
+    connection = { getClient: () => client };
+    reports = [];
+  });
+
+  it('should log and report slow queries with their explain report', async () => {
+    const detector = new SlowQueryDetector(connection, 'app', {
+      enabled: true,
+      thresholdMs: 100,
+      onSlowQuery: (report) => reports.push(report),
+    });
+    const command = { find: 'users', filter: { status: 'active' }, lsid: { id: 1 }, $db: 'app' };
+
+    runCommand(1, command, 40);
+    runCommand(2, command, 180);
+    await flush();
+
+    expect(db.command).toHaveBeenCalledTimes(1);
+    expect(db.command).toHaveBeenCalledWith({
+      explain: { find: 'users', filter: { status: 'active' } },
+      verbosity: 'executionStats',
+    });
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      connectionName: 'app',
+      databaseName: 'app',
+      collection: 'users',
+      commandName: 'find',
+      durationMs: 180,
+      command: { find: 'users', filter: { status: 'active' } },
+      explain: {
+        collectionScan: true,
+        docsExamined: 10000,
+        suggestedIndexes: [{ collection: 'users', key: { status: 1 }, reason: 'Collection scan' }],
+      },
+    });
+    expect((detector as any).logger.warn).toHaveBeenCalledWith(
+      'Slow find on app.users (180ms): COLLSCAN, 10000 docs examined, 0 keys examined, ' +
+        '2 returned, suggested index {"status":1} (Collection scan)',
+    );
+  });
+
+  it('should explain only the first statement of updates', async () => {
+    new SlowQueryDetector(connection, 'app', { enabled: true, thresholdMs: 0 });
+
+    runCommand(1, { update: 'users', updates: [{ q: { a: 1 } }, { q: { b: 1 } }] }, 10);
+    await flush();
+
+    expect(db.command).toHaveBeenCalledWith({
+      explain: { update: 'users', updates: [{ q: { a: 1 } }] },
+      verbosity: 'executionStats',
+    });
+  });
+
+  it('should ignore other commands and failed commands', async () => {
+    new SlowQueryDetector(connection, 'app', { enabled: true, thresholdMs: 0 });
+
+    runCommand(1, { insert: 'users', documents: [] }, 500);
+    client.emit('commandStarted', {
+      requestId: 2,
+      commandName: 'find',
+      databaseName: 'app',
+      command: { find: 'users' },
+    });
+    client.emit('commandFailed', { requestId: 2, commandName: 'find', duration: 500 });
+    await flush();
+
+    expect(db.command).not.toHaveBeenCalled();
+  });
+
+  it('should report without explain when explaining fails or is disabled', async () => {
+    db.command.mockRejectedValue(new Error('not authorized'));
+    new SlowQueryDetector(connection, 'app', {
+      enabled: true,
+      thresholdMs: 0,
+      onSlowQuery: (report) => reports.push(report),
+    });
+    new SlowQueryDetector(connection, 'other', {
+      enabled: true,
+      thresholdMs: 0,
+      explain: false,
+      onSlowQuery: (report) => reports.push(report),
+    });
+
+    runCommand(1, { count: 'users', query: {} }, 300);
+    await flush();
+
+    expect(reports).toHaveLength(2);
+    expect(reports.every((report) => report.explain === undefined)).toBe(true);
+    expect(db.command).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not listen when disabled and stop listening on destroy', () => {
+    const disabled = new SlowQueryDetector(connection, 'app', { enabled: false });
+    expect(disabled.isEnabled()).toBe(false);
+    expect(client.listenerCount('commandSucceeded')).toBe(0);
+
+    const detector = new SlowQueryDetector(connection, 'app', { enabled: true });
+    expect(detector.isEnabled()).toBe(true);
+    expect(client.listenerCount('commandSucceeded')).toBe(1);
+
+    detector.onModuleDestroy();
+    expect(client.listenerCount('commandStarted')).toBe(0);
+    expect(client.listenerCount('commandSucceeded')).toBe(0);
+    expect(client.listenerCount('commandFailed')).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  AsyncLocalStorageTenantResolver,
+  createTenantMiddleware,
+  getCurrentTenantId,
+  getTenancyServiceToken,
+  isTenantScopeBypassed,
+  runWithTenant,
+  runWithoutTenant,
+} from '../src/utils/tenant.utils';
+
+describe('Tenant Utils', () => {
+  describe('runWithTenant', () => {
+    it('should expose the tenant within the async context', async () => {
+      await runWithTenant('t1', async () => {
+        await Promise.resolve();
+        expect(getCurrentTenantId()).toBe('t1');
+      });
+      expect(getCurrentTenantId()).toBeUndefined();
+    });
+  });
+
+  describe('runWithoutTenant', () => {
+    it('should mark the scope as bypassed and keep the tenant', () => {
+      runWithTenant('t1', () => {
+        expect(isTenantScopeBypassed()).toBe(false);
+        runWithoutTenant(() => {
+          expect(isTenantScopeBypassed()).toBe(true);
+          expect(getCurrentTenantId()).toBe('t1');
+        });
+      });
+    });
+  });
+
+  describe('AsyncLocalStorageTenantResolver', () => {
+    it('should resolve the tenant from the context', () => {
+      const resolver = new AsyncLocalStorageTenantResolver();
+      expect(runWithTenant('t2', () => resolver.resolve())).toBe('t2');
+    });
+  });
+
+  describe('createTenantMiddleware', () => {
+    it('should run the request in the context of the header tenant', () => {
+      const middleware = createTenantMiddleware('X-Tenant');
+      let tenantId: string | undefined;
+
+      middleware({ headers: { 'x-tenant': 'acme' } }, {}, () => {
+        tenantId = getCurrentTenantId();
+      });
+
+      expect(tenantId).toBe('acme');
+    });
+
+    it('should continue without a tenant when the header is missing', () => {
+      const middleware = createTenantMiddleware();
+      const next = jest.fn();
+
+      middleware({ headers: {} }, {}, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('getTenancyServiceToken', () => {
+    it('should build tokens per connection', () => {
+      expect(getTenancyServiceToken()).toBe('DatabaseConnectionTenancyService');
+      expect(getTenancyServiceToken('analytics')).toBe('analyticsConnectionTenancyService');
+    });
+  });
+});
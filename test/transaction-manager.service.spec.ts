@@ -0,0 +1,158 @@
+import { TransactionManager } from '../src/services/transaction-manager.service';
+import { Transactional } from '../src/decorators/transactional.decorator';
+import { getTransactionSession } from '../src/utils/transaction.utils';
+
+// Mock Logger to avoid console output during tests
+jest.mock('@nestjs/common', () => ({
+  ...jest.requireActual('@nestjs/common'),
+  Logger: jest.fn().mockImplementation(() => ({
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  })),
+}));
+
+const labelledError = (label: string) => {
+  const error: any = new Error(label);
+  error.errorLabels = [label];
+  return error;
+};
+
+describe('TransactionManager', () => {
+  let client: any;
+  let connection: any;
+  let session: any;
+  let manager: TransactionManager;
+
+  beforeEach(() => {
+    let active = false;
+    client = {};
+    session = {
+      startTransaction: jest.fn(() => (active = true)),
+      commitTransaction: jest.fn(async () => {
+        active = false;
+      }),
+      abortTransaction: jest.fn(async () => {
+        active = false;
+      }),
+      inTransaction: jest.fn(() => active),
+      endSession: jest.fn().mockResolvedValue(undefined),
+    };
+    connection = {
+      getClient: jest.fn().mockReturnValue(client),
+      startSession: jest.fn().mockResolvedValue(session),
+    };
+    manager = new TransactionManager(connection);
+  });
+
+  afterEach(() => {
+    manager.onModuleDestroy();
+  });
+
+  it('should commit and end the session on success', async () => {
+    const result = await manager.run(async () => 'done');
+
+    expect(result).toBe('done');
+    expect(session.startTransaction).toHaveBeenCalledTimes(1);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it('should expose the session through async context', async () => {
+    await manager.run(async () => {
+      await Promise.resolve();
+      expect(getTransactionSession(connection)).toBe(session);
+      expect(manager.isInTransaction()).toBe(true);
+    });
+
+    expect(getTransactionSession(connection)).toBeUndefined();
+  });
+
+  it('should not expose the session to another client', async () => {
+    const otherConnection: any = { getClient: () => ({}) };
+
+    await manager.run(async () => {
+      expect(getTransactionSession(otherConnection)).toBeUndefined();
+    });
+  });
+
+  it('should abort and rethrow on error', async () => {
+    await expect(
+      manager.run(async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(session.abortTransaction).toHaveBeenCalled();
+    expect(session.commitTransaction).not.toHaveBeenCalled();
+    expect(session.endSession).toHaveBeenCalled();
+  });
+
+  it('should retry on TransientTransactionError', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(labelledError('TransientTransactionError'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(manager.run(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(session.startTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const fn = jest.fn().mockRejectedValue(labelledError('TransientTransactionError'));
+
+    await expect(manager.run(fn, { maxRetries: 2 })).rejects.toThrow('TransientTransactionError');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry the commit on UnknownTransactionCommitResult', async () => {
+    session.commitTransaction
+      .mockRejectedValueOnce(labelledError('UnknownTransactionCommitResult'))
+      .mockResolvedValueOnce(undefined);
+    const fn = jest.fn().mockResolvedValue('ok');
+
+    await expect(manager.run(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reuse the outer session in nested scopes', async () => {
+    await manager.run(async (outer) => {
+      await manager.run(async (inner) => {
+        expect(inner).toBe(outer);
+      });
+    });
+
+    expect(connection.startSession).toHaveBeenCalledTimes(1);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  describe('@Transactional', () => {
+    class TestService {
+      calls = 0;
+
+      @Transactional()
+      async save(value: string): Promise<string> {
+        this.calls++;
+        expect(getTransactionSession(connection)).toBe(session);
+        return value;
+      }
+    }
+
+    it('should run the method inside a transaction', async () => {
+      const service = new TestService();
+
+      await expect(service.save('value')).resolves.toBe('value');
+      expect(service.calls).toBe(1);
+      expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when no manager is registered for the connection', () => {
+      expect(() => TransactionManager.forConnection('missing')).toThrow(
+        'No TransactionManager registered for connection "missingConnection"',
+      );
+    });
+  });
+});